@@ -28,6 +28,11 @@ module.exports = {
                 js: './src/preload.ts',
               },
             },
+            {
+              // Image processing Web Worker (see src/imageWorkerPool.ts)
+              js: './src/imageWorker.ts',
+              name: 'image_worker',
+            },
           ],
         },
       },
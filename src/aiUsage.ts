@@ -0,0 +1,67 @@
+import type { AIUsageLog, AIUsageRecord } from './types';
+
+const STORAGE_KEY = 'ai-usage';
+
+// List prices in USD per million tokens, used only for the cost estimate shown to the user.
+// Models not listed here (e.g. local models) have no cost estimate.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+    'gemini-3-flash-preview': { input: 0.5, output: 3 },
+    'gemini-3-pro-preview': { input: 2, output: 12 },
+    'gemini-flash-lite-latest': { input: 0.1, output: 0.4 },
+};
+
+export interface AIUsageSummary {
+    requests: number;
+    images: number;
+    inputTokens: number;
+    outputTokens: number;
+    // Null when no record had a known price
+    estimatedCost: number | null;
+}
+
+export const loadAIUsageLog = async (): Promise<AIUsageLog> => {
+    const stored = await window.electronAPI.invoke('load-data', STORAGE_KEY);
+    return stored && Array.isArray(stored.records) ? stored : { records: [] };
+};
+
+export const saveAIUsageLog = async (log: AIUsageLog) => {
+    const result = await window.electronAPI.invoke('save-data', { key: STORAGE_KEY, data: log });
+    if (!result?.success) console.error('Failed to save AI usage:', result?.error);
+};
+
+export const startOfMonth = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+
+export const estimateRecordCost = (record: Pick<AIUsageRecord, 'model' | 'inputTokens' | 'outputTokens'>) => {
+    const price = MODEL_PRICES[record.model];
+    return price ? (record.inputTokens * price.input + record.outputTokens * price.output) / 1000000 : null;
+};
+
+export const summarizeUsage = (records: AIUsageRecord[]): AIUsageSummary => records.reduce((sum, record) => {
+    const cost = estimateRecordCost(record);
+    return {
+        requests: sum.requests + 1,
+        images: sum.images + record.images,
+        inputTokens: sum.inputTokens + record.inputTokens,
+        outputTokens: sum.outputTokens + record.outputTokens,
+        estimatedCost: cost === null ? sum.estimatedCost : (sum.estimatedCost || 0) + cost,
+    };
+}, { requests: 0, images: 0, inputTokens: 0, outputTokens: 0, estimatedCost: null } as AIUsageSummary);
+
+/** Summaries per key, largest token count first. A record with several keys (e.g. questions) counts towards each. */
+export const groupUsage = (records: AIUsageRecord[], keysOf: (record: AIUsageRecord) => (string | number)[]) => {
+    const groups = new Map<string, AIUsageRecord[]>();
+    records.forEach(record => {
+        keysOf(record).forEach(key => {
+            const id = String(key);
+            if (!groups.has(id)) groups.set(id, []);
+            groups.get(id)!.push(record);
+        });
+    });
+    return Array.from(groups.entries())
+        .map(([key, grouped]) => ({ key, ...summarizeUsage(grouped) }))
+        .sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+};
+
+export const formatTokens = (tokens: number) => tokens.toLocaleString('ja-JP');
+
+export const formatCost = (cost: number | null) => cost === null ? '-' : `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
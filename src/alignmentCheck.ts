@@ -0,0 +1,86 @@
+import type { Area, Corners, Student, Template } from './types';
+import { getAlignmentContext, getAlignmentQuality, getPageAlignment, getPageWarp, loadImageFromPath } from './utils';
+import type { AlignmentQuality } from './utils';
+
+// Checks the alignment of every uploaded page at once, so that pages whose marks were not found or
+// whose warp is poor can be fixed before grading instead of showing up crop by crop.
+
+export type AlignmentCheckStatus = 'ok' | 'manual' | 'poor' | 'failed';
+
+export interface AlignmentCheckRow {
+    sheetId: string;
+    pageIndex: number;
+    imagePath: string;
+    status: AlignmentCheckStatus;
+    // Largest distance (scan pixels) of a corner from where the template has it
+    cornerDisplacement: number | null;
+    quality: AlignmentQuality | null;
+    message?: string;
+}
+
+// Pages loaded at the same time; the detection itself is spread over the image workers
+const CONCURRENT_PAGES = 4;
+
+const maxCornerDisplacement = (corners: Corners, idealCorners: Corners) => Math.max(
+    ...(['tl', 'tr', 'br', 'bl'] as (keyof Corners)[]).map(k => Math.hypot(corners[k].x - idealCorners[k].x, corners[k].y - idealCorners[k].y))
+);
+
+export const isAlignmentProblem = (row: AlignmentCheckRow) => row.status === 'poor' || row.status === 'failed';
+
+/** Whether alignment can be checked at all: the template needs its alignment marks. */
+export const canCheckAlignment = (template: Template | null | undefined, areas: Area[]) =>
+    !!template && (!!template.alignmentMarkIdealCorners || !!getAlignmentContext(areas, 0, template));
+
+/**
+ * Checks one page: its manual corners if it has them, otherwise the detected ones, and the
+ * residual of the warp they give.
+ */
+export const checkPageAlignment = async (sheet: Student, pageIndex: number, template: Template, areas: Area[]): Promise<AlignmentCheckRow | null> => {
+    const imagePath = sheet.images[pageIndex];
+    if (!imagePath) return null;
+    const context = getAlignmentContext(areas, pageIndex, template);
+    const idealCorners = context?.idealCorners || template.alignmentMarkIdealCorners;
+    if (!idealCorners) return null;
+
+    const row = { sheetId: sheet.id, pageIndex, imagePath };
+    try {
+        const img = await loadImageFromPath(imagePath);
+        const manualCorners = sheet.manualAlignmentCorners?.[pageIndex];
+        const corners = manualCorners || await getPageAlignment(imagePath, img, template.alignmentDetectionSettings, context?.searchZones);
+        if (!corners) return { ...row, status: 'failed', cornerDisplacement: null, quality: null, message: '基準マークが見つかりません' };
+
+        const cornerDisplacement = maxCornerDisplacement(corners, idealCorners);
+        const warp = await getPageWarp(imagePath, img, corners, idealCorners, context?.interior);
+        if (!warp) return { ...row, status: 'failed', cornerDisplacement, quality: null, message: '基準点から変換を計算できません' };
+
+        const quality = getAlignmentQuality(warp, idealCorners);
+        const status = quality.isPoor ? 'poor' : manualCorners ? 'manual' : 'ok';
+        return { ...row, status, cornerDisplacement, quality };
+    } catch (e) {
+        console.error(`Alignment check failed for ${imagePath}`, e);
+        return { ...row, status: 'failed', cornerDisplacement: null, quality: null, message: '画像を読み込めません' };
+    }
+};
+
+/** Checks every page of every sheet, reporting progress as pages finish. */
+export const checkSheetsAlignment = async (
+    sheets: Student[],
+    template: Template,
+    areas: Area[],
+    onProgress?: (completed: number, total: number) => void
+): Promise<AlignmentCheckRow[]> => {
+    const pages = sheets.reduce((acc, sheet) => acc.concat(sheet.images.map((_, pageIndex) => ({ sheet, pageIndex }))), [] as { sheet: Student, pageIndex: number }[])
+        .filter(({ sheet, pageIndex }) => !!sheet.images[pageIndex]);
+    const rows: AlignmentCheckRow[] = [];
+    let completed = 0;
+    onProgress?.(0, pages.length);
+    for (let i = 0; i < pages.length; i += CONCURRENT_PAGES) {
+        const results = await Promise.all(pages.slice(i, i + CONCURRENT_PAGES).map(async ({ sheet, pageIndex }) => {
+            const row = await checkPageAlignment(sheet, pageIndex, template, areas);
+            onProgress?.(++completed, pages.length);
+            return row;
+        }));
+        results.forEach(row => { if (row) rows.push(row); });
+    }
+    return rows;
+};
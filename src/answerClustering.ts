@@ -0,0 +1,106 @@
+import { loadImage } from './utils';
+import { normalizeAnswerText } from './answerKey';
+
+export interface AnswerCluster {
+    key: string;
+    // Transcribed text shared by the members; empty for clusters formed by image similarity
+    text: string;
+    // 'pending' and 'failed' hold answers that were never compared, so they are not scored together
+    source: 'text' | 'image' | 'blank' | 'pending' | 'failed';
+    studentIds: string[];
+}
+
+export interface ClusterInput {
+    studentId: string;
+    transcription?: string;
+    // Normalized thumbnail from computeSnippetSignature; null for a blank snippet, 'failed' when
+    // the snippet could not be read and undefined while it is still being computed
+    signature?: number[] | null | 'failed';
+}
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 12;
+// Below this standard deviation of the grey levels the snippet is treated as blank
+const BLANK_DEVIATION = 6;
+// Minimum correlation between two signatures for them to share a cluster
+const SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Downscales a cropped answer snippet (base64 PNG) to a small grey-level vector with zero mean and
+ * unit variance, so that brightness and contrast differences between scans do not matter.
+ */
+export const computeSnippetSignature = async (base64: string): Promise<number[] | null> => {
+    const img = await loadImage(`data:image/png;base64,${base64}`);
+    const canvas = document.createElement('canvas');
+    canvas.width = SIGNATURE_WIDTH;
+    canvas.height = SIGNATURE_HEIGHT;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+    const grey: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+        grey.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    }
+    const mean = grey.reduce((sum, v) => sum + v, 0) / grey.length;
+    const deviation = Math.sqrt(grey.reduce((sum, v) => sum + (v - mean) ** 2, 0) / grey.length);
+    if (deviation < BLANK_DEVIATION) return null;
+    return grey.map(v => (v - mean) / deviation);
+};
+
+const correlation = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0) / a.length;
+
+/**
+ * Groups answers for one question. Answers with a transcription are grouped by their normalized
+ * text; the rest by image similarity (greedy, against the first member of each cluster).
+ * Largest clusters come first, then the answers not compared yet or that could not be read.
+ */
+export const clusterAnswers = (inputs: ClusterInput[]): AnswerCluster[] => {
+    const textClusters = new Map<string, AnswerCluster>();
+    const imageClusters: { representative: number[]; cluster: AnswerCluster }[] = [];
+    const blank: AnswerCluster = { key: 'blank', text: '', source: 'blank', studentIds: [] };
+    const pending: AnswerCluster = { key: 'pending', text: '', source: 'pending', studentIds: [] };
+    const failed: AnswerCluster = { key: 'failed', text: '', source: 'failed', studentIds: [] };
+
+    inputs.forEach(input => {
+        if (input.transcription !== undefined) {
+            const normalized = normalizeAnswerText(input.transcription);
+            if (!normalized) {
+                blank.studentIds.push(input.studentId);
+                return;
+            }
+            const key = `text:${normalized}`;
+            if (!textClusters.has(key)) {
+                textClusters.set(key, { key, text: input.transcription.trim(), source: 'text', studentIds: [] });
+            }
+            textClusters.get(key)!.studentIds.push(input.studentId);
+            return;
+        }
+        if (input.signature === null) {
+            blank.studentIds.push(input.studentId);
+            return;
+        }
+        const signature = input.signature;
+        if (!signature || signature === 'failed') {
+            (signature === 'failed' ? failed : pending).studentIds.push(input.studentId);
+            return;
+        }
+        const match = imageClusters.find(c => correlation(c.representative, signature) >= SIMILARITY_THRESHOLD);
+        if (match) {
+            match.cluster.studentIds.push(input.studentId);
+        } else {
+            imageClusters.push({
+                representative: signature,
+                cluster: { key: `image:${input.studentId}`, text: '', source: 'image', studentIds: [input.studentId] },
+            });
+        }
+    });
+
+    const groups = [
+        ...Array.from(textClusters.values()),
+        ...imageClusters.map(c => c.cluster),
+        ...(blank.studentIds.length > 0 ? [blank] : []),
+    ].sort((a, b) => b.studentIds.length - a.studentIds.length);
+    // Unclassified answers go last whatever their size
+    return [...groups, ...[pending, failed].filter(c => c.studentIds.length > 0)];
+};
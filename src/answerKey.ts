@@ -0,0 +1,132 @@
+import * as xlsx from 'xlsx';
+import { ScoringStatus } from './types';
+import type { Point } from './types';
+import { toHalfWidth } from './utils';
+import { matchMathAnswer } from './mathAnswer';
+
+export interface AnswerKeyEntry {
+    label: string;
+    correctAnswer: string;
+    acceptedAnswers: string[];
+    wrongAnswers: string[];
+}
+
+// Separators accepted when alternates are typed into a single field
+const LIST_SEPARATOR = /[,，]/;
+
+export const parseAnswerList = (text: string) => text.split(LIST_SEPARATOR).map(s => s.trim()).filter(Boolean);
+
+export const formatAnswerList = (answers: string[] | undefined) => (answers || []).join(', ');
+
+// CSV text as saved by Excel (Shift_JIS) or other editors (UTF-8, with or without a BOM)
+const decodeCsv = (buffer: ArrayBuffer) => {
+    let text: string;
+    try {
+        text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch (error) {
+        text = new TextDecoder('shift_jis').decode(buffer);
+    }
+    return text.replace(/^\uFEFF/, '');
+};
+
+/**
+ * Reads an answer key from a CSV or Excel file. The first row is a header: the first column holds
+ * the question label (matching the point label), then any number of 正答 / 別解 / 誤答 columns.
+ * Alternates go one per cell so answers may themselves contain commas. Cells are read as the text
+ * shown, so answers such as "1/2" or "007" are not turned into dates or numbers.
+ */
+export const parseAnswerKeyFile = async (file: File): Promise<AnswerKeyEntry[]> => {
+    const buffer = await file.arrayBuffer();
+    const workbook = file.name.toLowerCase().endsWith('.csv')
+        ? xlsx.read(decodeCsv(buffer), { type: 'string', raw: true, cellDates: false })
+        : xlsx.read(buffer, { type: 'array', cellDates: false });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = xlsx.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false })
+        .map(row => row.map(cell => String(cell ?? '').trim()));
+    if (rows.length < 2) return [];
+
+    const columnKinds = rows[0].map((header, index) => {
+        if (index === 0) return 'label';
+        if (header.startsWith('正答') || header.startsWith('正解')) return 'correct';
+        if (header.startsWith('別解')) return 'accepted';
+        if (header.startsWith('誤答')) return 'wrong';
+        return null;
+    });
+    if (!columnKinds.includes('correct')) {
+        throw new Error('見出し行に「正答」列が見つかりません。');
+    }
+
+    return rows.slice(1).filter(row => row[0]).map(row => {
+        const entry: AnswerKeyEntry = { label: row[0], correctAnswer: '', acceptedAnswers: [], wrongAnswers: [] };
+        row.forEach((cell, index) => {
+            if (!cell) return;
+            switch (columnKinds[index]) {
+                case 'correct':
+                    if (entry.correctAnswer) entry.acceptedAnswers.push(cell);
+                    else entry.correctAnswer = cell;
+                    break;
+                case 'accepted': entry.acceptedAnswers.push(cell); break;
+                case 'wrong': entry.wrongAnswers.push(cell); break;
+            }
+        });
+        // A row with only alternates still has an answer key: the first alternate stands in for 正答
+        if (!entry.correctAnswer && entry.acceptedAnswers.length > 0) {
+            entry.correctAnswer = entry.acceptedAnswers.shift()!;
+        }
+        return entry;
+    });
+};
+
+/** Applies answer key entries to the points with the same label. Points not in the key are left as they are. */
+export const applyAnswerKey = (points: Point[], entries: AnswerKeyEntry[]) => {
+    const normalize = (label: string) => label.replace(/\s+/g, '');
+    const entriesByLabel = new Map(entries.map(entry => [normalize(entry.label), entry]));
+    const matchedLabels = new Set<string>();
+    const nextPoints = points.map(point => {
+        const entry = entriesByLabel.get(normalize(point.label));
+        if (!entry) return point;
+        matchedLabels.add(normalize(entry.label));
+        return {
+            ...point,
+            correctAnswer: entry.correctAnswer,
+            acceptedAnswers: entry.acceptedAnswers,
+            wrongAnswers: entry.wrongAnswers,
+        };
+    });
+    const unmatched = entries.filter(entry => !matchedLabels.has(normalize(entry.label))).map(entry => entry.label);
+    return { points: nextPoints, matchedCount: matchedLabels.size, unmatched };
+};
+
+export const hasAnswerKey = (point: Point) => !!point.correctAnswer?.trim();
+
+/**
+ * Canonical form used to compare a transcription with the answer key: full-width alphanumerics and
+ * half-width katakana are unified (NFKC), whitespace is removed and latin letters are lower-cased.
+ * Hiragana and katakana are not folded into each other, since the script is often what is graded.
+ */
+export const normalizeAnswerText = (text: string) =>
+    toHalfWidth(text).normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Grades a transcription against the point's answer key. Returns null when the text matches
+ * neither an accepted nor a known wrong answer, leaving the decision to the AI or the teacher.
+ * With math grading, an answer that is not a known wrong answer is compared by value first, so
+ * that the unit rule applies; the exact text only counts when it cannot be read as math.
+ */
+export const matchAnswerKey = (point: Point, transcription: string): { status: ScoringStatus; score: number; aiComment: string } | null => {
+    if (!hasAnswerKey(point)) return null;
+    const text = normalizeAnswerText(transcription);
+    if (!text) return null;
+    if ((point.wrongAnswers || []).map(normalizeAnswerText).includes(text)) {
+        return { status: ScoringStatus.INCORRECT, score: 0, aiComment: '誤答例と一致' };
+    }
+    if (point.mathGrading) {
+        const mathResult = matchMathAnswer(point, transcription);
+        if (mathResult) return mathResult;
+    }
+    const accepted = [point.correctAnswer!, ...(point.acceptedAnswers || [])].map(normalizeAnswerText);
+    if (accepted.includes(text)) {
+        return { status: ScoringStatus.CORRECT, score: point.points, aiComment: '解答キーと一致' };
+    }
+    return null;
+};
@@ -0,0 +1,100 @@
+import type { AISettings, AITokenUsage, OpenAICompatibleSettings } from '../types';
+
+// Provider-neutral request: the callers in gemini.ts build prompts and schemas once and each
+// provider translates them to its own API.
+export type AIContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export interface AIGenerateRequest {
+    systemInstruction: string;
+    parts: AIContentPart[];
+    // Expected JSON response, in Gemini's `Type` schema notation
+    responseSchema: any;
+    thinkingLevel?: 'HIGH' | 'LOW';
+}
+
+export interface AIGenerateResult {
+    success: boolean;
+    text?: string;
+    error?: { message: string };
+    // Missing when the server does not report token counts
+    usage?: AITokenUsage;
+}
+
+export interface AIProvider {
+    // Name of the model that produces the results, as recorded in the score audit log
+    modelName: string;
+    generate: (request: AIGenerateRequest) => Promise<AIGenerateResult>;
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+// The mock provider goes through the same channel, where the offline mock (src/api/mockAI.ts)
+// answers instead of the API; it keeps the Gemini model so that recorded fixtures still match.
+const createGeminiProvider = (model: string, apiKey?: string, mock = false): AIProvider => ({
+    modelName: mock ? `mock (${model})` : model,
+    generate: ({ systemInstruction, parts, responseSchema, thinkingLevel }) => {
+        const config: any = { systemInstruction, responseMimeType: 'application/json', responseSchema };
+        // Only Gemini 3 models accept a thinking level
+        if (thinkingLevel && model.includes('gemini-3')) {
+            config.thinkingConfig = { thinkingLevel };
+        }
+        return window.electronAPI.invoke('gemini-generate-content', { model, apiKey, contents: { parts }, config, mock });
+    },
+});
+
+// Gemini's schema notation uses upper-case type names; JSON Schema uses lower-case ones.
+const toJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const { type, properties, items, ...rest } = schema;
+    const converted: any = { ...rest };
+    if (type) converted.type = String(type).toLowerCase();
+    if (items) converted.items = toJsonSchema(items);
+    if (properties) {
+        converted.properties = Object.keys(properties).reduce((acc, key) => {
+            acc[key] = toJsonSchema(properties[key]);
+            return acc;
+        }, {} as Record<string, any>);
+    }
+    return converted;
+};
+
+// Structured output support varies between OpenAI-compatible servers, so the schema is
+// given in the prompt and the reply is parsed leniently by the caller.
+const createOpenAICompatibleProvider = (settings: OpenAICompatibleSettings): AIProvider => ({
+    modelName: settings.model,
+    generate: ({ systemInstruction, parts, responseSchema }) => {
+        const schemaInstruction = `\n\n出力は次のJSONスキーマに従うJSONのみとし、説明文やコードブロックは含めないでください。\n${JSON.stringify(toJsonSchema(responseSchema))}`;
+        const content = parts.map(part => 'text' in part
+            ? { type: 'text', text: part.text }
+            : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+        return window.electronAPI.invoke('openai-compatible-generate', {
+            baseUrl: settings.baseUrl,
+            apiKey: settings.apiKey,
+            body: {
+                model: settings.model,
+                temperature: 0,
+                messages: [
+                    { role: 'system', content: systemInstruction + schemaInstruction },
+                    { role: 'user', content },
+                ],
+            },
+        });
+    },
+});
+
+const createMisconfiguredProvider = (message: string): AIProvider => ({
+    modelName: '',
+    generate: async () => ({ success: false, error: { message } }),
+});
+
+/** Picks the provider configured for a project. Without settings, Gemini with `fallbackModel` is used. */
+export const getAIProvider = (aiSettings: AISettings | undefined, apiKey?: string, fallbackModel = DEFAULT_GEMINI_MODEL): AIProvider => {
+    if (aiSettings?.aiProvider === 'openai-compatible') {
+        const settings = aiSettings.openAICompatible;
+        if (!settings?.baseUrl || !settings.model) {
+            return createMisconfiguredProvider('OpenAI互換サーバーの接続先URLまたはモデル名が設定されていません。');
+        }
+        return createOpenAICompatibleProvider(settings);
+    }
+    return createGeminiProvider(aiSettings?.aiModel || fallbackModel, apiKey, aiSettings?.aiProvider === 'mock');
+};
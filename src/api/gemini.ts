@@ -1,8 +1,28 @@
 
-import { ScoringStatus, Type, Point } from '../types';
+import { ScoringStatus, Type, Point, AreaType } from '../types';
+import type { AISettings, RubricCriterion } from '../types';
+import { getAIProvider } from './aiProvider';
+import type { AIContentPart, AIGenerateResult } from './aiProvider';
+import { expectedFormatLabels, getPromptVariables, renderPromptTemplate, resolvePromptTemplate } from '../promptTemplates';
+
+// What one request consumed, for the usage log. Tokens are 0 when the server does not report them.
+// Failed requests are reported too, so they still count toward the monthly cap.
+export interface AIRequestUsage {
+    model: string;
+    images: number;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+const toRequestUsage = (result: AIGenerateResult, parts: AIContentPart[], model: string): AIRequestUsage => ({
+    model,
+    images: parts.filter(part => 'inlineData' in part).length,
+    inputTokens: result.usage?.inputTokens || 0,
+    outputTokens: result.usage?.outputTokens || 0,
+});
 
 // Used for TemplateEditor area detection
-export const callGeminiAPI = async (prompt: string, imageBase64: string, apiKey?: string, mimeType = 'image/png', model = 'gemini-3-flash-preview') => {
+export const callGeminiAPI = async (prompt: string, imageBase64: string, apiKey?: string, mimeType = 'image/png', model = 'gemini-3-flash-preview', aiSettings?: AISettings) => {
     // Define the schema for a single detected area
     const areaSchema = {
         type: Type.OBJECT,
@@ -27,7 +47,7 @@ export const callGeminiAPI = async (prompt: string, imageBase64: string, apiKey?
             "マークシート": { type: Type.ARRAY, items: areaSchema, description: "検出されたマークシート領域のリスト。" },
             "問題番号": { type: Type.ARRAY, items: areaSchema, description: "検出された問題番号領域のリスト。" },
             "基準マーク": { type: Type.ARRAY, items: areaSchema, description: "検出された基準マークのリスト。" },
-            "学籍番号": { type: Type.ARRAY, items: areaSchema, description: "検出された学籍番号領域のリスト。" },
+            [AreaType.STUDENT_ID_MARK]: { type: Type.ARRAY, items: areaSchema, description: "検出された学籍番号領域のリスト。" },
             "学籍番号基準(右)": { type: Type.ARRAY, items: areaSchema, description: "学籍番号の右側の基準マーク。" },
             "学籍番号基準(下)": { type: Type.ARRAY, items: areaSchema, description: "学籍番号の下側の基準マーク。" },
             "マークシート基準(右)": { type: Type.ARRAY, items: areaSchema, description: "マークシートの右側の基準マーク。" },
@@ -41,82 +61,379 @@ export const callGeminiAPI = async (prompt: string, imageBase64: string, apiKey?
 指定された中心座標の周辺にある、最も適切な四角い枠線を1つだけ特定してください。`;
 
     try {
-        const result = await window.electronAPI.invoke('gemini-generate-content', {
-            model: model, 
-            apiKey: apiKey,
-            contents: {
-                parts: [
-                    { text: prompt },
-                    { inlineData: { mimeType, data: imageBase64 } }
-                ]
-            },
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: detectionSchema,
-            }
+        const result = await getAIProvider(aiSettings, apiKey, model).generate({
+            systemInstruction,
+            parts: [
+                { text: prompt },
+                { inlineData: { mimeType, data: imageBase64 } }
+            ],
+            responseSchema: detectionSchema,
         });
         return result;
     } catch (error) {
-        console.error('Error calling Gemini API for area detection:', error);
+        console.error('Error calling AI for area detection:', error);
         return { success: false, error: { message: error.message } };
     }
 };
 
+export interface GradingResult {
+    studentId: string;
+    status: ScoringStatus;
+    score: number;
+    aiComment: string;
+    rubricAwards?: Record<string, number>;
+    // Missing when the model did not report it (e.g. some local models)
+    confidence?: number;
+    needsReview: boolean;
+}
+
+const gradableStatuses = [ScoringStatus.CORRECT, ScoringStatus.INCORRECT, ScoringStatus.PARTIAL];
+
+const clampPoints = (value: any, max: number) => {
+    const points = Number(value);
+    return Number.isFinite(points) ? Math.min(max, Math.max(0, Math.round(points))) : 0;
+};
+
+// With a rubric the score is the sum of the per-criterion awards and the status follows from it,
+// so a reply whose total disagrees with its own breakdown cannot slip through.
+const applyRubric = (item: any, rubric: RubricCriterion[], maxPoints: number) => {
+    const awarded = Array.isArray(item.criteria) ? item.criteria : [];
+    const rubricAwards = rubric.reduce((acc, criterion) => {
+        const award = awarded.find((a: any) => a && String(a.criterionId) === criterion.id);
+        acc[criterion.id] = clampPoints(award?.awarded, criterion.points);
+        return acc;
+    }, {} as Record<string, number>);
+    const total = rubric.reduce((sum, criterion) => sum + rubricAwards[criterion.id], 0);
+    const score = Math.min(maxPoints, total);
+    const status = score >= maxPoints ? ScoringStatus.CORRECT : score === 0 ? ScoringStatus.INCORRECT : ScoringStatus.PARTIAL;
+    return { status, score, rubricAwards };
+};
+
+// Models without enforced structured output may wrap the array in an object
+const extractResultList = (parsed: any): any[] => (Array.isArray(parsed)
+    ? parsed
+    : (parsed && typeof parsed === 'object' ? Object.values(parsed).find(Array.isArray) : undefined) || []) as any[];
+
+const isGradableItem = (item: any, rubric?: RubricCriterion[]) => !!item && ((!!rubric && rubric.length > 0) || gradableStatuses.includes(item.status));
+
+// Brings one reply item back to the result contract: known status, scores within range, a rubric breakdown that adds up
+const normalizeGradingItem = (item: any, maxPoints: number, rubric?: RubricCriterion[]) => ({
+    aiComment: typeof item.aiComment === 'string' ? item.aiComment : '',
+    ...(Number.isFinite(parseFloat(item.confidence))
+        ? { confidence: Math.min(1, Math.max(0, parseFloat(item.confidence))) }
+        : {}),
+    needsReview: item.needsReview === true,
+    ...(rubric && rubric.length > 0
+        ? applyRubric(item, rubric, maxPoints)
+        : { status: item.status as ScoringStatus, score: clampPoints(item.score, maxPoints) }),
+});
+
+// Unknown IDs are dropped, so a reply cannot write to students that were not in the request
+const normalizeGradingResults = (parsed: any, validIds: Set<string>, maxPoints: number, rubric?: RubricCriterion[]): GradingResult[] =>
+    extractResultList(parsed)
+        .filter(item => isGradableItem(item, rubric) && validIds.has(String(item.studentId)))
+        .map(item => ({ studentId: String(item.studentId), ...normalizeGradingItem(item, maxPoints, rubric) }));
+
+// What the reply must contain. Not part of the editable template, since parsing the reply depends on it.
+const gradingOutputRules = (fullMarks: string) => `出力のルール:
+- 正解: statusは「${ScoringStatus.CORRECT}」、scoreは${fullMarks}。
+- 不正解: statusは「${ScoringStatus.INCORRECT}」、scoreは0。
+- 部分的な正解: statusは「${ScoringStatus.PARTIAL}」、scoreは0から満点の間で適切に評価。
+- 白紙または判読不能: statusは「${ScoringStatus.INCORRECT}」、scoreは0。
+- 採点結果の確からしさをconfidenceに0から1の数値で記録してください。
+- 判読不能、白紙か薄い記入か判別できない、採点基準の解釈が分かれるなど、先生による確認が必要な場合はneedsReviewをtrueにしてください。`;
+
+// Values for a request that covers several questions; the specifics are given per question
+const multiQuestionPromptVariables: Record<string, string> = {
+    maxPoints: '各問題の満点',
+    label: '各問題',
+    answerFormat: '各問題の指示を参照',
+    correctAnswer: '各問題の指示を参照',
+    rubric: '各問題の指示を参照',
+};
+
+const getRubric = (point: Point) => point.rubric?.filter(criterion => criterion.description.trim() && criterion.points > 0) || [];
+
+// Per-question instructions: expected format, strict mode, answer key and rubric
+const describeGradingCriteria = (point: Point, aiGradingMode?: 'auto' | 'strict', answerFormat?: string) => {
+    let text = '';
+    if (point.expectedFormat && point.expectedFormat !== 'free') {
+        text += `\n\n**解答形式**: この問題の解答は「${expectedFormatLabels[point.expectedFormat]}」で構成されていることが期待されます。認識の際の参考にしてください。`;
+    }
+
+    if (aiGradingMode === 'strict' && answerFormat) {
+        text += `
+
+**厳格モード**: この問題の解答は、記号または特定の単語です。正解は以下の文字のみで構成されている必要があります: 「${answerFormat}」。
+指定された文字以外が含まれている場合は、原則として不正解(0点)としてください。`;
+    }
+
+    if (point.correctAnswer?.trim()) {
+        const quote = (answers: string[]) => answers.map(answer => `「${answer}」`).join('');
+        text += `\n\n**正答**: 「${point.correctAnswer.trim()}」`;
+        if (point.acceptedAnswers?.length) {
+            text += `\n**別解(正解として扱う)**: ${quote(point.acceptedAnswers)}`;
+        }
+        if (point.wrongAnswers?.length) {
+            text += `\n**誤答例(不正解として扱う)**: ${quote(point.wrongAnswers)}`;
+        }
+        text += `\n生徒の解答を読み取り、上記の正答・別解と照らし合わせて採点してください。`;
+        if (point.mathGrading) {
+            const { tolerance, unit, unitPenalty } = point.mathGrading;
+            text += `\n**数値・数式の比較**: 表記が異なっても数学的に等しい答え(例: 1/2、0.5、2/4)は正解としてください。`;
+            if (tolerance > 0) text += `正答との差が±${tolerance}以内の数値は正解としてください。`;
+            if (unit) text += `解答には単位「${unit}」が必要です。単位がない、または誤っている場合は${unitPenalty ?? 1}点減点してください。`;
+        }
+    }
+
+    const rubric = getRubric(point);
+    if (rubric.length > 0) {
+        text += `
+
+**採点基準(ルーブリック)**: 以下の観点ごとに、満たしている度合いに応じて0点からその観点の配点までの得点(awarded)をcriteriaに記録してください。
+scoreは各観点の得点の合計とし、満点(${point.points}点)を超えないようにしてください。aiCommentには減点した観点を簡潔に記述してください。
+${rubric.map(criterion => `- [${criterion.id}] ${criterion.description} (${criterion.points}点)`).join('\n')}`;
+    }
+    return text;
+};
+
+// One graded answer per item, identified by `idKey` (a student, or a question when grading per student)
+const gradingResultSchema = (idKey: string, idSchema: object, rubric: RubricCriterion[]) => ({
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            [idKey]: idSchema,
+            status: { type: Type.STRING, enum: [ScoringStatus.CORRECT, ScoringStatus.INCORRECT, ScoringStatus.PARTIAL] },
+            score: { type: Type.INTEGER },
+            aiComment: { type: Type.STRING, description: "採点理由の簡潔な説明" },
+            confidence: { type: Type.NUMBER, description: "採点結果の確信度 (0から1)" },
+            needsReview: { type: Type.BOOLEAN, description: "先生による確認が必要な場合はtrue" },
+            ...(rubric.length > 0 ? {
+                criteria: {
+                    type: Type.ARRAY,
+                    description: "ルーブリックの観点ごとの得点",
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            criterionId: { type: Type.STRING, enum: rubric.map(criterion => criterion.id) },
+                            awarded: { type: Type.INTEGER }
+                        },
+                        required: ["criterionId", "awarded"]
+                    }
+                }
+            } : {})
+        },
+        required: [idKey, "status", "score", "aiComment", "confidence", "needsReview", ...(rubric.length > 0 ? ["criteria"] : [])]
+    }
+});
+
 interface StudentSnippet {
     studentId: string;
     base64: string;
 }
 
+export interface AIGradingRequest {
+    systemInstruction: string;
+    parts: AIContentPart[];
+    responseSchema: any;
+}
+
+/** The request for one question and several students, as sent by callGeminiAPIBatch (also used for the prompt preview). */
+export const buildBatchGradingRequest = (
+    masterSnippet: string | null,
+    studentSnippets: StudentSnippet[],
+    point: Point,
+    aiGradingMode?: 'auto' | 'strict',
+    answerFormat?: string,
+    aiSettings?: AISettings
+): AIGradingRequest => {
+    const maxPoints = point.points;
+
+    const systemInstruction = `あなたはテストの解答を採点する専門の先生です。
+提供された画像には手書きの文字が含まれています。
+模範解答（画像または文字）と、複数の生徒の解答画像を一括で提供します。
+各生徒の解答を高度なOCR能力を用いて読み取り、模範解答と比較して公平かつ正確に採点してください。
+
+${renderPromptTemplate(resolvePromptTemplate(point, aiSettings), getPromptVariables(point))}
+
+${gradingOutputRules(`満点(${maxPoints})`)}`;
+
+    const prompt = `以下の生徒の解答を採点してください。この問題の満点は${maxPoints}点です。` + describeGradingCriteria(point, aiGradingMode, answerFormat);
+    const rubric = getRubric(point);
+
+    const responseSchema = gradingResultSchema('studentId', { type: Type.STRING }, rubric);
+
+    const parts: AIContentPart[] = [{ text: prompt }];
+    if (masterSnippet) {
+        parts.push({ text: "模範解答:" }, { inlineData: { mimeType: 'image/png', data: masterSnippet } });
+    }
+    parts.push({ text: "生徒の解答リスト:" });
+
+    studentSnippets.forEach(snippet => {
+        parts.push({ text: `生徒ID: ${snippet.studentId}` });
+        parts.push({ inlineData: { mimeType: 'image/png', data: snippet.base64 } });
+    });
+    return { systemInstruction, parts, responseSchema };
+};
+
 // Used for GradingView batch scoring of descriptive answers
 export const callGeminiAPIBatch = async (
-    masterSnippet: string, 
+    masterSnippet: string | null, 
     studentSnippets: StudentSnippet[], 
     point: Point,
     apiKey?: string,
     aiGradingMode?: 'auto' | 'strict', 
     answerFormat?: string,
     gradingSpeedMode?: 'quality' | 'speed',
-    model: string = 'gemini-3-flash-preview'
+    model: string = 'gemini-3-flash-preview',
+    aiSettings?: AISettings
 ) => {
     const maxPoints = point.points;
-    
+    const rubric = getRubric(point);
+    const { systemInstruction, parts, responseSchema } = buildBatchGradingRequest(masterSnippet, studentSnippets, point, aiGradingMode, answerFormat, aiSettings);
+
+    // Thinking improves quality on models that support it (Gemini 3)
+    const thinkingLevel = gradingSpeedMode === 'quality' ? 'HIGH' : gradingSpeedMode === 'speed' ? 'LOW' : undefined;
+    const provider = getAIProvider(aiSettings, apiKey, model);
+
+    try {
+        const result = await provider.generate({ systemInstruction, parts, responseSchema, thinkingLevel });
+        const usage = toRequestUsage(result, parts, provider.modelName);
+
+        if (result.success && result.text) {
+             let parsedResults;
+             try {
+                const jsonString = result.text.replace(/```json/g, '').replace(/```/g, '').trim();
+                parsedResults = JSON.parse(jsonString);
+             } catch (e) {
+                console.error('JSON Parse Error:', e, result.text);
+                return { error: 'AIからの応答の解析に失敗しました。', usage };
+             }
+            const validIds = new Set(studentSnippets.map(snippet => snippet.studentId));
+            return { results: normalizeGradingResults(parsedResults, validIds, maxPoints, rubric), model: provider.modelName, usage };
+        } else {
+            return { error: result.error?.message || '不明なAPIエラーが発生しました。', usage };
+        }
+    } catch (error) {
+        console.error('Error calling AI for batch grading:', error);
+        return { error: error.message, usage: toRequestUsage({ success: false }, parts, provider.modelName) };
+    }
+};
+
+export interface StudentQuestionAnswer {
+    point: Point;
+    base64: string;
+    masterSnippet: string | null;
+    aiGradingMode?: 'auto' | 'strict';
+    answerFormat?: string;
+}
+
+export interface StudentGradingResult extends Omit<GradingResult, 'studentId'> {
+    areaId: number;
+}
+
+/**
+ * The request for all questions of one student's page, as sent by callAIStudentGrading. The
+ * project's template goes in the system instruction; questions with their own template get it
+ * in their section of the prompt.
+ */
+export const buildStudentGradingRequest = (answers: StudentQuestionAnswer[], aiSettings?: AISettings): AIGradingRequest => {
     const systemInstruction = `あなたはテストの解答を採点する専門の先生です。
 提供された画像には手書きの文字が含まれています。
-模範解答の画像と、複数の生徒の解答画像を一括で提供します。
-各生徒の解答を高度なOCR能力を用いて読み取り、模範解答と比較して公平かつ正確に採点してください。
+1人の生徒の複数の問題の解答画像と、各問題の模範解答（画像または文字）・採点基準を提供します。
+各問題の解答を高度なOCR能力を用いて読み取り、その問題の模範解答と比較して公平かつ正確に採点してください。
+問題ごとに独立して採点し、他の問題の解答を根拠にしないでください。
+
+${renderPromptTemplate(resolvePromptTemplate(undefined, aiSettings), multiQuestionPromptVariables)}
 
-採点ガイドライン:
-1. 手書き文字の認識: 癖のある字や薄い字、消し跡なども文脈から正確に判断してください。
-2. 採点基準:
-   - 正解: statusは「${ScoringStatus.CORRECT}」、scoreは満点(${maxPoints})。
-   - 不正解: statusは「${ScoringStatus.INCORRECT}」、scoreは0。
-   - 部分的な正解: statusは「${ScoringStatus.PARTIAL}」、scoreは0から満点の間で適切に評価。
-   - 白紙または判読不能: statusは「${ScoringStatus.INCORRECT}」、scoreは0。
-3. 厳格な評価: 漢字のトメ・ハネ・ハライや、誤字脱字、送り仮名のミスも厳格にチェックしてください。
+${gradingOutputRules('その問題の満点')}`;
+
+    const parts: AIContentPart[] = [{ text: `以下の${answers.length}問の解答を採点し、問題IDごとに結果を返してください。` }];
+    answers.forEach(({ point, base64, masterSnippet, aiGradingMode, answerFormat }) => {
+        let text = `\n### 問題ID: ${point.id} (${point.label}, 満点${point.points}点)` + describeGradingCriteria(point, aiGradingMode, answerFormat);
+        if (point.promptTemplate?.trim()) {
+            text += `\n\n**この問題の採点ガイドライン**:\n${renderPromptTemplate(point.promptTemplate.trim(), getPromptVariables(point))}`;
+        }
+        parts.push({ text });
+        if (masterSnippet) {
+            parts.push({ text: "模範解答:" }, { inlineData: { mimeType: 'image/png', data: masterSnippet } });
+        }
+        parts.push({ text: "生徒の解答:" }, { inlineData: { mimeType: 'image/png', data: base64 } });
+    });
 
-重要事項:
-- 採点理由(aiComment)を日本語で簡潔に（20文字以内）記述してください。
-- 判読が難しい場合は、前後の文脈から推測を試みてください。`;
+    const allCriteria = answers.reduce((acc, { point }) => acc.concat(getRubric(point)), [] as RubricCriterion[]);
+    // Criteria are optional here since only some of the questions may have a rubric
+    const responseSchema = gradingResultSchema('questionId', { type: Type.STRING, enum: answers.map(({ point }) => String(point.id)) }, allCriteria);
+    responseSchema.items.required = responseSchema.items.required.filter(key => key !== 'criteria');
+    return { systemInstruction, parts, responseSchema };
+};
 
-    let prompt = `以下の生徒の解答を採点してください。この問題の満点は${maxPoints}点です。`;
+// Used for the per-student grading strategy: all questions of one student's page in a single request
+export const callAIStudentGrading = async (
+    answers: StudentQuestionAnswer[],
+    apiKey?: string,
+    gradingSpeedMode?: 'quality' | 'speed',
+    model: string = 'gemini-3-flash-preview',
+    aiSettings?: AISettings
+) => {
+    const { systemInstruction, parts, responseSchema } = buildStudentGradingRequest(answers, aiSettings);
+    const rubrics = new Map(answers.map(({ point }) => [point.id, getRubric(point)]));
 
-    if (point.expectedFormat && point.expectedFormat !== 'free') {
-        const formatLabels: Record<string, string> = {
-            number: '数字のみ',
-            katakana: 'カタカナのみ',
-            hiragana: 'ひらがなのみ',
-            kanji: '漢字のみ',
-            alphanumeric: '英数字のみ'
-        };
-        prompt += `\n\n**解答形式**: この問題の解答は「${formatLabels[point.expectedFormat]}」で構成されていることが期待されます。認識の際の参考にしてください。`;
+    const thinkingLevel = gradingSpeedMode === 'quality' ? 'HIGH' : gradingSpeedMode === 'speed' ? 'LOW' : undefined;
+    const provider = getAIProvider(aiSettings, apiKey, model);
+    try {
+        const result = await provider.generate({ systemInstruction, parts, responseSchema, thinkingLevel });
+        const usage = toRequestUsage(result, parts, provider.modelName);
+        if (!result.success || !result.text) {
+            return { error: result.error?.message || '不明なAPIエラーが発生しました。', usage };
+        }
+        let parsed;
+        try {
+            parsed = JSON.parse(result.text.replace(/```json/g, '').replace(/```/g, '').trim());
+        } catch (e) {
+            console.error('JSON Parse Error:', e, result.text);
+            return { error: 'AIからの応答の解析に失敗しました。', usage };
+        }
+        const pointsById = new Map(answers.map(({ point }) => [String(point.id), point]));
+        const results: StudentGradingResult[] = extractResultList(parsed)
+            .filter(item => item && pointsById.has(String(item.questionId)) && isGradableItem(item, rubrics.get(pointsById.get(String(item.questionId))!.id)))
+            .map(item => {
+                const point = pointsById.get(String(item.questionId))!;
+                return { areaId: point.id, ...normalizeGradingItem(item, point.points, rubrics.get(point.id)) };
+            });
+        return { results, model: provider.modelName, usage };
+    } catch (error) {
+        console.error('Error calling AI for per-student grading:', error);
+        return { error: error.message, usage: toRequestUsage({ success: false }, parts, provider.modelName) };
     }
+};
 
-    if (aiGradingMode === 'strict' && answerFormat) {
-        prompt += `
+/** The text of a request as the model receives it, with images shown as placeholders. */
+export const formatPromptPreview = ({ systemInstruction, parts }: AIGradingRequest) =>
+    `【システム指示】\n${systemInstruction}\n\n【プロンプト】\n` +
+    parts.map(part => 'text' in part ? part.text : '[画像]').join('\n');
 
-**厳格モード**: この問題の解答は、記号または特定の単語です。正解は以下の文字のみで構成されている必要があります: 「${answerFormat}」。
-指定された文字以外が含まれている場合は、原則として不正解(0点)としてください。`;
+// Used for GradingView transcription of short answers before matching them against the answer key
+export const callAITranscriptionBatch = async (
+    studentSnippets: StudentSnippet[],
+    point: Point,
+    apiKey?: string,
+    model: string = 'gemini-3-flash-preview',
+    aiSettings?: AISettings
+) => {
+    const systemInstruction = `あなたは手書き文字の読み取りを専門とするアシスタントです。
+各生徒の解答画像に書かれている文字を、そのまま正確に書き起こしてください。
+- 誤字や送り仮名の誤りも訂正せず、書かれている通りに書き起こしてください。
+- 消し跡や枠線、印刷された文字は含めないでください。
+- 白紙または判読不能の場合は空文字を返してください。`;
+
+    let prompt = '以下の生徒の解答画像を書き起こしてください。';
+    if (point.expectedFormat && point.expectedFormat !== 'free') {
+        prompt += `\nこの問題の解答は「${expectedFormatLabels[point.expectedFormat]}」で書かれていることが期待されます。`;
+    }
+    if (point.mathGrading) {
+        prompt += `\n解答は数値または数式です。分数は 1/2、累乗は x^2、平方根は √2、かけ算は * のように1行で書き起こし、単位があれば数値の後にそのまま続けてください。`;
     }
 
     const responseSchema = {
@@ -125,66 +442,39 @@ export const callGeminiAPIBatch = async (
             type: Type.OBJECT,
             properties: {
                 studentId: { type: Type.STRING },
-                status: { type: Type.STRING, enum: [ScoringStatus.CORRECT, ScoringStatus.INCORRECT, ScoringStatus.PARTIAL] },
-                score: { type: Type.INTEGER },
-                aiComment: { type: Type.STRING, description: "採点理由の簡潔な説明" }
+                text: { type: Type.STRING, description: "書き起こした解答" }
             },
-            required: ["studentId", "status", "score", "aiComment"]
+            required: ["studentId", "text"]
         }
     };
 
-    const contents: any = {
-        parts: [
-            { text: prompt },
-            { text: "模範解答:" },
-            { inlineData: { mimeType: 'image/png', data: masterSnippet } },
-            { text: "生徒の解答リスト:" },
-        ]
-    };
-
+    const parts: AIContentPart[] = [{ text: prompt }];
     studentSnippets.forEach(snippet => {
-        contents.parts.push({ text: `生徒ID: ${snippet.studentId}` });
-        contents.parts.push({ inlineData: { mimeType: 'image/png', data: snippet.base64 } });
+        parts.push({ text: `生徒ID: ${snippet.studentId}` });
+        parts.push({ inlineData: { mimeType: 'image/png', data: snippet.base64 } });
     });
 
-    const config: any = {
-        systemInstruction,
-        responseMimeType: 'application/json',
-        responseSchema
-    };
-
-    // Enable thinking for better quality if using a Gemini 3 model
-    if (model.includes('gemini-3')) {
-        if (gradingSpeedMode === 'quality') {
-            config.thinkingConfig = { thinkingLevel: 'HIGH' };
-        } else if (gradingSpeedMode === 'speed') {
-            config.thinkingConfig = { thinkingLevel: 'LOW' };
-        }
-    }
-
+    const provider = getAIProvider(aiSettings, apiKey, model);
     try {
-        const result = await window.electronAPI.invoke('gemini-generate-content', {
-            model: model, 
-            apiKey: apiKey,
-            contents,
-            config,
-        });
-
-        if (result.success && result.text) {
-             let parsedResults;
-             try {
-                const jsonString = result.text.replace(/```json/g, '').replace(/```/g, '').trim();
-                parsedResults = JSON.parse(jsonString);
-             } catch (e) {
-                console.error('JSON Parse Error:', e, result.text);
-                return { error: 'AIからの応答の解析に失敗しました。' };
-             }
-            return { results: parsedResults };
-        } else {
-            return { error: result.error?.message || '不明なAPIエラーが発生しました。' };
+        const result = await provider.generate({ systemInstruction, parts, responseSchema, thinkingLevel: 'LOW' });
+        const usage = toRequestUsage(result, parts, provider.modelName);
+        if (!result.success || !result.text) {
+            return { error: result.error?.message || '不明なAPIエラーが発生しました。', usage };
+        }
+        let parsed;
+        try {
+            parsed = JSON.parse(result.text.replace(/```json/g, '').replace(/```/g, '').trim());
+        } catch (e) {
+            console.error('JSON Parse Error:', e, result.text);
+            return { error: 'AIからの応答の解析に失敗しました。', usage };
         }
+        const validIds = new Set(studentSnippets.map(snippet => snippet.studentId));
+        const results = extractResultList(parsed)
+            .filter(item => item && validIds.has(String(item.studentId)))
+            .map(item => ({ studentId: String(item.studentId), text: typeof item.text === 'string' ? item.text.trim() : '' }));
+        return { results, model: provider.modelName, usage };
     } catch (error) {
-        console.error('Error calling Gemini API for batch grading:', error);
-        return { error: error.message };
+        console.error('Error calling AI for transcription:', error);
+        return { error: error.message, usage: toRequestUsage({ success: false }, parts, provider.modelName) };
     }
 };
@@ -0,0 +1,202 @@
+import { ScoringStatus, Type } from '../types';
+import type { AITokenUsage } from '../types';
+
+// Offline stand-in for the 'gemini-generate-content' channel, shared by the Electron main process
+// and the web shim. Recorded responses are replayed by request hash; any other request gets a
+// fake reply built from its response schema. Both are deterministic, so a demo or test run gives
+// the same grades every time.
+
+export const MOCK_FIXTURES_KEY = 'ai-mock-fixtures';
+
+export type MockAIMode = 'off' | 'replay' | 'record';
+
+export interface MockAIFixture {
+    model: string;
+    text: string;
+    usage?: AITokenUsage;
+    recordedAt: number;
+}
+
+export type MockAIFixtures = Record<string, MockAIFixture>;
+
+export interface GenerateContentRequest {
+    model?: string;
+    contents: { parts: any[] };
+    config?: any;
+    // Set by the mock provider (AI settings), which is served by the mock regardless of AI_MOCK
+    mock?: boolean;
+}
+
+interface GenerateContentResult {
+    success: boolean;
+    text?: string;
+    usage?: AITokenUsage;
+}
+
+/**
+ * AI_MOCK=1 (or "replay") serves every request from the mock; AI_MOCK=record calls the real API
+ * and stores each successful response as a fixture for later replay. In renderer bundles
+ * process.env.AI_MOCK is replaced at build time by the webpack DefinePlugin.
+ */
+export const getMockAIMode = (requested?: boolean): MockAIMode => {
+    if (requested) return 'replay';
+    const env = String(process.env.AI_MOCK || '').toLowerCase();
+    if (env === 'record') return 'record';
+    return env === '1' || env === 'true' || env === 'replay' ? 'replay' : 'off';
+};
+
+// cyrb53: a fast 53-bit string hash, enough to key fixtures and seed the fake grades
+const hashString = (text: string, seed = 0) => {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+/** Fixture key: everything sent to the model (model, prompt, images and config), but not the API key. */
+export const hashMockRequest = ({ model, contents, config }: GenerateContentRequest) =>
+    hashString(JSON.stringify({ model, contents, config })).toString(16);
+
+export const recordMockFixture = (fixtures: MockAIFixtures | null, request: GenerateContentRequest, result: GenerateContentResult): MockAIFixtures => ({
+    ...(fixtures || {}),
+    [hashMockRequest(request)]: { model: request.model || '', text: result.text || '', usage: result.usage, recordedAt: Date.now() },
+});
+
+interface MockQuestion {
+    maxPoints: number;
+    criteria: { id: string; points: number }[];
+}
+
+// What the fake grader needs from the prompt: the answer images by student or question ID, and
+// the full marks and rubric of each question (a single question when grading per question)
+interface MockPrompt {
+    text: string;
+    imageCount: number;
+    studentImages: Map<string, string>;
+    questionImages: Map<string, string>;
+    questions: Map<string, MockQuestion>;
+}
+
+const SINGLE_QUESTION = '';
+
+const readPrompt = (parts: any[]): MockPrompt => {
+    const prompt: MockPrompt = { text: '', imageCount: 0, studentImages: new Map(), questionImages: new Map(), questions: new Map() };
+    let questionId = SINGLE_QUESTION;
+    let studentId: string | null = null;
+    let isStudentAnswer = false;
+    const question = () => {
+        if (!prompt.questions.has(questionId)) prompt.questions.set(questionId, { maxPoints: 1, criteria: [] });
+        return prompt.questions.get(questionId)!;
+    };
+
+    (parts || []).forEach(part => {
+        if (part?.inlineData) {
+            prompt.imageCount++;
+            if (studentId !== null) prompt.studentImages.set(studentId, part.inlineData.data);
+            else if (isStudentAnswer) prompt.questionImages.set(questionId, part.inlineData.data);
+            studentId = null;
+            isStudentAnswer = false;
+            return;
+        }
+        const text = typeof part?.text === 'string' ? part.text : '';
+        prompt.text += text;
+        const studentMatch = text.match(/^生徒ID: (.+)$/);
+        studentId = studentMatch ? studentMatch[1] : null;
+        isStudentAnswer = text === '生徒の解答:';
+
+        const questionMatch = text.match(/問題ID: (\S+) \(.*満点(\d+)点\)/);
+        if (questionMatch) {
+            questionId = questionMatch[1];
+            question().maxPoints = parseInt(questionMatch[2], 10);
+        }
+        const fullMarksMatch = text.match(/満点は(\d+)点/);
+        if (fullMarksMatch) question().maxPoints = parseInt(fullMarksMatch[1], 10);
+        const criterionPattern = /^- \[([^\]]+)\] .* \((\d+)点\)$/gm;
+        let criterion;
+        while ((criterion = criterionPattern.exec(text)) !== null) {
+            question().criteria.push({ id: criterion[1], points: parseInt(criterion[2], 10) });
+        }
+    });
+    return prompt;
+};
+
+// Roughly 6 in 10 answers correct, 2 partial and 2 incorrect, decided by the answer image alone
+const fakeGrade = (image: string, question: MockQuestion) => {
+    const roll = hashString(image) % 100;
+    let status = roll < 60 ? ScoringStatus.CORRECT : roll < 80 ? ScoringStatus.PARTIAL : ScoringStatus.INCORRECT;
+    if (status === ScoringStatus.PARTIAL && question.maxPoints < 2) status = ScoringStatus.INCORRECT;
+    const confidence = Math.round((0.55 + (hashString(image, 1) % 45) / 100) * 100) / 100;
+    const criteria = question.criteria.map((criterion, index) => ({
+        criterionId: criterion.id,
+        awarded: status === ScoringStatus.CORRECT || (status === ScoringStatus.PARTIAL && index % 2 === 0) ? criterion.points : 0,
+    }));
+    const score = status === ScoringStatus.CORRECT ? question.maxPoints : status === ScoringStatus.PARTIAL ? Math.floor(question.maxPoints / 2) : 0;
+    return {
+        status,
+        score: criteria.length > 0 ? criteria.reduce((sum, c) => sum + c.awarded, 0) : score,
+        aiComment: '模擬採点',
+        confidence,
+        needsReview: confidence < 0.7,
+        ...(criteria.length > 0 ? { criteria } : {}),
+    };
+};
+
+// Few distinct transcriptions, so that grouping by answer has clusters to show
+const fakeTranscription = (image: string) => `模擬解答${hashString(image, 2) % 5 + 1}`;
+
+const emptyValue = (schema: any): any => {
+    switch (String(schema?.type).toUpperCase()) {
+        case Type.STRING: return schema.enum?.[0] ?? '';
+        case Type.NUMBER:
+        case Type.INTEGER: return 0;
+        case Type.BOOLEAN: return false;
+        case Type.ARRAY: return [];
+        case Type.OBJECT: return Object.keys(schema.properties || {}).reduce((acc, key) => {
+            acc[key] = emptyValue(schema.properties[key]);
+            return acc;
+        }, {} as Record<string, any>);
+        default: return null;
+    }
+};
+
+// Grading and transcription replies are lists keyed by student or question; anything else
+// (e.g. layout detection) gets an empty value of the right shape.
+const fakeReply = (schema: any, prompt: MockPrompt) => {
+    const itemProperties = String(schema?.type).toUpperCase() === Type.ARRAY ? schema.items?.properties : undefined;
+    if (!itemProperties) return emptyValue(schema);
+
+    const isTranscription = 'text' in itemProperties;
+    if (itemProperties.studentId) {
+        const question = prompt.questions.get(SINGLE_QUESTION) || { maxPoints: 1, criteria: [] };
+        return Array.from(prompt.studentImages.entries()).map(([studentId, image]) => isTranscription
+            ? { studentId, text: fakeTranscription(image) }
+            : { studentId, ...fakeGrade(image, question) });
+    }
+    if (itemProperties.questionId) {
+        return Array.from(prompt.questionImages.entries())
+            .filter(([questionId]) => prompt.questions.has(questionId))
+            .map(([questionId, image]) => ({ questionId, ...fakeGrade(image, prompt.questions.get(questionId)!) }));
+    }
+    return [];
+};
+
+// Gemini counts an image as 258 tokens; text is estimated at about 4 characters per token
+const estimateUsage = (prompt: MockPrompt, systemInstruction: string, reply: string): AITokenUsage => ({
+    inputTokens: Math.ceil((prompt.text.length + systemInstruction.length) / 4) + prompt.imageCount * 258,
+    outputTokens: Math.ceil(reply.length / 4),
+});
+
+export const generateMockContent = (request: GenerateContentRequest, fixtures: MockAIFixtures | null): GenerateContentResult => {
+    const fixture = fixtures?.[hashMockRequest(request)];
+    if (fixture) return { success: true, text: fixture.text, usage: fixture.usage };
+
+    const prompt = readPrompt(request.contents?.parts);
+    const text = JSON.stringify(fakeReply(request.config?.responseSchema, prompt));
+    return { success: true, text, usage: estimateUsage(prompt, String(request.config?.systemInstruction || ''), text) };
+};
@@ -0,0 +1,37 @@
+import { readOpenAIUsage } from './usageMetadata';
+
+// Chat completion request against an OpenAI-compatible HTTP API (Ollama, llama.cpp server,
+// vLLM, LM Studio, ...). Shared by the Electron main process and the web shim so that both
+// builds talk to the server the same way.
+const REQUEST_TIMEOUT = 5 * 60 * 1000;
+
+export const requestChatCompletion = async (baseUrl: string, apiKey: string | undefined, body: unknown) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+    try {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify(body),
+            signal: controller.signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            return { success: false, error: { message: `HTTP ${response.status}: ${detail.slice(0, 200)}` } };
+        }
+        const data = await response.json();
+        const text = data?.choices?.[0]?.message?.content;
+        if (typeof text !== 'string') {
+            return { success: false, error: { message: 'サーバーの応答に生成結果が含まれていません。' } };
+        }
+        return { success: true, text, usage: readOpenAIUsage(data?.usage) };
+    } catch (error: any) {
+        const message = error.name === 'AbortError' ? 'サーバーからの応答がタイムアウトしました。' : error.message;
+        return { success: false, error: { message } };
+    } finally {
+        clearTimeout(timer);
+    }
+};
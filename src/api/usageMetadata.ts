@@ -0,0 +1,13 @@
+import type { AITokenUsage } from '../types';
+
+// Token counts as reported by each API, mapped to one shape. Shared by the Electron main
+// process and the web shim. Gemini bills thinking tokens as output.
+export const readGeminiUsage = (metadata: any): AITokenUsage | undefined => metadata ? {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+} : undefined;
+
+export const readOpenAIUsage = (usage: any): AITokenUsage | undefined => usage ? {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0,
+} : undefined;
@@ -0,0 +1,170 @@
+import { app } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+import type { BackupInfo, BackupKind, GradingProject } from './types';
+import { enqueueStorageTask, getCorruptFiles, clearCorruptFiles, isCorruptFile, readJsonFile, writeFileAtomic } from './storageUtils';
+
+const userDataDir = app.getPath('userData');
+const backupsDir = path.join(userDataDir, 'backups');
+
+// Everything under userData that makes up the saved state (images are referenced, not copied).
+const DATA_ENTRIES = ['projects', 'projects.json', 'rosters.json', 'layouts.json'];
+
+const AUTO_BACKUP_INTERVAL = 10 * 60 * 1000;
+const MAX_BACKUPS_PER_KIND: Record<BackupKind, number | null> = {
+    auto: 10,
+    daily: 14,
+    'pre-restore': 5,
+    manual: null,
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+const formatDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const formatTimestamp = (d: Date) => `${formatDate(d)}_${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}${pad(d.getMilliseconds(), 3)}`;
+
+const exists = (p: string) => fs.access(p).then(() => true, () => false);
+
+const countProjects = async (backupPath: string) => {
+    const index = await readJsonFile<{ projects: Record<string, unknown> }>(path.join(backupPath, 'projects', 'index.json'));
+    if (index.status === 'ok') return Object.keys(index.data.projects || {}).length;
+    const legacy = await readJsonFile<Record<string, unknown>>(path.join(backupPath, 'projects.json'));
+    return legacy.status === 'ok' ? Object.keys(legacy.data).length : 0;
+};
+
+export const listBackups = async (): Promise<BackupInfo[]> => {
+    let ids: string[];
+    try {
+        ids = await fs.readdir(backupsDir);
+    } catch (error) {
+        return [];
+    }
+    const backups: BackupInfo[] = [];
+    for (const id of ids) {
+        const meta = await readJsonFile<BackupInfo>(path.join(backupsDir, id, 'backup.json'));
+        if (meta.status === 'ok') backups.push(meta.data);
+    }
+    return backups.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Reads the projects saved in a backup, in either the per-project or the legacy single-file layout.
+export const loadBackupProjects = async (backupId: string): Promise<GradingProject[]> => {
+    const backupPath = path.join(backupsDir, path.basename(backupId));
+    const projects: GradingProject[] = [];
+    const legacy = await readJsonFile<Record<string, GradingProject>>(path.join(backupPath, 'projects.json'));
+    if (legacy.status === 'ok') projects.push(...Object.values(legacy.data));
+
+    const projectsPath = path.join(backupPath, 'projects');
+    const files = await fs.readdir(projectsPath).catch((): string[] => []);
+    for (const file of files.filter(f => f.endsWith('.json') && f !== 'index.json')) {
+        const result = await readJsonFile<GradingProject>(path.join(projectsPath, file));
+        if (result.status === 'ok') projects.push(result.data);
+    }
+    return projects;
+};
+
+// A corrupt data file is backed up as its last readable copy from an earlier backup, so that copy
+// survives rotation, and the corrupt original is kept next to it as `<name>.corrupt`.
+const backupCorruptFiles = async (backupPath: string) => {
+    const earlierBackups = await listBackups();
+    for (const { file } of getCorruptFiles()) {
+        const relativePath = path.relative(userDataDir, file);
+        if (relativePath.startsWith('..') || !DATA_ENTRIES.includes(relativePath.split(path.sep)[0])) continue;
+        const target = path.join(backupPath, relativePath);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        for (const backup of earlierBackups) {
+            const previous = path.join(backupsDir, backup.id, relativePath);
+            if (path.join(backupsDir, backup.id) === backupPath) continue;
+            if ((await readJsonFile(previous)).status === 'ok') {
+                await fs.copyFile(previous, target);
+                break;
+            }
+        }
+        if (await exists(file)) await fs.copyFile(file, `${target}.corrupt`);
+    }
+};
+
+const createBackupUnqueued = async (kind: BackupKind, now = new Date()): Promise<BackupInfo> => {
+    const id = kind === 'daily' ? `daily-${formatDate(now)}` : `${kind}-${formatTimestamp(now)}`;
+    const backupPath = path.join(backupsDir, id);
+    await fs.mkdir(backupPath, { recursive: true });
+
+    for (const entry of DATA_ENTRIES) {
+        const source = path.join(userDataDir, entry);
+        if (await exists(source)) {
+            await fs.cp(source, path.join(backupPath, entry), { recursive: true, filter: file => !isCorruptFile(file) });
+        }
+    }
+    await backupCorruptFiles(backupPath);
+
+    const info: BackupInfo = { id, kind, createdAt: now.getTime(), projectCount: await countProjects(backupPath) };
+    await writeFileAtomic(path.join(backupPath, 'backup.json'), JSON.stringify(info, null, 2));
+    return info;
+};
+
+const pruneBackups = async () => {
+    const backups = await listBackups();
+    for (const [kind, max] of Object.entries(MAX_BACKUPS_PER_KIND)) {
+        if (max === null) continue;
+        const stale = backups.filter(b => b.kind === kind).slice(max);
+        for (const backup of stale) {
+            await fs.rm(path.join(backupsDir, backup.id), { recursive: true, force: true });
+        }
+    }
+};
+
+let lastAutoBackupAt: number | null = null;
+
+// Called from within the storage queue before any data file is overwritten.
+// Takes a rolling backup at most every AUTO_BACKUP_INTERVAL and one snapshot per day.
+export const maybeCreateBackups = async () => {
+    try {
+        const now = new Date();
+        if (lastAutoBackupAt === null) {
+            const latestAuto = (await listBackups()).find(b => b.kind === 'auto');
+            lastAutoBackupAt = latestAuto ? latestAuto.createdAt : 0;
+        }
+        let created = false;
+        if (now.getTime() - lastAutoBackupAt >= AUTO_BACKUP_INTERVAL) {
+            await createBackupUnqueued('auto', now);
+            lastAutoBackupAt = now.getTime();
+            created = true;
+        }
+        if (!(await exists(path.join(backupsDir, `daily-${formatDate(now)}`, 'backup.json')))) {
+            await createBackupUnqueued('daily', now);
+            created = true;
+        }
+        if (created) await pruneBackups();
+    } catch (error) {
+        // A failed backup must never block the save itself.
+        console.error('Failed to create automatic backup:', error);
+    }
+};
+
+export const createBackup = (kind: BackupKind = 'manual') => enqueueStorageTask(async () => {
+    const info = await createBackupUnqueued(kind);
+    await pruneBackups();
+    return info;
+});
+
+// Replaces the current data files with the contents of a backup. The current state
+// is itself backed up first so that a restore can be undone.
+export const restoreBackup = (backupId: string) => enqueueStorageTask(async () => {
+    const backupPath = path.join(backupsDir, path.basename(backupId));
+    if (!(await exists(path.join(backupPath, 'backup.json')))) {
+        throw new Error(`Backup not found: ${backupId}`);
+    }
+
+    await createBackupUnqueued('pre-restore');
+
+    for (const entry of DATA_ENTRIES) {
+        const target = path.join(userDataDir, entry);
+        await fs.rm(target, { recursive: true, force: true });
+        const source = path.join(backupPath, entry);
+        if (await exists(source)) {
+            await fs.cp(source, target, { recursive: true });
+        }
+    }
+
+    clearCorruptFiles();
+    await pruneBackups();
+});
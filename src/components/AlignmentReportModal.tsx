@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import type { AlignmentCheckRow, AlignmentCheckStatus } from '../alignmentCheck';
+import { isAlignmentProblem } from '../alignmentCheck';
+import { XIcon, CrosshairIcon } from './icons';
+
+interface AlignmentReportModalProps {
+    rows: AlignmentCheckRow[];
+    // Name shown for a sheet, e.g. "1組 3番 山田"
+    getSheetLabel: (sheetId: string) => string;
+    onOpenManualAlignment: (row: AlignmentCheckRow) => void;
+    onRecheck: () => void;
+    onClose: () => void;
+}
+
+const statusLabels: Record<AlignmentCheckStatus, { label: string; className: string }> = {
+    ok: { label: '成功', className: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' },
+    manual: { label: '手動補正', className: 'bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-300' },
+    poor: { label: '精度低', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300' },
+    failed: { label: '失敗', className: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300' },
+};
+
+const describeProblem = (row: AlignmentCheckRow) => {
+    if (row.message) return row.message;
+    const quality = row.quality;
+    if (!quality) return '';
+    const problems: string[] = [];
+    if (quality.residual > quality.limit) problems.push(`残差が目安 (${quality.limit.toFixed(1)}px) を超えています`);
+    if (quality.missingMarks > 0) problems.push(`補正マーク${quality.missingMarks}個が見つかりません`);
+    return problems.join('、');
+};
+
+export const AlignmentReportModal: React.FC<AlignmentReportModalProps> = ({ rows, getSheetLabel, onOpenManualAlignment, onRecheck, onClose }) => {
+    const problemCount = useMemo(() => rows.filter(isAlignmentProblem).length, [rows]);
+    const [showProblemsOnly, setShowProblemsOnly] = useState(problemCount > 0);
+    const visibleRows = showProblemsOnly ? rows.filter(isAlignmentProblem) : rows;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+                <div className="flex justify-between items-center p-4 border-b dark:border-slate-700">
+                    <div>
+                        <h3 className="text-lg font-semibold">位置合わせの確認結果</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {rows.length}ページ中 {problemCount > 0 ? <span className="text-red-600 dark:text-red-400 font-bold">{problemCount}ページに問題があります</span> : 'すべて位置合わせできました'}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700"><XIcon className="w-5 h-5"/></button>
+                </div>
+                <div className="flex items-center justify-between gap-2 px-4 py-2 text-xs">
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={showProblemsOnly} onChange={e => setShowProblemsOnly(e.target.checked)} className="rounded" />
+                        <span>問題のあるページのみ表示</span>
+                    </label>
+                    <span className="text-slate-500 dark:text-slate-400">ずれ: 基準点とテンプレートの位置の差 / 残差: 位置合わせ後に残る誤差</span>
+                </div>
+                <div className="flex-1 overflow-y-auto px-4">
+                    <table className="w-full text-xs">
+                        <thead className="sticky top-0 bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400">
+                            <tr className="border-b dark:border-slate-700">
+                                <th className="p-2 text-left">生徒</th>
+                                <th className="p-2 text-left">ページ</th>
+                                <th className="p-2 text-left">結果</th>
+                                <th className="p-2 text-right">ずれ (px)</th>
+                                <th className="p-2 text-right">残差 (px)</th>
+                                <th className="p-2 text-left">内容</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleRows.map(row => {
+                                const status = statusLabels[row.status];
+                                return (
+                                    <tr key={`${row.sheetId}-${row.pageIndex}`} className="border-b dark:border-slate-700">
+                                        <td className="p-2">{getSheetLabel(row.sheetId)}</td>
+                                        <td className="p-2">{row.pageIndex + 1}</td>
+                                        <td className="p-2"><span className={`px-1.5 py-0.5 rounded font-bold ${status.className}`}>{status.label}</span></td>
+                                        <td className="p-2 text-right font-mono">{row.cornerDisplacement !== null ? row.cornerDisplacement.toFixed(0) : '-'}</td>
+                                        <td className="p-2 text-right font-mono">{row.quality ? row.quality.residual.toFixed(1) : '-'}</td>
+                                        <td className="p-2 text-slate-500 dark:text-slate-400">{describeProblem(row)}</td>
+                                        <td className="p-2 text-right">
+                                            <button
+                                                onClick={() => onOpenManualAlignment(row)}
+                                                className={`inline-flex items-center gap-1 px-2 py-1 rounded whitespace-nowrap ${isAlignmentProblem(row) ? 'bg-sky-600 text-white hover:bg-sky-500' : 'bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600'}`}
+                                            >
+                                                <CrosshairIcon className="w-3 h-3" />
+                                                手動補正
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {visibleRows.length === 0 && (
+                                <tr><td colSpan={7} className="p-4 text-center text-slate-400">問題のあるページはありません</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t dark:border-slate-700">
+                    <button onClick={onRecheck} className="px-4 py-2 rounded-md bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600">再確認</button>
+                    <button onClick={onClose} className="px-4 py-2 bg-sky-600 text-white rounded-md hover:bg-sky-500">閉じる</button>
+                </div>
+            </div>
+        </div>
+    );
+};
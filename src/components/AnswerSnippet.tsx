@@ -2,11 +2,10 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import type { Area, Template } from '../types';
 import { RotateCcwIcon, SpinnerIcon, XIcon } from './icons';
-import { detectAndWarpCrop, loadImage } from '../utils';
+import { getPageAlignment, getPageWarp, loadImage, warpArea } from '../utils';
 
 // Shared global caches to prevent resource exhaustion and redundant processing
 const imagePromiseCache = new Map<string, Promise<HTMLImageElement>>();
-const alignmentPromiseCache = new Map<string, Promise<any>>();
 
 // Helper to get or create image load promise
 const getSharedImage = (src: string): Promise<HTMLImageElement> => {
@@ -25,35 +24,6 @@ const getSharedImage = (src: string): Promise<HTMLImageElement> => {
     return promise;
 };
 
-// Helper to get or create alignment detection promise
-const getSharedAlignment = (
-    src: string, 
-    img: HTMLImageElement, 
-    template: Template, 
-    settings?: { minSize: number, threshold: number, padding: number },
-    searchZones?: { tl: Area; tr: Area; br: Area; bl: Area }
-): Promise<any> => {
-    // Include settings in the cache key to handle adjustments
-    const cacheKey = `${src}_${settings?.threshold || 160}_${settings?.minSize || 10}_${JSON.stringify(searchZones || {})}`;
-    let promise = alignmentPromiseCache.get(cacheKey);
-    if (!promise) {
-        promise = (async () => {
-            if (!template.alignmentMarkIdealCorners) return null;
-            const canvas = document.createElement('canvas');
-            canvas.width = img.naturalWidth;
-            canvas.height = img.naturalHeight;
-            const ctx = canvas.getContext('2d', { willReadFrequently: true });
-            if (!ctx) return null;
-            ctx.drawImage(img, 0, 0);
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            const { findAlignmentMarks } = await import('../utils');
-            return findAlignmentMarks(imageData, settings, searchZones);
-        })();
-        alignmentPromiseCache.set(cacheKey, promise);
-    }
-    return promise;
-};
-
 interface PannableImageProps {
     imageDataUrl: string;
     imageWidth: number;
@@ -194,6 +164,8 @@ interface AnswerSnippetProps {
     useAlignment?: boolean;
     alignmentSettings?: { minSize: number, threshold: number, padding: number };
     searchZones?: { tl: Area; tr: Area; br: Area; bl: Area };
+    // Interior reference marks of the area's page, which correct the warp of curled scans
+    interiorMarks?: Area[];
     manualCorners?: {
         tl: { x: number, y: number },
         tr: { x: number, y: number },
@@ -204,7 +176,7 @@ interface AnswerSnippetProps {
 
 export const AnswerSnippet: React.FC<AnswerSnippetProps> = ({ 
     imageSrc, area, template, pannable = false, onClick, children, manualPanOffset, onPanCommit, padding = 0, isEnhanced = false, useAlignment = false,
-    alignmentSettings, searchZones, manualCorners
+    alignmentSettings, searchZones, interiorMarks, manualCorners
 }) => {
     const [croppedImage, setCroppedImage] = useState<{ url: string, width: number, height: number, cropX: number, cropY: number } | null>(null);
     const [loading, setLoading] = useState(false);
@@ -260,23 +232,24 @@ export const AnswerSnippet: React.FC<AnswerSnippetProps> = ({
                     console.log("Alignment logic running", { manualCorners, useAlignment, idealCorners });
                     // Use manualCorners if available, otherwise try to find them automatically IF useAlignment is true.
                     // If useAlignment is false but we are here because of manualCorners, we use manualCorners.
-                    const srcCorners = manualCorners || (useAlignment ? await getSharedAlignment(imageSrc, img, template!, alignmentSettings, searchZones) : null);
+                    const srcCorners = manualCorners || (useAlignment ? await getPageAlignment(imageSrc, img, alignmentSettings, searchZones) : null);
                     
                     if (srcCorners) {
                         console.log("srcCorners found:", srcCorners);
                         try {
-                            const alignedDataUrl = await detectAndWarpCrop(
-                                img, idealCorners, 
-                                { x: area.x - padding, y: area.y - padding, width: area.width + padding*2, height: area.height + padding*2 },
-                                srcCorners,
-                                alignmentSettings,
-                                searchZones
-                            );
-                            console.log("alignedDataUrl result:", alignedDataUrl.url ? "URL present" : "URL null");
+                            const interior = interiorMarks && interiorMarks.length > 0
+                                ? { marks: interiorMarks, templateImagePath: template?.pages[area.pageIndex || 0]?.imagePath, threshold: alignmentSettings?.threshold }
+                                : undefined;
+                            const warp = await getPageWarp(imageSrc, img, srcCorners, idealCorners, interior);
+                            const alignedDataUrl = warp ? await warpArea(
+                                img, warp,
+                                { x: area.x - padding, y: area.y - padding, width: area.width + padding*2, height: area.height + padding*2 }
+                            ) : "";
+                            console.log("alignedDataUrl result:", alignedDataUrl ? "URL present" : "URL null");
                             
-                            if (alignedDataUrl.url && isMounted) {
+                            if (alignedDataUrl && isMounted) {
                                 setCroppedImage({
-                                    url: alignedDataUrl.url, width: area.width + padding*2, height: area.height + padding*2,
+                                    url: alignedDataUrl, width: area.width + padding*2, height: area.height + padding*2,
                                     cropX: area.x - padding, cropY: area.y - padding
                                 });
                                 setLoading(false);
@@ -328,7 +301,7 @@ export const AnswerSnippet: React.FC<AnswerSnippetProps> = ({
 
         crop();
         return () => { isMounted = false; };
-    }, [imageSrc, area.x, area.y, area.width, area.height, padding, useAlignment, template, manualCorners, alignmentSettings, searchZones]);
+    }, [imageSrc, area.x, area.y, area.width, area.height, padding, useAlignment, template, manualCorners, alignmentSettings, searchZones, interiorMarks, area.pageIndex]);
 
     if (!imageSrc) return <div className="w-full h-full flex items-center justify-center bg-slate-100 text-slate-400 text-xs">No Image</div>;
     if (loading) return <div className="w-full h-full flex items-center justify-center bg-slate-50"><SpinnerIcon className="w-5 h-5 text-sky-500" /></div>;
@@ -1,5 +1,7 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { ProjectProvider, useProject } from '../context/ProjectContext';
+import { GradingJobProvider } from '../context/GradingJobContext';
+import { AIUsageProvider } from '../context/AIUsageContext';
 import { AppMode, AppStep } from '../types';
 import type { QuestionStats, AISettings } from '../types';
 
@@ -12,7 +14,9 @@ import { GradeAggregationView } from './GradeAggregationView';
 import { AnswerSheetCreator } from './AnswerSheetCreator';
 import { Print } from './Print';
 import { GradingWorkflow } from './GradingWorkflow';
-import { ArrowLeftIcon, SettingsIcon, FileDownIcon, UsersIcon, BarChart3Icon, Edit3Icon, FilePlusIcon } from './icons';
+import { DataRecoveryModal } from './DataRecoveryModal';
+import { HistoryPanel } from './HistoryPanel';
+import { ArrowLeftIcon, SettingsIcon, FileDownIcon, UsersIcon, BarChart3Icon, Edit3Icon, FilePlusIcon, Undo2Icon, Redo2Icon, ListIcon } from './icons';
 
 const AppContent: React.FC = () => {
     const {
@@ -21,13 +25,15 @@ const AppContent: React.FC = () => {
         isLoading, activeProject, goToStep, prevStep, nextStep,
         handleProjectSelect, handleProjectCreate, handleProjectDelete,
         handleProjectImport, handleProjectExportWithOptions,
-        updateActiveProject
+        updateActiveProject, dataRecoveryInfo, setDataRecoveryInfo, handleRestoreBackup,
+        projectHistory, undo, redo, jumpToHistory
     } = useProject();
 
     const [theme, setTheme] = useState<'light' | 'dark'>(() => (localStorage.getItem('theme') as 'light' | 'dark') || 'light');
     const [appMode, setAppMode] = useState<AppMode>(AppMode.HOME);
     const [printPreviewConfig, setPrintPreviewConfig] = useState<{ open: boolean, initialTab: 'report' | 'sheets', questionStats: QuestionStats[] }>({ open: false, initialTab: 'report', questionStats: [] });
     const [apiKey, setApiKey] = useState<string>(() => localStorage.getItem('manual_api_key') || "");
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
     useEffect(() => {
         const checkApiKey = async () => {
@@ -54,9 +60,31 @@ const AppContent: React.FC = () => {
             const oldSettings = proj.aiSettings;
             const newSettings = typeof updater === 'function' ? updater(oldSettings) : updater;
             return { ...proj, aiSettings: newSettings, lastModified: Date.now() };
-        });
+        }, 'AI設定を変更');
     }, [activeProject, updateActiveProject]);
     
+    // The template editor keeps its own area history and handles Ctrl+Z itself.
+    const isProjectHistoryEnabled = appMode === AppMode.GRADING && !!activeProject && currentStep !== AppStep.AREA_SELECTION && currentStep !== AppStep.SETTINGS;
+
+    useEffect(() => {
+        if (!isProjectHistoryEnabled) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isLoading) return;
+            const target = e.target as HTMLElement;
+            if (target.tagName.match(/INPUT|TEXTAREA|SELECT/) || target.isContentEditable) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isProjectHistoryEnabled, isLoading, undo, redo]);
+
     const goBackFromSettings = useCallback(() => {
         if (previousStep) {
             setCurrentStep(previousStep);
@@ -139,67 +167,84 @@ const AppContent: React.FC = () => {
     }, [appMode, currentStep]);
 
     return (
-        <div className="h-full w-full bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-slate-100 flex flex-col font-sans">
-            {isLoading && (
-                 <div className="fixed inset-0 bg-black/50 z-50 flex justify-center items-center">
-                    <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-sky-400"></div>
-                 </div>
-            )}
-            {printPreviewConfig.open && activeProject && <Print initialTab={printPreviewConfig.initialTab} questionStats={printPreviewConfig.questionStats} onClose={() => setPrintPreviewConfig({ ...printPreviewConfig, open: false })} />}
-            
-            {isNavVisible && (
-                 <header className="flex-shrink-0 w-full p-1 sm:p-2 bg-white dark:bg-slate-800 shadow-md flex justify-between items-center z-20">
-                    <div className="flex items-center gap-2 sm:gap-4">
-                        <button onClick={resetToHome} className="text-sm sm:text-lg font-bold p-1 sm:p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md">AI Grading Assistant</button>
-                        <div className="h-4 sm:h-6 w-px bg-slate-200 dark:bg-slate-700"></div>
-                        <div className="flex items-center gap-1 sm:gap-2 text-slate-600 dark:text-slate-400 text-xs sm:text-sm">
-                           <ModeIcon className="w-4 h-4 sm:w-5 sm:h-5" />
-                           <span className="hidden xs:inline">
-                                {appMode === AppMode.GRADING && '採点モード'}
-                                {appMode === AppMode.ROSTER && '名簿管理モード'}
-                                {appMode === AppMode.AGGREGATION && '成績集計モード'}
-                                {appMode === AppMode.SHEET_CREATOR && '解答用紙作成ツール'}
-                           </span>
-                           {isGradingMode && activeProject && <span className="font-semibold text-slate-800 dark:text-slate-200 max-w-[100px] sm:max-w-none truncate">&gt; {activeProject.name}</span>}
+        <GradingJobProvider apiKey={apiKey}>
+            <div className="h-full w-full bg-slate-100 dark:bg-slate-900 text-slate-900 dark:text-slate-100 flex flex-col font-sans">
+                {isLoading && (
+                     <div className="fixed inset-0 bg-black/50 z-50 flex justify-center items-center">
+                        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-sky-400"></div>
+                     </div>
+                )}
+                {dataRecoveryInfo && !isLoading && (
+                    <DataRecoveryModal info={dataRecoveryInfo} onRestore={handleRestoreBackup} onDismiss={() => setDataRecoveryInfo(null)} />
+                )}
+                {isHistoryOpen && isProjectHistoryEnabled && (
+                    <HistoryPanel history={projectHistory} onJump={jumpToHistory} onClose={() => setIsHistoryOpen(false)} />
+                )}
+                {printPreviewConfig.open && activeProject && <Print initialTab={printPreviewConfig.initialTab} questionStats={printPreviewConfig.questionStats} onClose={() => setPrintPreviewConfig({ ...printPreviewConfig, open: false })} />}
+                
+                {isNavVisible && (
+                     <header className="flex-shrink-0 w-full p-1 sm:p-2 bg-white dark:bg-slate-800 shadow-md flex justify-between items-center z-20">
+                        <div className="flex items-center gap-2 sm:gap-4">
+                            <button onClick={resetToHome} className="text-sm sm:text-lg font-bold p-1 sm:p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md">AI Grading Assistant</button>
+                            <div className="h-4 sm:h-6 w-px bg-slate-200 dark:bg-slate-700"></div>
+                            <div className="flex items-center gap-1 sm:gap-2 text-slate-600 dark:text-slate-400 text-xs sm:text-sm">
+                               <ModeIcon className="w-4 h-4 sm:w-5 sm:h-5" />
+                               <span className="hidden xs:inline">
+                                    {appMode === AppMode.GRADING && '採点モード'}
+                                    {appMode === AppMode.ROSTER && '名簿管理モード'}
+                                    {appMode === AppMode.AGGREGATION && '成績集計モード'}
+                                    {appMode === AppMode.SHEET_CREATOR && '解答用紙作成ツール'}
+                               </span>
+                               {isGradingMode && activeProject && <span className="font-semibold text-slate-800 dark:text-slate-200 max-w-[100px] sm:max-w-none truncate">&gt; {activeProject.name}</span>}
+                            </div>
                         </div>
-                    </div>
-                    <div className="flex items-center gap-1 sm:gap-2">
-                        {isGradingMode && activeProject && <button onClick={() => handleProjectExportWithOptions(activeProject.id, { includeTemplate: true, includeStudents: true, includeAnswers: true })} className="flex items-center gap-1 px-2 py-1 sm:px-3 sm:py-2 text-[10px] sm:text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors"><FileDownIcon className="w-3 h-3 sm:w-4 sm:h-4" /><span className="hidden sm:inline">エクスポート</span></button>}
-                        <button onClick={() => goToStep(AppStep.SETTINGS)} className={`p-1.5 sm:p-2 rounded-full ${currentStep === AppStep.SETTINGS ? 'bg-slate-200 dark:bg-slate-700' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}><SettingsIcon className="w-4 h-4 sm:w-5 sm:h-5"/></button>
-                    </div>
-                </header>
-            )}
-
-            <main className="flex-1 flex flex-col p-2 sm:p-4 overflow-hidden">
-                {isStepView && (
-                    <div className="flex-shrink-0 mb-2 sm:mb-4 flex items-center gap-2 sm:gap-4">
-                        {showBackButton && <button onClick={prevStep} className="p-1.5 sm:p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700"><ArrowLeftIcon className="w-4 h-4 sm:w-5 sm:h-5"/></button>}
-                        <div className="flex-grow">
-                            <Stepper currentStep={currentStep} onStepClick={goToStep} />
+                        <div className="flex items-center gap-1 sm:gap-2">
+                            {isProjectHistoryEnabled && (
+                                <div className="flex items-center">
+                                    <button onClick={undo} disabled={projectHistory.cursor === 0} title="元に戻す (Ctrl+Z)" className="p-1.5 sm:p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"><Undo2Icon className="w-4 h-4 sm:w-5 sm:h-5"/></button>
+                                    <button onClick={redo} disabled={projectHistory.cursor >= projectHistory.entries.length} title="やり直し (Ctrl+Y)" className="p-1.5 sm:p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent"><Redo2Icon className="w-4 h-4 sm:w-5 sm:h-5"/></button>
+                                    <button onClick={() => setIsHistoryOpen(true)} title="編集履歴" className="p-1.5 sm:p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700"><ListIcon className="w-4 h-4 sm:w-5 sm:h-5"/></button>
+                                </div>
+                            )}
+                            {isGradingMode && activeProject && <button onClick={() => handleProjectExportWithOptions(activeProject.id, { includeTemplate: true, includeStudents: true, includeAnswers: true })} className="flex items-center gap-1 px-2 py-1 sm:px-3 sm:py-2 text-[10px] sm:text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors"><FileDownIcon className="w-3 h-3 sm:w-4 sm:h-4" /><span className="hidden sm:inline">エクスポート</span></button>}
+                            <button onClick={() => goToStep(AppStep.SETTINGS)} className={`p-1.5 sm:p-2 rounded-full ${currentStep === AppStep.SETTINGS ? 'bg-slate-200 dark:bg-slate-700' : 'hover:bg-slate-200 dark:hover:bg-slate-700'}`}><SettingsIcon className="w-4 h-4 sm:w-5 sm:h-5"/></button>
                         </div>
-                         {currentStep !== AppStep.RESULTS && <button onClick={nextStep} disabled={!activeProject?.template} className="px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm bg-sky-600 hover:bg-sky-500 text-white rounded-md disabled:bg-slate-400">次へ</button>}
-                    </div>
+                    </header>
                 )}
-                {isSettingsView && (
-                    <div className="flex-shrink-0 mb-2 sm:mb-4 flex items-center gap-2 sm:gap-4">
-                        <button onClick={goBackFromSettings} className="p-1.5 sm:p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700">
-                            <ArrowLeftIcon className="w-4 h-4 sm:w-5 sm:h-5"/>
-                        </button>
-                        <h2 className="text-lg sm:text-xl font-semibold text-slate-800 dark:text-slate-200">設定</h2>
+
+                <main className="flex-1 flex flex-col p-2 sm:p-4 overflow-hidden">
+                    {isStepView && (
+                        <div className="flex-shrink-0 mb-2 sm:mb-4 flex items-center gap-2 sm:gap-4">
+                            {showBackButton && <button onClick={prevStep} className="p-1.5 sm:p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700"><ArrowLeftIcon className="w-4 h-4 sm:w-5 sm:h-5"/></button>}
+                            <div className="flex-grow">
+                                <Stepper currentStep={currentStep} onStepClick={goToStep} />
+                            </div>
+                             {currentStep !== AppStep.RESULTS && <button onClick={nextStep} disabled={!activeProject?.template} className="px-3 py-1.5 sm:px-4 sm:py-2 text-xs sm:text-sm bg-sky-600 hover:bg-sky-500 text-white rounded-md disabled:bg-slate-400">次へ</button>}
+                        </div>
+                    )}
+                    {isSettingsView && (
+                        <div className="flex-shrink-0 mb-2 sm:mb-4 flex items-center gap-2 sm:gap-4">
+                            <button onClick={goBackFromSettings} className="p-1.5 sm:p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700">
+                                <ArrowLeftIcon className="w-4 h-4 sm:w-5 sm:h-5"/>
+                            </button>
+                            <h2 className="text-lg sm:text-xl font-semibold text-slate-800 dark:text-slate-200">設定</h2>
+                        </div>
+                    )}
+                    <div className={`flex-1 flex flex-col ${isScrollableStep ? 'overflow-auto' : 'overflow-hidden'}`}>
+                        {renderContent()}
                     </div>
-                )}
-                <div className={`flex-1 flex flex-col ${isScrollableStep ? 'overflow-auto' : 'overflow-hidden'}`}>
-                    {renderContent()}
-                </div>
-            </main>
-        </div>
+                </main>
+            </div>
+        </GradingJobProvider>
     );
 };
 
 export const App: React.FC = () => {
     return (
         <ProjectProvider>
-            <AppContent />
+            <AIUsageProvider>
+                <AppContent />
+            </AIUsageProvider>
         </ProjectProvider>
     );
 };
\ No newline at end of file
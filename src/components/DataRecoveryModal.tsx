@@ -0,0 +1,70 @@
+import React from 'react';
+import type { BackupInfo, BackupKind, DataRecoveryInfo } from '../types';
+import { AlertCircleIcon, RotateCcwIcon } from './icons';
+
+export const backupKindLabels: Record<BackupKind, string> = {
+    auto: '自動',
+    daily: '日次',
+    manual: '手動',
+    'pre-restore': '復元前',
+};
+
+export const BackupList = ({ backups, onRestore }: { backups: BackupInfo[]; onRestore: (backupId: string) => void }) => {
+    if (backups.length === 0) {
+        return <p className="text-sm text-slate-500 dark:text-slate-400">利用できるバックアップはありません。</p>;
+    }
+    return (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg max-h-72 overflow-y-auto">
+            {backups.map(backup => (
+                <li key={backup.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-slate-200 dark:bg-slate-700">{backupKindLabels[backup.kind]}</span>
+                        <span>{new Date(backup.createdAt).toLocaleString()}</span>
+                        <span className="text-slate-500 dark:text-slate-400">({backup.projectCount} テスト)</span>
+                    </div>
+                    <button
+                        onClick={() => onRestore(backup.id)}
+                        className="flex items-center gap-1 px-3 py-1 text-xs bg-sky-600 hover:bg-sky-500 text-white rounded-md"
+                    >
+                        <RotateCcwIcon className="w-3 h-3" />
+                        復元
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export const DataRecoveryModal = ({ info, onRestore, onDismiss }: {
+    info: DataRecoveryInfo;
+    onRestore: (backupId: string) => void;
+    onDismiss: () => void;
+}) => {
+    const handleRestore = (backupId: string) => {
+        if (window.confirm('選択したバックアップの状態に戻しますか？現在のデータは復元前バックアップとして保存されます。')) {
+            onRestore(backupId);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl p-6 space-y-4">
+                <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
+                    <AlertCircleIcon className="w-6 h-6" />
+                    <h3 className="text-lg font-semibold">保存データを読み込めませんでした</h3>
+                </div>
+                <p className="text-sm">
+                    以下のファイルが破損しているため読み込めませんでした。バックアップから復元するか、このまま続行してください。
+                    続行した場合、破損したファイルは上書きされずに別名で保管されます。
+                </p>
+                <ul className="text-xs font-mono bg-slate-100 dark:bg-slate-900 rounded-md p-2 space-y-1 max-h-32 overflow-y-auto">
+                    {info.corruptFiles.map(f => <li key={f.file} title={f.error}>{f.file}</li>)}
+                </ul>
+                <BackupList backups={info.backups} onRestore={handleRestore} />
+                <div className="flex justify-end">
+                    <button onClick={onDismiss} className="px-4 py-2 rounded-md hover:bg-slate-100 dark:hover:bg-slate-700">このまま続行</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -2,64 +2,28 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import type { AllScores, ScoreData, GradingFilter, Annotation, Point, Area } from '../types';
 import { AreaType, ScoringStatus } from '../types';
-import { callGeminiAPIBatch } from '../api/gemini';
+import { matchAnswerKey } from '../answerKey';
+import { clusterAnswers, computeSnippetSignature } from '../answerClustering';
+import type { AnswerCluster } from '../answerClustering';
 import { QuestionSidebar } from './grading/QuestionSidebar';
 import { GradingHeader } from './grading/GradingHeader';
 import { StudentAnswerGrid } from './grading/StudentAnswerGrid';
+import { AnswerClusterView } from './grading/AnswerClusterView';
 import { AnnotationEditor } from './AnnotationEditor';
+import { ScoreAuditModal } from './grading/ScoreAuditModal';
 import { useProject } from '../context/ProjectContext';
-import { analyzeMarkSheetSnippet, findNearestAlignedRefArea, detectAndWarpCrop, loadImage, getAlignmentContext } from '../utils';
-
-const cropImage = async (imagePath: string, area: import('../types').Area, template?: import('../types').Template, areas?: import('../types').Area[], isEnhanced?: boolean): Promise<string> => {
-    let dataUrl = imagePath;
-    if (!imagePath.startsWith('data:') && !imagePath.startsWith('blob:')) {
-        const result = await window.electronAPI.invoke('get-image-details', imagePath);
-        if (result.success && result.details?.url) {
-            dataUrl = result.details.url;
-        }
-    }
-    
-    const img = await loadImage(dataUrl);
-    
-    if (template && areas) {
-        const context = getAlignmentContext(areas, area.pageIndex || 0, template);
-        if (context) {
-            const res = await detectAndWarpCrop(img, context.idealCorners, area, undefined, template.alignmentDetectionSettings, context.searchZones);
-            if (res.url) {
-                // If enhanced, we need to process the warped result
-                if (isEnhanced) {
-                    const warpedImg = await loadImage(res.url);
-                    const canvas = document.createElement('canvas');
-                    canvas.width = warpedImg.width; canvas.height = warpedImg.height;
-                    const ctx = canvas.getContext('2d')!;
-                    ctx.filter = 'grayscale(100%) contrast(200%) brightness(90%)';
-                    ctx.drawImage(warpedImg, 0, 0);
-                    return canvas.toDataURL('image/png').split(',')[1];
-                }
-                return res.url.split(',')[1];
-            }
-        }
-    }
-    
-    return new Promise((resolve, reject) => {
-        const canvas = document.createElement('canvas');
-        canvas.width = area.width; canvas.height = area.height;
-        const ctx = canvas.getContext('2d')!;
-        if (isEnhanced) {
-            ctx.filter = 'grayscale(100%) contrast(200%) brightness(90%)';
-        }
-        ctx.drawImage(img, area.x, area.y, area.width, area.height, 0, 0, area.width, area.height);
-        resolve(canvas.toDataURL('image/png').split(',')[1]);
-    });
-};
+import { useGradingJobs } from '../context/GradingJobContext';
+import { useAIUsage } from '../context/AIUsageContext';
+import { formatTokens } from '../aiUsage';
+import { cropImage } from '../snippets';
 
 export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
     const { activeProject, studentsWithInfo, handleScoresChange, updateActiveProject } = useProject();
     const { template, areas, points, scores, aiSettings } = activeProject!;
     const [selectedAreaId, setSelectedAreaId] = useState<number | null>(null);
     const [filter, setFilter] = useState<GradingFilter>('ALL');
-    const [isGrading, setIsGrading] = useState(false);
-    const [progress, setProgress] = useState({ current: 0, total: 0, message: '' });
+    const { job, isRunning: isGrading, gradingStatus, startJob, estimateJob } = useGradingJobs();
+    const { monthUsage, monthlyTokenLimit, isMonthlyLimitReached } = useAIUsage();
     
     // Focus and Keyboard handling
     const [focusedStudentId, setFocusedStudentId] = useState<string | null>(null);
@@ -67,11 +31,16 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
 
     // These states are managed via local UI but should ideally be in context for consistency
     const autoAlign = aiSettings.enableAutoAlignment;
-    const setAutoAlign = (val: boolean) => updateActiveProject(prev => ({ ...prev, aiSettings: { ...prev.aiSettings, enableAutoAlignment: val }, lastModified: Date.now() }));
+    const setAutoAlign = (val: boolean) => updateActiveProject(prev => ({ ...prev, aiSettings: { ...prev.aiSettings, enableAutoAlignment: val }, lastModified: Date.now() }), val ? '自動位置補正をオン' : '自動位置補正をオフ');
     
     const [isImageEnhanced, setIsImageEnhanced] = useState(false);
     const [columnCount, setColumnCount] = useState(0); // 0 means Auto
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+    const [auditTarget, setAuditTarget] = useState<{ studentId: string; areaId: number } | null>(null);
+    const [groupByAnswer, setGroupByAnswer] = useState(false);
+    // Image signatures for answer clustering, keyed by `${areaId}:${autoAlign}:${studentId}`
+    const [snippetSignatures, setSnippetSignatures] = useState<Record<string, number[] | null | 'failed'>>({});
+    const [isClustering, setIsClustering] = useState(false);
 
     const answerAreas = useMemo(() => areas.filter(a => a.type === AreaType.ANSWER || a.type === AreaType.MARK_SHEET), [areas]);
 
@@ -85,6 +54,9 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
             const status = scoreData?.status || ScoringStatus.UNSCORED;
             const hasImage = !!student.images[pageIdx];
 
+            if (filter === 'NEEDS_REVIEW') {
+                return status === ScoringStatus.UNSCORED && !!scoreData?.needsReview;
+            }
             if (filter === 'SCORED') {
                 return status !== ScoringStatus.UNSCORED;
             }
@@ -99,6 +71,16 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
         });
     }, [studentsWithInfo, filter, scores, selectedAreaId, areas]);
 
+    const reviewCount = useMemo(() => {
+        if (!selectedAreaId) return 0;
+        return studentsWithInfo.filter(s => {
+            const scoreData = scores[s.id]?.[selectedAreaId];
+            return !!scoreData?.needsReview && (scoreData.status || ScoringStatus.UNSCORED) === ScoringStatus.UNSCORED;
+        }).length;
+    }, [studentsWithInfo, scores, selectedAreaId]);
+
+    const studentName = useCallback((studentId: string) => studentsWithInfo.find(s => s.id === studentId)?.name || studentId, [studentsWithInfo]);
+
     // Helper to advance to next student
     const moveToNextStudent = useCallback(() => {
         if (!focusedStudentId || filteredStudents.length === 0) return;
@@ -159,7 +141,7 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
                 handleScoresChange(prev => ({
                     ...prev,
                     [focusedStudentId]: { ...prev[focusedStudentId], [selectedAreaId]: { ...prev[focusedStudentId]?.[selectedAreaId], status: ScoringStatus.CORRECT, score: point.points } }
-                }));
+                }), `${point.label} を正解に変更 (${studentName(focusedStudentId)})`);
                 setPartialScoreInput('');
                 moveToNextStudent(); // Auto advance on J
             } else if (e.key.toLowerCase() === 'f') {
@@ -168,7 +150,7 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
                 handleScoresChange(prev => ({
                     ...prev,
                     [focusedStudentId]: { ...prev[focusedStudentId], [selectedAreaId]: { ...prev[focusedStudentId]?.[selectedAreaId], status: ScoringStatus.INCORRECT, score: 0 } }
-                }));
+                }), `${point.label} を不正解に変更 (${studentName(focusedStudentId)})`);
                 setPartialScoreInput('');
                 moveToNextStudent(); // Auto advance on F
             } else if (/^[0-9]$/.test(e.key)) {
@@ -181,7 +163,7 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
                     handleScoresChange(prev => ({
                         ...prev,
                         [focusedStudentId]: { ...prev[focusedStudentId], [selectedAreaId]: { ...prev[focusedStudentId]?.[selectedAreaId], status: ScoringStatus.PARTIAL, score: val } }
-                    }));
+                    }), `${point.label} の部分点を変更 (${studentName(focusedStudentId)})`);
                 }
             } else if (e.key === 'Backspace') {
                 e.preventDefault();
@@ -191,7 +173,7 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
                     handleScoresChange(scoresPrev => ({
                         ...scoresPrev,
                         [focusedStudentId]: { ...scoresPrev[focusedStudentId], [selectedAreaId]: { ...scoresPrev[focusedStudentId]?.[selectedAreaId], status: ScoringStatus.PARTIAL, score: val } }
-                    }));
+                    }), `${point.label} の部分点を変更 (${studentName(focusedStudentId)})`);
                     return next;
                 });
             } else if (e.key === 'Enter') {
@@ -203,108 +185,107 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [isGrading, selectedAreaId, focusedStudentId, filteredStudents, partialScoreInput, points, columnCount, handleScoresChange, moveToNextStudent]);
+    }, [isGrading, selectedAreaId, focusedStudentId, filteredStudents, partialScoreInput, points, columnCount, handleScoresChange, moveToNextStudent, studentName]);
 
 
-    const handleStartGrading = async (areaIds: number[]) => {
-        setIsGrading(true);
-        const validStudents = studentsWithInfo.filter(s => s.images.length > 0);
-        const total = validStudents.length * areaIds.length;
-        let current = 0;
-        setProgress({ current, total, message: '採点準備中...' });
+    const handleStartGrading = (areaIds: number[]) => {
+        if (job && job.status !== 'completed' && !window.confirm('中断中の採点があります。破棄して新しく採点を開始しますか？')) return;
+        const estimate = estimateJob(areaIds);
+        if (estimate && estimate.requests > 0) {
+            if (isMonthlyLimitReached) {
+                alert('今月のAI利用量が上限に達しています。上限は設定画面で変更できます。');
+                return;
+            }
+            const strategyLabel = (strategy: string) => strategy === 'per-student' ? '生徒ごと' : '問題ごと';
+            const { alternative } = estimate;
+            const message = `AIへのリクエスト: 最大${estimate.requests}回 (画像${estimate.images}枚)\n` +
+                `参考: 「${strategyLabel(alternative.strategy)}」で採点した場合は最大${alternative.requests}回 (画像${alternative.images}枚)\n` +
+                (monthlyTokenLimit > 0 ? `今月の利用: ${formatTokens(monthUsage.inputTokens + monthUsage.outputTokens)} / 上限 ${formatTokens(monthlyTokenLimit)} トークン\n` : '') + '\n' +
+                `「${strategyLabel(estimate.strategy)}」で採点を開始しますか？`;
+            if (!window.confirm(message)) return;
+        }
+        startJob(areaIds, { enhanceImages: isImageEnhanced });
+    };
 
-        for (const areaId of areaIds) {
-            const area = areas.find(a => a.id === areaId)!;
-            const point = points.find(p => p.id === areaId)!;
-            const pageIdx = area.pageIndex || 0;
+    const selectedAnswerArea = useMemo(() => areas.find(a => a.id === selectedAreaId && a.type === AreaType.ANSWER), [areas, selectedAreaId]);
+    const isGroupingActive = groupByAnswer && !!selectedAnswerArea;
+    const signatureKey = (areaId: number, studentId: string) => `${areaId}:${autoAlign}:${studentId}`;
 
-            if (area.type === AreaType.MARK_SHEET) {
-                // AUTO DISCOVERY of reference areas aligned with this question
-                const refR = findNearestAlignedRefArea(area, areas, AreaType.MARKSHEET_REF_RIGHT);
-                const refB = findNearestAlignedRefArea(area, areas, AreaType.MARKSHEET_REF_BOTTOM);
-                
-                setProgress(p => ({ ...p, message: `${point.label} のマークを認識中...` }));
+    // Compute image signatures for the answers that have no transcription to group by
+    useEffect(() => {
+        if (!isGroupingActive || !selectedAnswerArea) return;
+        const area = selectedAnswerArea;
+        const pageIdx = area.pageIndex || 0;
+        const pending = filteredStudents.filter(s =>
+            s.images[pageIdx] && scores[s.id]?.[area.id]?.transcription === undefined && !(signatureKey(area.id, s.id) in snippetSignatures));
+        if (pending.length === 0) return;
 
-                for (const student of validStudents) {
-                    const studentImage = student.images[pageIdx];
-                    if (!studentImage) {
-                        current++; continue;
-                    }
-                    
-                    // CRITICAL: Pass template.alignmentMarkIdealCorners if autoAlign is active
-                    // so that recognition happens in the same warped space as the visual snippet.
-                    const res = await analyzeMarkSheetSnippet(
-                        studentImage, 
-                        area, 
-                        point, 
-                        aiSettings.markSheetSensitivity,
-                        refR, 
-                        refB,
-                        autoAlign ? template.alignmentMarkIdealCorners : undefined
-                    );
-                    const isCorrect = typeof res.index === 'number' && res.index === point.correctAnswerIndex;
-                    
-                    handleScoresChange(prev => ({
-                        ...prev,
-                        [student.id]: { 
-                            ...prev[student.id], 
-                            [areaId]: { 
-                                status: isCorrect ? ScoringStatus.CORRECT : (res.index === -1 ? ScoringStatus.UNSCORED : ScoringStatus.INCORRECT), 
-                                score: isCorrect ? point.points : 0, 
-                                detectedPositions: res.positions, 
-                                detectedMarkIndex: res.index 
-                            }
-                        }
-                    }));
-                    setProgress(p => ({ ...p, current: ++current }));
+        let cancelled = false;
+        setIsClustering(true);
+        (async () => {
+            const computed: Record<string, number[] | null | 'failed'> = {};
+            for (const student of pending) {
+                if (cancelled) break;
+                try {
+                    const base64 = await cropImage(student.images[pageIdx]!, area, autoAlign ? template : undefined, autoAlign ? areas : undefined, false, student.manualAlignmentCorners?.[pageIdx]);
+                    computed[signatureKey(area.id, student.id)] = await computeSnippetSignature(base64);
+                } catch (error) {
+                    console.error('Failed to compute snippet signature:', error);
+                    computed[signatureKey(area.id, student.id)] = 'failed';
                 }
-            } else {
-                const masterImage = template.pages[pageIdx].imagePath;
-                const masterSnippet = await cropImage(masterImage, area, template, areas, isImageEnhanced);
-                setProgress(p => ({ ...p, message: `${point.label} をAI採点中...` }));
+            }
+            // Keep what was computed even when a newer run took over, so it isn't redone
+            setSnippetSignatures(prev => ({ ...prev, ...computed }));
+            if (!cancelled) setIsClustering(false);
+        })();
+        return () => { cancelled = true; setIsClustering(false); };
+    }, [isGroupingActive, selectedAnswerArea, filteredStudents, autoAlign]);
 
-                for (let i = 0; i < validStudents.length; i += aiSettings.batchSize) {
-                    const batch = validStudents.slice(i, i + aiSettings.batchSize);
-                    const studentSnippets = await Promise.all(batch.map(async s => ({ 
-                        studentId: s.id, 
-                        base64: await cropImage(s.images[pageIdx]!, area, autoAlign ? template : undefined, autoAlign ? areas : undefined, isImageEnhanced) 
-                    })));
-                    
-                    // Add a small delay between batches to avoid rate limits
-                    if (i > 0) {
-                        await new Promise(resolve => setTimeout(resolve, 500));
-                    }
+    const answerClusters = useMemo(() => {
+        if (!isGroupingActive || !selectedAnswerArea) return [];
+        const area = selectedAnswerArea;
+        return clusterAnswers(filteredStudents
+            .filter(s => s.images[area.pageIndex || 0])
+            .map(s => ({
+                studentId: s.id,
+                transcription: scores[s.id]?.[area.id]?.transcription,
+                signature: snippetSignatures[signatureKey(area.id, s.id)],
+            })));
+    }, [isGroupingActive, selectedAnswerArea, filteredStudents, scores, snippetSignatures, autoAlign]);
 
-                    const res = await callGeminiAPIBatch(
-                        masterSnippet, 
-                        studentSnippets, 
-                        point, 
-                        apiKey,
-                        point.aiGradingMode || 'auto', 
-                        point.answerFormat || '', 
-                        aiSettings.gradingMode, 
-                        aiSettings.aiModel
-                    );
-                    if (res.results) {
-                        handleScoresChange(prev => {
-                            const next = { ...prev };
-                            res.results.forEach((r: any) => { 
-                                if(!next[r.studentId]) next[r.studentId] = {}; 
-                                next[r.studentId][areaId] = { 
-                                    status: r.status, 
-                                    score: r.score,
-                                    aiComment: r.aiComment
-                                }; 
-                            });
-                            return next;
-                        });
-                    }
-                    current += batch.length; setProgress(p => ({ ...p, current }));
+    const handleApplyToCluster = (cluster: AnswerCluster, status: ScoringStatus, score: number) => {
+        if (!selectedAnswerArea) return;
+        const areaId = selectedAnswerArea.id;
+        const point = points.find(p => p.id === areaId);
+        const statusLabel = status === ScoringStatus.CORRECT ? '正解' : status === ScoringStatus.INCORRECT ? '不正解' : `${score}点`;
+        const clusterLabel = cluster.text ? `「${cluster.text}」` : cluster.source === 'blank' ? '白紙' : '類似した解答';
+        handleScoresChange(prev => {
+            const next = { ...prev };
+            cluster.studentIds.forEach(studentId => {
+                next[studentId] = { ...next[studentId], [areaId]: { ...next[studentId]?.[areaId], status, score } };
+            });
+            return next;
+        }, `${point?.label ?? ''} の${clusterLabel} (${cluster.studentIds.length}人) を${statusLabel}に変更`);
+    };
+
+    // A corrected transcription is re-checked against the answer key; other results are left to the teacher
+    const handleTranscriptionChange = (studentId: string, areaId: number, transcription: string) => {
+        const point = points.find(p => p.id === areaId);
+        if (!point) return;
+        const result = matchAnswerKey(point, transcription);
+        handleScoresChange(prev => ({
+            ...prev,
+            [studentId]: {
+                ...prev[studentId],
+                [areaId]: {
+                    status: ScoringStatus.UNSCORED,
+                    score: null,
+                    ...prev[studentId]?.[areaId],
+                    transcription,
+                    ...(result ? { ...result, rubricAwards: undefined, needsReview: undefined, aiSuggestion: undefined } : {})
                 }
             }
-        }
-        setIsGrading(false);
-        setProgress({ current: 0, total: 0, message: '' });
+        }), `${point.label} の読み取り結果を修正 (${studentName(studentId)})`, result ? { type: 'answer-key' } : { type: 'manual' });
     };
 
     const selectedArea = useMemo(() => answerAreas.find(a => a.id === selectedAreaId), [answerAreas, selectedAreaId]);
@@ -316,7 +297,7 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
             ...prev,
             points: prev.points.map(p => p.id === selectedAreaId ? updater(p) : p),
             lastModified: Date.now()
-        }));
+        }), `${selectedPoint?.label ?? ''} の採点設定を変更`);
     };
 
     if (!selectedAreaId && answerAreas.length > 0) setSelectedAreaId(answerAreas[0].id);
@@ -340,16 +321,22 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
                     onStartMarkSheetGrading={() => selectedAreaId && handleStartGrading([selectedAreaId])} 
                     onStartMarkSheetGradingAll={() => handleStartGrading(answerAreas.filter(a => a.type === AreaType.MARK_SHEET).map(a => a.id))}
                     onStartAIGradingAll={() => handleStartGrading(answerAreas.filter(a => a.type === AreaType.ANSWER).map(a => a.id))} 
-                    isGrading={isGrading} isGradingAll={false} progress={progress} 
-                    filter={filter} onFilterChange={setFilter} apiKey={apiKey} columnCount={columnCount} onColumnCountChange={setColumnCount} onBulkScore={() => {}} 
+                    isGrading={isGrading} isGradingAll={false} 
+                    filter={filter} onFilterChange={setFilter} reviewCount={reviewCount} apiKey={apiKey} columnCount={columnCount} onColumnCountChange={setColumnCount} onBulkScore={() => {}} 
                     aiGradingMode={selectedPoint?.aiGradingMode || 'auto'} 
                     onAiGradingModeChange={(mode) => handlePointUpdate(p => ({ ...p, aiGradingMode: mode }))} 
                     answerFormat={selectedPoint?.answerFormat || ''} 
                     onAnswerFormatChange={(format) => handlePointUpdate(p => ({ ...p, answerFormat: format }))} 
+                    maxPoints={selectedPoint?.points ?? 0}
+                    rubric={selectedPoint?.rubric || []}
+                    onRubricChange={(rubric) => handlePointUpdate(p => ({ ...p, rubric }))}
+                    selectedPoint={selectedPoint}
+                    onPromptTemplateChange={(promptTemplate) => handlePointUpdate(p => ({ ...p, promptTemplate }))}
                     isImageEnhanced={isImageEnhanced} onToggleImageEnhancement={() => setIsImageEnhanced(!isImageEnhanced)} 
                     autoAlign={autoAlign} onToggleAutoAlign={() => setAutoAlign(!autoAlign)} 
+                    groupByAnswer={groupByAnswer} onToggleGroupByAnswer={() => setGroupByAnswer(!groupByAnswer)} 
                     aiSettings={aiSettings}
-                    onAiSettingsChange={(updater) => updateActiveProject(prev => ({ ...prev, aiSettings: updater(prev.aiSettings), lastModified: Date.now() }))}
+                    onAiSettingsChange={(updater) => updateActiveProject(prev => ({ ...prev, aiSettings: updater(prev.aiSettings), lastModified: Date.now() }), 'AI設定を変更')}
                 />
                 <div className="flex-1 overflow-hidden relative flex flex-col">
                     {!isSidebarOpen && (
@@ -360,28 +347,54 @@ export const GradingView: React.FC<{ apiKey: string }> = ({ apiKey }) => {
                             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
                         </button>
                     )}
-                    <StudentAnswerGrid 
-                        students={filteredStudents} 
-                        selectedAreaId={selectedAreaId!} 
-                        template={template} 
-                        areas={areas} 
-                        points={points} 
-                        scores={scores} 
-                        onScoreChange={(sid, aid, data) => handleScoresChange(prev => ({ ...prev, [sid]: { ...prev[sid], [aid]: { ...prev[sid]?.[aid], ...data } }}))} 
-                        onStartAnnotation={() => {}} 
-                        onPanCommit={() => {}} 
-                        gradingStatus={{}} 
-                        columnCount={columnCount} 
-                        focusedStudentId={focusedStudentId} 
-                        onStudentFocus={(id) => { setFocusedStudentId(id); setPartialScoreInput(''); }} 
-                        partialScoreInput={partialScoreInput} 
-                        correctedImages={{}} 
-                        isImageEnhanced={isImageEnhanced} 
-                        autoAlign={autoAlign} 
-                        aiSettings={aiSettings} 
-                    />
+                    {isGroupingActive ? (
+                        <AnswerClusterView
+                            clusters={answerClusters}
+                            students={filteredStudents}
+                            template={template}
+                            area={selectedAnswerArea!}
+                            areas={areas}
+                            point={points.find(p => p.id === selectedAnswerArea!.id)!}
+                            scores={scores}
+                            isComputing={isClustering}
+                            isImageEnhanced={isImageEnhanced}
+                            autoAlign={autoAlign}
+                            onApply={handleApplyToCluster}
+                        />
+                    ) : (
+                        <StudentAnswerGrid 
+                            students={filteredStudents} 
+                            selectedAreaId={selectedAreaId!} 
+                            template={template} 
+                            areas={areas} 
+                            points={points} 
+                            scores={scores} 
+                            onScoreChange={(sid, aid, data) => handleScoresChange(prev => ({ ...prev, [sid]: { ...prev[sid], [aid]: { ...prev[sid]?.[aid], ...data } }}), `${points.find(p => p.id === aid)?.label ?? ''} の採点を変更 (${studentName(sid)})`)} 
+                            onStartAnnotation={() => {}} 
+                            onShowAuditLog={(studentId, areaId) => setAuditTarget({ studentId, areaId })} 
+                            onTranscriptionChange={handleTranscriptionChange} 
+                            onPanCommit={() => {}} 
+                            gradingStatus={gradingStatus} 
+                            columnCount={columnCount} 
+                            focusedStudentId={focusedStudentId} 
+                            onStudentFocus={(id) => { setFocusedStudentId(id); setPartialScoreInput(''); }} 
+                            partialScoreInput={partialScoreInput} 
+                            correctedImages={{}} 
+                            isImageEnhanced={isImageEnhanced} 
+                            autoAlign={autoAlign} 
+                            aiSettings={aiSettings} 
+                        />
+                    )}
                 </div>
             </main>
+            {auditTarget && (
+                <ScoreAuditModal
+                    entries={(activeProject!.scoreAuditLog || []).filter(e => e.studentId === auditTarget.studentId && e.areaId === auditTarget.areaId)}
+                    studentName={studentName(auditTarget.studentId)}
+                    questionLabel={points.find(p => p.id === auditTarget.areaId)?.label ?? ''}
+                    onClose={() => setAuditTarget(null)}
+                />
+            )}
         </div>
     );
 };
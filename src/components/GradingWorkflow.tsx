@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { useProject } from '../context/ProjectContext';
 import { AppStep } from '../types';
-import type { QuestionStats, Student } from '../types';
+import type { QuestionStats, Student, UploadedPage } from '../types';
 
 import { FileUpload } from './common';
 import { TemplateEditor } from './TemplateEditor';
@@ -37,7 +37,7 @@ export const GradingWorkflow: React.FC<GradingWorkflowProps> = ({ apiKey, setPri
     } = useProject();
 
     const [uploadMode, setUploadMode] = useState<'interleaved' | 'split'>('interleaved');
-    const [splitBatches, setSplitBatches] = useState<Record<number, { files: {path: string, name: string}[], isReversed: boolean }>>({});
+    const [splitBatches, setSplitBatches] = useState<Record<number, { files: UploadedPage[], isReversed: boolean }>>({});
 
     if (!activeProject) {
         return <ClassSelection 
@@ -98,7 +98,7 @@ export const GradingWorkflow: React.FC<GradingWorkflowProps> = ({ apiKey, setPri
         }
 
         // Prepare batches (apply reverse if needed)
-        const finalizedBatches: {path: string, name: string}[][] = [];
+        const finalizedBatches: UploadedPage[][] = [];
         for (let i = 0; i < pagesPerStudent; i++) {
             const batch = splitBatches[i];
             if (!batch) {
@@ -136,7 +136,8 @@ export const GradingWorkflow: React.FC<GradingWorkflowProps> = ({ apiKey, setPri
             });
         }
 
-        updateActiveProject(p => ({ ...p, uploadedSheets: newSheets, lastModified: Date.now() }));
+        const orientationIssues = finalizedBatches.reduce((paths, batch) => paths.concat(batch.filter(f => f.needsOrientationCheck).map(f => f.path)), [] as string[]);
+        updateActiveProject(p => ({ ...p, uploadedSheets: newSheets, pageOrientationIssues: orientationIssues, lastModified: Date.now() }), `解答用紙 ${newSheets.length} 件を読み込み`);
         nextStep();
     };
 
@@ -169,7 +170,7 @@ export const GradingWorkflow: React.FC<GradingWorkflowProps> = ({ apiKey, setPri
                                                             ...p,
                                                             template: { ...p.template!, pages: newPages },
                                                             lastModified: Date.now()
-                                                        }));
+                                                        }), `テンプレートの ${index + 1} ページ目を削除`);
                                                     }}
                                                     className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-600"
                                                     title="削除"
@@ -184,7 +185,7 @@ export const GradingWorkflow: React.FC<GradingWorkflowProps> = ({ apiKey, setPri
                                     <button 
                                         onClick={() => {
                                             if(window.confirm('すべてのページを削除してもよろしいですか？')) {
-                                                updateActiveProject(p => ({ ...p, template: null, lastModified: Date.now() }));
+                                                updateActiveProject(p => ({ ...p, template: null, lastModified: Date.now() }), 'テンプレートを全て削除');
                                             }
                                         }}
                                         className="flex items-center gap-2 px-4 py-2 text-sm text-slate-500 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md transition-colors"
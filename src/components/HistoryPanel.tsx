@@ -0,0 +1,58 @@
+import React from 'react';
+import type { ProjectHistory } from '../types';
+import { XIcon, RotateCcwIcon } from './icons';
+
+export const HistoryPanel = ({ history, onJump, onClose }: {
+    history: ProjectHistory;
+    onJump: (cursor: number) => void;
+    onClose: () => void;
+}) => {
+    // Newest first; row `n` restores the state after the n-th entry, row 0 the state before any
+    const rows = history.entries
+        .map((entry, index) => ({ key: entry.id, cursor: index + 1, label: entry.label, timestamp: entry.timestamp }))
+        .reverse();
+
+    const renderRow = (cursor: number, label: string, timestamp: number | undefined, key: React.Key) => {
+        const isCurrent = cursor === history.cursor;
+        const isUndone = cursor > history.cursor;
+        return (
+            <li key={key}>
+                <button
+                    onClick={() => onJump(cursor)}
+                    disabled={isCurrent}
+                    className={`w-full flex items-center justify-between gap-4 px-3 py-2 text-sm text-left ${isCurrent ? 'bg-sky-100 dark:bg-sky-900/40 font-semibold' : 'hover:bg-slate-100 dark:hover:bg-slate-700'} ${isUndone ? 'text-slate-400 dark:text-slate-500' : ''}`}
+                >
+                    <span className="truncate">{label}</span>
+                    <span className="flex-shrink-0 text-xs text-slate-500 dark:text-slate-400">
+                        {isCurrent ? '現在' : timestamp ? new Date(timestamp).toLocaleTimeString() : ''}
+                    </span>
+                </button>
+            </li>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-lg p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <RotateCcwIcon className="w-5 h-5" />
+                        <h3 className="text-lg font-semibold">編集履歴</h3>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700"><XIcon className="w-5 h-5" /></button>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    項目をクリックすると、その操作の直後の状態に戻ります。Ctrl+Z で元に戻す、Ctrl+Y でやり直しができます。
+                </p>
+                {history.entries.length === 0 ? (
+                    <p className="text-sm text-slate-500 dark:text-slate-400">このテストを開いてからの操作はまだありません。</p>
+                ) : (
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg max-h-96 overflow-y-auto">
+                        {rows.map(row => renderRow(row.cursor, row.label, row.timestamp, row.key))}
+                        {renderRow(0, '開いた時点の状態', undefined, 'initial')}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
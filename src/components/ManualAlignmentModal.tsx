@@ -1,7 +1,8 @@
 
 import React, { useState, useRef, useEffect, useMemo, useCallback, useLayoutEffect } from 'react';
-import { XIcon, CheckCircle2Icon, RotateCcwIcon, CrosshairIcon, Wand2Icon } from './icons';
-import { loadImage, findAlignmentMarks } from '../utils';
+import { XIcon, CheckCircle2Icon, RotateCcwIcon, CrosshairIcon, Wand2Icon, AlertCircleIcon } from './icons';
+import { loadImage, detectAlignmentMarks } from '../utils';
+import type { AlignmentQuality } from '../utils';
 
 interface Point { x: number; y: number; }
 interface Corners { tl: Point; tr: Point; br: Point; bl: Point; }
@@ -11,10 +12,12 @@ interface ManualAlignmentModalProps {
     initialCorners?: Corners;
     onSave: (corners: Corners) => void;
     onClose: () => void;
+    // Measures the alignment the corners give, for the warning on poorly aligned pages
+    evaluateCorners?: (corners: Corners) => Promise<AlignmentQuality | null>;
 }
 
 export const ManualAlignmentModal: React.FC<ManualAlignmentModalProps> = ({
-    imageUrl, initialCorners, onSave, onClose
+    imageUrl, initialCorners, onSave, onClose, evaluateCorners
 }) => {
     const [img, setImg] = useState<HTMLImageElement | null>(null);
     const [corners, setCorners] = useState<Corners>(initialCorners || {
@@ -25,10 +28,24 @@ export const ManualAlignmentModal: React.FC<ManualAlignmentModalProps> = ({
     });
     const containerRef = useRef<HTMLDivElement>(null);
 
+    const [quality, setQuality] = useState<AlignmentQuality | null>(null);
+
     useEffect(() => {
         loadImage(imageUrl).then(setImg);
     }, [imageUrl]);
 
+    // Re-measured once the corners stop moving
+    useEffect(() => {
+        if (!evaluateCorners) return;
+        let isCurrent = true;
+        const timer = setTimeout(() => {
+            evaluateCorners(corners)
+                .then(result => { if (isCurrent) setQuality(result); })
+                .catch(e => console.error('Evaluating alignment failed:', e));
+        }, 400);
+        return () => { isCurrent = false; clearTimeout(timer); };
+    }, [corners, evaluateCorners]);
+
     const handleAutoAlign = async () => {
         if (!img) return;
         const canvas = document.createElement('canvas');
@@ -39,7 +56,7 @@ export const ManualAlignmentModal: React.FC<ManualAlignmentModalProps> = ({
         ctx.drawImage(img, 0, 0);
         const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
         
-        const found = findAlignmentMarks(imageData);
+        const found = await detectAlignmentMarks(imageData);
         if (found) {
             setCorners(found);
         } else {
@@ -91,6 +108,21 @@ export const ManualAlignmentModal: React.FC<ManualAlignmentModalProps> = ({
                             4隅の基準点（L字マークの中心など）をドラッグして正確な位置に合わせてください。
                         </div>
                         
+                        {quality?.isPoor && (
+                            <div className="p-2 text-xs bg-amber-50 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700 rounded text-amber-800 dark:text-amber-200 space-y-1">
+                                <div className="flex items-center gap-1 font-bold">
+                                    <AlertCircleIcon className="w-4 h-4" />
+                                    <span>位置合わせの精度が低い可能性があります</span>
+                                </div>
+                                {quality.residual > quality.limit && (
+                                    <p>残差 {quality.residual.toFixed(1)}px (目安 {quality.limit.toFixed(1)}px 以下)。基準点がずれているか、用紙が曲がっています。</p>
+                                )}
+                                {quality.missingMarks > 0 && (
+                                    <p>補正マークが{quality.missingMarks}個見つかりません。</p>
+                                )}
+                            </div>
+                        )}
+
                         <div className="space-y-2">
                             {Object.entries(cornerLabels).map(([key, label]) => (
                                 <div key={key} className="flex items-center justify-between p-2 bg-white dark:bg-slate-700 rounded border dark:border-slate-600">
@@ -1,14 +1,48 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import type { Area, Point, Template } from '../types';
 import { AreaType } from '../types';
-import { SparklesIcon, SpinnerIcon, EyeIcon, EyeOffIcon, CheckCircle2Icon, CopyIcon, ArrowDownWideNarrowIcon, RotateCcwIcon } from './icons';
+import { SparklesIcon, SpinnerIcon, EyeIcon, EyeOffIcon, CheckCircle2Icon, CopyIcon, ArrowDownWideNarrowIcon, RotateCcwIcon, FileUpIcon } from './icons';
 import { useProject } from '../context/ProjectContext';
 import { AnswerSnippet } from './AnswerSnippet';
 import { analyzeMarkSheetSnippet, findNearestAlignedRefArea } from '../utils';
+import { applyAnswerKey, formatAnswerList, hasAnswerKey, parseAnswerKeyFile, parseAnswerList } from '../answerKey';
 
 const answerAndMarkSheetAreas = (areas: Area[]) => areas.filter(a => a.type === AreaType.ANSWER || a.type === AreaType.MARK_SHEET);
 
+const buildPoints = (relevantAreas: Area[], points: Point[]): Point[] => relevantAreas.map(area => {
+    const existingPoint = points.find(p => p.id === area.id);
+    if (existingPoint) return existingPoint;
+    const basePoint = { id: area.id, points: 10, label: area.name, subtotalIds: [] as number[] };
+    if (area.type === AreaType.MARK_SHEET) {
+        return { ...basePoint, markSheetOptions: 4, markSheetLayout: 'horizontal' as const, correctAnswerIndex: 0 };
+    }
+    return basePoint;
+});
+
+// Comma-separated answer list; committed on blur so that typing a separator doesn't reformat the field
+const AnswerListInput = ({ value, onChange, placeholder }: { value: string[] | undefined; onChange: (answers: string[]) => void; placeholder: string }) => {
+    const [text, setText] = useState(() => formatAnswerList(value));
+
+    useEffect(() => {
+        setText(prev => formatAnswerList(parseAnswerList(prev)) === formatAnswerList(value) ? prev : formatAnswerList(value));
+    }, [value]);
+
+    return (
+        <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={() => {
+                const answers = parseAnswerList(text);
+                if (formatAnswerList(answers) !== formatAnswerList(value)) onChange(answers);
+            }}
+            placeholder={placeholder}
+            className="w-full bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded p-1.5 text-xs"
+        />
+    );
+};
+
 export const PointAllocator = () => {
     const { activeProject, handlePointsChange } = useProject();
     const { areas, points, template, aiSettings } = activeProject!;
@@ -28,21 +62,27 @@ export const PointAllocator = () => {
     const [bulkSubtotal, setBulkSubtotal] = useState<string>('');
     const [bulkFormat, setBulkFormat] = useState<string>('');
 
-    const [internalPoints, setInternalPoints] = useState<Point[]>(() => {
-        return relevantAreas.map(area => {
-            const existingPoint = points.find(p => p.id === area.id);
-            if (existingPoint) return existingPoint;
-            const basePoint = { id: area.id, points: 10, label: area.name, subtotalIds: [] as number[] };
-            if (area.type === AreaType.MARK_SHEET) {
-                return { ...basePoint, markSheetOptions: 4, markSheetLayout: 'horizontal' as const, correctAnswerIndex: 0 };
-            }
-            return basePoint;
-        });
-    });
+    const [internalPoints, setInternalPoints] = useState<Point[]>(() => buildPoints(relevantAreas, points));
+    // History label for the next sync of internalPoints into the project
+    const changeLabelRef = useRef('配点を変更');
+
+    const updatePoints = (updater: (prev: Point[]) => Point[], label: string) => {
+        changeLabelRef.current = label;
+        setInternalPoints(updater);
+    };
     
     useEffect(() => {
-        handlePointsChange(internalPoints);
+        handlePointsChange(internalPoints, changeLabelRef.current);
     }, [internalPoints, handlePointsChange]);
+
+    // Pick up changes made outside this view (undo/redo)
+    useEffect(() => {
+        changeLabelRef.current = '配点を変更';
+        setInternalPoints(prev => {
+            const next = buildPoints(relevantAreas, points);
+            return JSON.stringify(next) === JSON.stringify(prev) ? prev : next;
+        });
+    }, [points]);
     
     const handleAutoDetectAnswers = async () => {
         if (!template) return;
@@ -80,7 +120,7 @@ export const PointAllocator = () => {
                     detectedCount++;
                 }
             }
-            setInternalPoints(updatedPoints);
+            updatePoints(() => updatedPoints, 'マークシートの正解を自動認識');
             alert(`${detectedCount}件のマークシートの正解を自動認識しました。`);
         } catch (error) { 
             console.error("Auto detect failed:", error); 
@@ -91,7 +131,7 @@ export const PointAllocator = () => {
     };
 
     const handlePointPropChange = (id: number, field: keyof Point, value: any) => {
-        setInternalPoints(prev => prev.map(p => p.id === id ? { ...p, [field]: value } : p));
+        updatePoints(prev => prev.map(p => p.id === id ? { ...p, [field]: value } : p), `${internalPoints.find(p => p.id === id)?.label ?? ''} の配点設定を変更`);
     };
 
     const handleSubtotalChange = (id: number, subtotalIdStr: string) => {
@@ -125,31 +165,54 @@ export const PointAllocator = () => {
     const applyBulkPoints = () => {
         const pts = parseInt(bulkPoints);
         if (isNaN(pts)) return;
-        setInternalPoints(prev => prev.map(p => selectedIds.has(p.id) ? { ...p, points: pts } : p));
+        updatePoints(prev => prev.map(p => selectedIds.has(p.id) ? { ...p, points: pts } : p), `${selectedIds.size} 問の配点を ${pts} 点に一括変更`);
     };
 
     const applyBulkChoices = () => {
         const ch = parseInt(bulkChoices);
         if (isNaN(ch)) return;
-        setInternalPoints(prev => prev.map(p => {
+        updatePoints(prev => prev.map(p => {
             if (!selectedIds.has(p.id)) return p;
             const area = relevantAreas.find(a => a.id === p.id);
             if (area?.type === AreaType.MARK_SHEET) {
                 return { ...p, markSheetOptions: ch };
             }
             return p;
-        }));
+        }), `${selectedIds.size} 問の選択肢数を一括変更`);
     };
 
     const applyBulkSubtotal = () => {
         const subId = parseInt(bulkSubtotal, 10);
         const newIds = isNaN(subId) ? [] : [subId];
-        setInternalPoints(prev => prev.map(p => selectedIds.has(p.id) ? { ...p, subtotalIds: newIds } : p));
+        updatePoints(prev => prev.map(p => selectedIds.has(p.id) ? { ...p, subtotalIds: newIds } : p), `${selectedIds.size} 問の小計を一括変更`);
     };
 
     const applyBulkFormat = () => {
         if (!bulkFormat) return;
-        setInternalPoints(prev => prev.map(p => selectedIds.has(p.id) ? { ...p, expectedFormat: bulkFormat as any } : p));
+        updatePoints(prev => prev.map(p => selectedIds.has(p.id) ? { ...p, expectedFormat: bulkFormat as any } : p), `${selectedIds.size} 問の解答形式を一括変更`);
+    };
+
+    const answerKeyInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImportAnswerKey = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const entries = await parseAnswerKeyFile(file);
+            if (entries.length === 0) {
+                alert('解答キーが見つかりませんでした。');
+                return;
+            }
+            const result = applyAnswerKey(internalPoints, entries);
+            if (result.matchedCount > 0) {
+                updatePoints(() => result.points, `解答キーを取り込み (${result.matchedCount} 問)`);
+            }
+            alert(`${result.matchedCount}問の解答キーを取り込みました。` + (result.unmatched.length > 0 ? `\n\n一致する問題が見つからなかった行: ${result.unmatched.join('、')}` : ''));
+        } catch (error: any) {
+            console.error('Answer key import failed:', error);
+            alert(`解答キーの読み込みに失敗しました: ${error.message}`);
+        }
     };
 
     const grandTotal = useMemo(() => internalPoints.reduce((sum, p) => sum + (p.points || 0), 0), [internalPoints]);
@@ -174,6 +237,11 @@ export const PointAllocator = () => {
                         {showImages ? <EyeOffIcon className="w-4 h-4" /> : <EyeIcon className="w-4 h-4" />}
                         {showImages ? '画像を隠して一覧表示' : '画像を表示'}
                     </button>
+                    <input ref={answerKeyInputRef} type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleImportAnswerKey} />
+                    <button onClick={() => answerKeyInputRef.current?.click()} className="flex items-center gap-2 px-3 py-2 text-sm bg-slate-200 dark:bg-slate-700 rounded-md hover:bg-slate-300" title="1列目に問題名、見出しが「正答」「別解」「誤答」の列に解答を記入したCSV/Excelファイル">
+                        <FileUpIcon className="w-4 h-4" />
+                        解答キーを取り込む
+                    </button>
                     <button onClick={handleAutoDetectAnswers} disabled={isDetecting} className="flex items-center gap-2 px-3 py-2 text-sm bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:opacity-50">
                         {isDetecting ? <SpinnerIcon className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
                         マークの正解を自動認識
@@ -193,7 +261,7 @@ export const PointAllocator = () => {
                     return (
                         <div 
                             key={point.id} 
-                            className={`rounded-lg shadow-sm border transition-all cursor-pointer ${isSelected ? 'bg-sky-50 dark:bg-sky-900/30 border-sky-400 ring-2 ring-sky-400/20' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'} ${showImages ? 'p-4' : 'p-2 flex items-center gap-4'}`}
+                            className={`rounded-lg shadow-sm border transition-all cursor-pointer ${isSelected ? 'bg-sky-50 dark:bg-sky-900/30 border-sky-400 ring-2 ring-sky-400/20' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700'} ${showImages ? 'p-4' : 'p-2 flex flex-wrap items-center gap-4'}`}
                             onClick={() => toggleSelect(point.id)}
                         >
                             {/* Header Section: Checkbox & Name */}
@@ -297,6 +365,92 @@ export const PointAllocator = () => {
                                     )
                                 )}
                             </div>
+
+                            {/* Answer Key Section (descriptive answers) */}
+                            {!isMarkSheet && (
+                                <div className={`grid gap-2 grid-cols-1 md:grid-cols-3 ${showImages ? 'mt-3' : 'basis-full'}`} onClick={e => e.stopPropagation()}>
+                                    <div className="space-y-1">
+                                        <label className="text-xs font-bold text-slate-500 whitespace-nowrap">正答</label>
+                                        <input
+                                            type="text"
+                                            value={point.correctAnswer || ''}
+                                            onChange={(e) => handlePointPropChange(point.id, 'correctAnswer', e.target.value)}
+                                            placeholder="例: 徳川家康"
+                                            className="w-full bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded p-1.5 text-xs"
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <label className="text-xs font-bold text-slate-500 whitespace-nowrap">別解 (カンマ区切り)</label>
+                                        <AnswerListInput value={point.acceptedAnswers} onChange={(answers) => handlePointPropChange(point.id, 'acceptedAnswers', answers)} placeholder="例: 家康, 徳川 家康" />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <label className="text-xs font-bold text-slate-500 whitespace-nowrap">誤答例 (カンマ区切り)</label>
+                                        <AnswerListInput value={point.wrongAnswers} onChange={(answers) => handlePointPropChange(point.id, 'wrongAnswers', answers)} placeholder="例: 徳川秀忠" />
+                                    </div>
+                                    {hasAnswerKey(point) && (
+                                        <label className="md:col-span-3 flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400 select-none">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!point.omitMasterSnippet}
+                                                onChange={(e) => handlePointPropChange(point.id, 'omitMasterSnippet', e.target.checked)}
+                                                className="w-4 h-4 rounded text-sky-600 focus:ring-sky-500"
+                                            />
+                                            文字の解答キーのみで採点する (テンプレート画像の模範解答を使わない)
+                                        </label>
+                                    )}
+                                    {hasAnswerKey(point) && (
+                                        <div className="md:col-span-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-600 dark:text-slate-400">
+                                            <label className="flex items-center gap-2 select-none">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!point.mathGrading}
+                                                    onChange={(e) => handlePointPropChange(point.id, 'mathGrading', e.target.checked ? { tolerance: 0 } : undefined)}
+                                                    className="w-4 h-4 rounded text-sky-600 focus:ring-sky-500"
+                                                />
+                                                数値・数式として比較する (1/2 = 0.5 = 2/4)
+                                            </label>
+                                            {point.mathGrading && (
+                                                <>
+                                                    <label className="flex items-center gap-1">
+                                                        許容誤差 ±
+                                                        <input
+                                                            type="number"
+                                                            min="0"
+                                                            step="any"
+                                                            value={point.mathGrading.tolerance}
+                                                            onChange={(e) => handlePointPropChange(point.id, 'mathGrading', { ...point.mathGrading, tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                            className="w-20 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded p-1 text-xs"
+                                                        />
+                                                    </label>
+                                                    <label className="flex items-center gap-1">
+                                                        単位
+                                                        <input
+                                                            type="text"
+                                                            value={point.mathGrading.unit || ''}
+                                                            onChange={(e) => handlePointPropChange(point.id, 'mathGrading', { ...point.mathGrading, unit: e.target.value || undefined })}
+                                                            placeholder="なし"
+                                                            className="w-16 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded p-1 text-xs"
+                                                        />
+                                                    </label>
+                                                    {point.mathGrading.unit && (
+                                                        <label className="flex items-center gap-1">
+                                                            単位の誤りで
+                                                            <input
+                                                                type="number"
+                                                                min="0"
+                                                                value={point.mathGrading.unitPenalty ?? 1}
+                                                                onChange={(e) => handlePointPropChange(point.id, 'mathGrading', { ...point.mathGrading, unitPenalty: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                                                className="w-14 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded p-1 text-xs"
+                                                            />
+                                                            点減点
+                                                        </label>
+                                                    )}
+                                                </>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     );
                 })}
@@ -5,6 +5,7 @@ import { AreaType, ScoringStatus } from '../types';
 import { FileDownIcon, PrintIcon, FileTextIcon, ListIcon, PieChartIcon, ArrowDown01Icon, ArrowDownWideNarrowIcon, UsersIcon, ArrowRightIcon } from './icons';
 import * as xlsx from 'xlsx';
 import { useProject } from '../context/ProjectContext';
+import { buildScoreAuditCsv } from '../scoreAudit';
 
 interface ResultsViewProps {
     onPreviewOpen: (config: { open: boolean, initialTab: 'report' | 'sheets', questionStats: QuestionStats[] }) => void;
@@ -65,7 +66,7 @@ const QuestionAnalysisView: React.FC<{ stats: QuestionStats[], totalStudents: nu
 
 export const ResultsView = ({ onPreviewOpen }: ResultsViewProps) => {
     const { calculatedResults: results, activeProject, cloneProjectForNextClass } = useProject();
-    const { areas, points, scores } = activeProject!;
+    const { areas, points, scores, studentInfo, scoreAuditLog } = activeProject!;
     const [activeTab, setActiveTab] = useState<'list' | 'analysis'>('list');
     const [sortOrder, setSortOrder] = useState<'number' | 'score'>('number');
     
@@ -148,6 +149,17 @@ export const ResultsView = ({ onPreviewOpen }: ResultsViewProps) => {
         link.click();
         document.body.removeChild(link);
     };
+
+    const handleExportAuditLog = () => {
+        const csvContent = buildScoreAuditCsv(scoreAuditLog || [], studentInfo, points);
+        const blob = new Blob([`\uFEFF${csvContent}`], { type: 'text/csv;charset=utf-8;' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.setAttribute('download', '採点変更履歴.csv');
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
     
     const handleExportIndividualReports = () => {
         const wb = xlsx.utils.book_new();
@@ -213,6 +225,7 @@ export const ResultsView = ({ onPreviewOpen }: ResultsViewProps) => {
                     <div className="h-6 w-px bg-slate-300 dark:bg-slate-600 mx-2"></div>
                      <button onClick={handleExportIndividualReports} className="flex items-center gap-2 px-3 py-2 text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors"><FileTextIcon className="w-4 h-4" />個人成績表をExcelで出力</button>
                     <button onClick={handleExportCSV} className="flex items-center gap-2 px-3 py-2 text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors"><FileDownIcon className="w-4 h-4" />CSVでエクスポート</button>
+                    <button onClick={handleExportAuditLog} disabled={!scoreAuditLog?.length} className="flex items-center gap-2 px-3 py-2 text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50"><FileDownIcon className="w-4 h-4" />採点変更履歴をCSV出力</button>
                     <button onClick={() => handlePreview('report')} className="flex items-center gap-2 px-3 py-2 text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors"><PrintIcon className="w-4 h-4" />個人成績表をPDF出力</button>
                     <button onClick={() => handlePreview('sheets')} className="flex items-center gap-2 px-3 py-2 text-sm bg-sky-600 hover:bg-sky-500 text-white rounded-md transition-colors"><PrintIcon className="w-4 h-4" />添削済み解答用紙を印刷</button>
                 </div>
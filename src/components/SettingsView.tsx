@@ -1,7 +1,17 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { SunIcon, MoonIcon, InfoIcon, SpinnerIcon } from './icons';
-import type { AISettings } from '../types';
+import type { AISettings, BackupInfo, OpenAICompatibleSettings, StorageUsageReport, StoredFileInfo } from '../types';
+import { useProject } from '../context/ProjectContext';
+import { BackupList } from './DataRecoveryModal';
+import { getGraderName, setGraderName } from '../scoreAudit';
+import { collectProjectImagePaths } from '../projectImages';
+import { useAIUsage } from '../context/AIUsageContext';
+import { formatCost, formatTokens, groupUsage, startOfMonth } from '../aiUsage';
+import type { AIUsageSummary } from '../aiUsage';
+import { AreaType } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE } from '../promptTemplates';
+import { PromptTemplateEditor } from './grading/PromptTemplateEditor';
 
 interface SettingsViewProps {
     theme: 'light' | 'dark';
@@ -12,7 +22,351 @@ interface SettingsViewProps {
     onApiKeyChange: (key: string) => void;
 }
 
+const BackupSettings = () => {
+    const { handleRestoreBackup } = useProject();
+    const [backups, setBackups] = useState<BackupInfo[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const refreshBackups = useCallback(async () => {
+        const result = await window.electronAPI.invoke('list-backups');
+        setBackups(Array.isArray(result) ? result : []);
+    }, []);
+
+    useEffect(() => { refreshBackups(); }, [refreshBackups]);
+
+    const handleCreateBackup = async () => {
+        setIsCreating(true);
+        const result = await window.electronAPI.invoke('create-backup');
+        setIsCreating(false);
+        if (!result?.success) alert(`バックアップの作成に失敗しました: ${result?.error}`);
+        await refreshBackups();
+    };
+
+    const handleRestore = (backupId: string) => {
+        if (window.confirm('選択したバックアップの状態に戻しますか？現在のデータは復元前バックアップとして保存されます。')) {
+            handleRestoreBackup(backupId);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-200">データのバックアップ</h3>
+                <button
+                    onClick={handleCreateBackup}
+                    disabled={isCreating}
+                    className="flex items-center gap-2 px-4 py-2 text-sm bg-sky-600 hover:bg-sky-500 text-white rounded-md disabled:bg-slate-400"
+                >
+                    {isCreating && <SpinnerIcon className="w-4 h-4" />}
+                    今すぐバックアップ
+                </button>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+                保存時に自動でバックアップが作成されます (直近の保存分と日ごとのスナップショット)。復元すると現在のデータは復元前バックアップとして残ります。
+            </p>
+            <BackupList backups={backups} onRestore={handleRestore} />
+        </div>
+    );
+};
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const StorageSettings = () => {
+    const [report, setReport] = useState<StorageUsageReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [purgeCandidates, setPurgeCandidates] = useState<StoredFileInfo[] | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const { projectHistory } = useProject();
+    const projectHistoryRef = useRef(projectHistory);
+    projectHistoryRef.current = projectHistory;
+
+    // Images that undo or redo can bring back are still in use, even if no saved project refers to them
+    const getHistoryImagePaths = () => {
+        const paths = new Set<string>();
+        projectHistoryRef.current.entries.forEach(entry => {
+            collectProjectImagePaths(entry.before).forEach(p => paths.add(p));
+            collectProjectImagePaths(entry.after).forEach(p => paths.add(p));
+        });
+        return Array.from(paths);
+    };
+
+    const refreshUsage = useCallback(async () => {
+        setIsBusy(true);
+        const result = await window.electronAPI.invoke('get-storage-usage', { retainedPaths: getHistoryImagePaths() });
+        setIsBusy(false);
+        if (result?.success) {
+            setReport(result.report);
+            setError(null);
+        } else {
+            setError(result?.error || '使用量を取得できませんでした。');
+        }
+    }, []);
+
+    useEffect(() => { refreshUsage(); }, [refreshUsage]);
+
+    // Always list what would be deleted before deleting anything.
+    const handleDryRun = async () => {
+        setIsBusy(true);
+        const result = await window.electronAPI.invoke('purge-unreferenced-files', { dryRun: true, retainedPaths: getHistoryImagePaths() });
+        setIsBusy(false);
+        if (result?.success) setPurgeCandidates(result.files);
+        else alert(`未使用ファイルの確認に失敗しました: ${result?.error}`);
+    };
+
+    const handlePurge = async () => {
+        if (!purgeCandidates || !window.confirm(`${purgeCandidates.length} 件の未使用ファイルを削除しますか？この操作は元に戻せません。`)) return;
+        setIsBusy(true);
+        // Only the files listed above are deleted; anything that became unused since is left for the next check
+        const result = await window.electronAPI.invoke('purge-unreferenced-files', { dryRun: false, fileNames: purgeCandidates.map(f => f.name), retainedPaths: getHistoryImagePaths() });
+        setIsBusy(false);
+        if (result?.success) alert(`${result.files.length} 件 (${formatBytes(result.bytes)}) を削除しました。`);
+        else alert(`削除に失敗しました: ${result?.error}`);
+        setPurgeCandidates(null);
+        await refreshUsage();
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-200">ストレージ管理</h3>
+                {isBusy && <SpinnerIcon className="w-5 h-5 text-sky-500" />}
+            </div>
+            {error && <p className="text-sm text-slate-500 dark:text-slate-400">{error}</p>}
+            {report && (
+                <div className="space-y-4">
+                    <p className="text-sm">
+                        保存されている画像: <span className="font-bold">{report.fileCount}</span> 件 / <span className="font-bold">{formatBytes(report.totalBytes)}</span>
+                    </p>
+                    <table className="w-full text-sm border border-slate-200 dark:border-slate-700 rounded-lg">
+                        <thead className="bg-slate-100 dark:bg-slate-800 text-left">
+                            <tr>
+                                <th className="px-3 py-2">テスト</th>
+                                <th className="px-3 py-2 text-right">画像数</th>
+                                <th className="px-3 py-2 text-right">使用量</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                            {report.projects.map(p => (
+                                <tr key={p.id}>
+                                    <td className="px-3 py-1.5">
+                                        {p.name}
+                                        {p.missingCount > 0 && <span className="ml-2 text-xs text-red-500">(見つからない画像 {p.missingCount} 件)</span>}
+                                    </td>
+                                    <td className="px-3 py-1.5 text-right">{p.fileCount}</td>
+                                    <td className="px-3 py-1.5 text-right">{formatBytes(p.bytes)}</td>
+                                </tr>
+                            ))}
+                            <tr className="text-slate-500 dark:text-slate-400">
+                                <td className="px-3 py-1.5">バックアップのみで使用</td>
+                                <td className="px-3 py-1.5 text-right">{report.backupOnly.fileCount}</td>
+                                <td className="px-3 py-1.5 text-right">{formatBytes(report.backupOnly.bytes)}</td>
+                            </tr>
+                            <tr className="text-slate-500 dark:text-slate-400">
+                                <td className="px-3 py-1.5">未使用</td>
+                                <td className="px-3 py-1.5 text-right">{report.unreferenced.length}</td>
+                                <td className="px-3 py-1.5 text-right">{formatBytes(report.unreferencedBytes)}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleDryRun} disabled={isBusy} className="px-4 py-2 text-sm bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md disabled:opacity-50">
+                            未使用ファイルを確認
+                        </button>
+                        {purgeCandidates && purgeCandidates.length > 0 && (
+                            <button onClick={handlePurge} disabled={isBusy} className="px-4 py-2 text-sm bg-red-600 hover:bg-red-500 text-white rounded-md disabled:opacity-50">
+                                {purgeCandidates.length} 件を削除
+                            </button>
+                        )}
+                    </div>
+                    {purgeCandidates && (
+                        purgeCandidates.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-slate-400">削除できる未使用ファイルはありません。</p>
+                        ) : (
+                            <ul className="text-xs font-mono bg-slate-100 dark:bg-slate-900 rounded-md p-2 space-y-1 max-h-48 overflow-y-auto">
+                                {purgeCandidates.map(f => (
+                                    <li key={f.name} className="flex justify-between gap-4">
+                                        <span className="truncate">{f.name}</span>
+                                        <span>{formatBytes(f.bytes)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )
+                    )}
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        どのテストやバックアップからも参照されていない画像のみが削除対象です。直近24時間以内に保存された画像は削除されません。
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const UsageTable: React.FC<{ title: string; rows: (AIUsageSummary & { key: string; label: string })[] }> = ({ title, rows }) => (
+    <table className="w-full text-sm border border-slate-200 dark:border-slate-700 rounded-lg">
+        <thead className="bg-slate-100 dark:bg-slate-800 text-left">
+            <tr>
+                <th className="px-3 py-2">{title}</th>
+                <th className="px-3 py-2 text-right">リクエスト</th>
+                <th className="px-3 py-2 text-right">画像</th>
+                <th className="px-3 py-2 text-right">入力トークン</th>
+                <th className="px-3 py-2 text-right">出力トークン</th>
+                <th className="px-3 py-2 text-right">費用の目安</th>
+            </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {rows.map(row => (
+                <tr key={row.key}>
+                    <td className="px-3 py-1.5">{row.label}</td>
+                    <td className="px-3 py-1.5 text-right">{row.requests}</td>
+                    <td className="px-3 py-1.5 text-right">{row.images}</td>
+                    <td className="px-3 py-1.5 text-right">{formatTokens(row.inputTokens)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatTokens(row.outputTokens)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatCost(row.estimatedCost)}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+const AIUsageSettings = () => {
+    const { projects, activeProject } = useProject();
+    const { records, monthUsage, monthlyTokenLimit, isMonthlyLimitReached, setMonthlyTokenLimit } = useAIUsage();
+    const monthRecords = records.filter(r => r.timestamp >= startOfMonth());
+    const monthTokens = monthUsage.inputTokens + monthUsage.outputTokens;
+    const activeRecords = records.filter(r => r.projectId === activeProject?.id);
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-200">AI利用状況</h3>
+            <div className="p-4 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg space-y-4">
+                <p className="text-sm">
+                    今月: <span className="font-bold">{monthUsage.requests}</span> 回 / 画像 <span className="font-bold">{monthUsage.images}</span> 枚 / <span className="font-bold">{formatTokens(monthTokens)}</span> トークン (費用の目安 {formatCost(monthUsage.estimatedCost)})
+                </p>
+                <div className="space-y-2">
+                    <label htmlFor="monthly-token-limit" className="block text-sm font-bold">月間の上限 (トークン)</label>
+                    <input
+                        id="monthly-token-limit"
+                        type="number"
+                        min="0"
+                        step="100000"
+                        value={monthlyTokenLimit || ''}
+                        onChange={(e) => setMonthlyTokenLimit(parseInt(e.target.value, 10) || 0)}
+                        placeholder="上限なし"
+                        className="w-48 p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700"
+                    />
+                    <p className={`text-xs ${isMonthlyLimitReached ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-slate-500 dark:text-slate-400'}`}>
+                        {isMonthlyLimitReached
+                            ? '今月の上限に達しているため、新しいAI採点は開始できません。'
+                            : '入力・出力トークンの合計が上限に達すると、新しいAI採点を開始できなくなります。空欄にすると上限なしになります。'}
+                    </p>
+                </div>
+                {monthRecords.length > 0 && (
+                    <>
+                        <UsageTable title="モデル (今月)" rows={groupUsage(monthRecords, r => [r.model]).map(g => ({ ...g, label: g.key }))} />
+                        <UsageTable title="テスト (今月)" rows={groupUsage(monthRecords, r => [r.projectId]).map(g => ({ ...g, label: projects[g.key]?.name || '(削除されたテスト)' }))} />
+                    </>
+                )}
+                {activeProject && activeRecords.length > 0 && (
+                    <UsageTable
+                        title={`問題 (${activeProject.name}、全期間)`}
+                        rows={groupUsage(activeRecords, r => r.areaIds).map(g => ({ ...g, label: activeProject.points.find(p => String(p.id) === g.key)?.label || g.key }))}
+                    />
+                )}
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    費用の目安はGeminiの公開価格から計算した参考値です。ローカルのAIサーバーなど価格が不明なモデルは含まれません。複数の問題をまとめて採点したリクエストは、問題ごとの集計ではそれぞれの問題に計上されます。
+                </p>
+            </div>
+        </div>
+    );
+};
+
+const GraderSettings = () => {
+    const [name, setName] = useState(getGraderName);
+
+    const handleChange = (value: string) => {
+        setName(value);
+        setGraderName(value.trim());
+    };
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-200">採点者</h3>
+            <div className="p-4 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg space-y-2">
+                <label className="block text-sm font-bold">採点者名</label>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => handleChange(e.target.value)}
+                    placeholder="例: 山田"
+                    className="w-full max-w-sm px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none"
+                />
+                <p className="text-xs text-slate-500 dark:text-slate-400">採点結果の変更履歴に記録されます。このコンピューターにのみ保存されます。</p>
+            </div>
+        </div>
+    );
+};
+
+const OpenAICompatibleFields = ({ settings, onChange }: {
+    settings: OpenAICompatibleSettings;
+    onChange: (settings: OpenAICompatibleSettings) => void;
+}) => {
+    const [isTesting, setIsTesting] = useState(false);
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        const result = await window.electronAPI.invoke('openai-compatible-generate', {
+            baseUrl: settings.baseUrl,
+            apiKey: settings.apiKey,
+            body: { model: settings.model, messages: [{ role: 'user', content: 'hello' }], max_tokens: 1 },
+        });
+        setIsTesting(false);
+        if (result.success) {
+            alert('サーバーに接続できました。');
+        } else {
+            alert(`サーバーに接続できませんでした: ${result.error?.message}`);
+        }
+    };
+
+    const inputClass = "w-full px-4 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 outline-none";
+
+    return (
+        <div className="p-4 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg space-y-3">
+            <div className="space-y-1">
+                <label className="block text-xs font-bold text-slate-500">接続先URL</label>
+                <input type="text" value={settings.baseUrl} onChange={(e) => onChange({ ...settings, baseUrl: e.target.value.trim() })} placeholder="http://localhost:11434/v1" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+                <label className="block text-xs font-bold text-slate-500">モデル名</label>
+                <input type="text" value={settings.model} onChange={(e) => onChange({ ...settings, model: e.target.value.trim() })} placeholder="例: qwen2.5vl:7b" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+                <label className="block text-xs font-bold text-slate-500">APIキー (任意)</label>
+                <input type="password" value={settings.apiKey || ''} onChange={(e) => onChange({ ...settings, apiKey: e.target.value || undefined })} className={inputClass} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-slate-500 dark:text-slate-400">解答画像を読み取るため、画像入力に対応したモデルを指定してください。</p>
+                <button
+                    onClick={handleTest}
+                    disabled={isTesting || !settings.baseUrl || !settings.model}
+                    className="flex-shrink-0 px-4 py-2 text-sm font-semibold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors disabled:opacity-50"
+                >
+                    {isTesting ? '接続中...' : '接続テスト'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
 export const SettingsView = ({ theme, setTheme, aiSettings, onAiSettingsChange, apiKey, onApiKeyChange }: SettingsViewProps) => {
+    const { activeProject } = useProject();
+    // The project-wide rules are previewed on the first descriptive question, ignoring its own template
+    const previewArea = activeProject?.areas.find(a => a.type === AreaType.ANSWER);
+    const previewPoint = activeProject?.points.find(p => p.id === previewArea?.id);
 
     return (
         <div className="w-full max-w-4xl mx-auto space-y-8">
@@ -92,6 +446,14 @@ export const SettingsView = ({ theme, setTheme, aiSettings, onAiSettingsChange,
                 </div>
             </div>
 
+            <GraderSettings />
+
+            <BackupSettings />
+
+            <StorageSettings />
+
+            <AIUsageSettings />
+
             {aiSettings && onAiSettingsChange && (
                  <div className="space-y-4 pt-8 border-t border-slate-200 dark:border-slate-700">
                     <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-200">AI採点 詳細設定</h3>
@@ -103,21 +465,47 @@ export const SettingsView = ({ theme, setTheme, aiSettings, onAiSettingsChange,
                     </div>
                     <div className="space-y-2">
                         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
-                            使用モデル
+                            AIプロバイダー
                         </label>
                         <select
-                            value={aiSettings.aiModel || 'gemini-3-flash-preview'}
-                            onChange={(e) => onAiSettingsChange(prev => ({ ...prev, aiModel: e.target.value }))}
+                            value={aiSettings.aiProvider || 'gemini'}
+                            onChange={(e) => onAiSettingsChange(prev => ({ ...prev, aiProvider: e.target.value as AISettings['aiProvider'] }))}
                             className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700"
                         >
-                            <option value="gemini-3-flash-preview">Gemini 3 Flash Preview (推奨: 高速)</option>
-                            <option value="gemini-3-pro-preview">Gemini 3 Pro Preview (高精度)</option>
-                            <option value="gemini-flash-lite-latest">Gemini Flash Lite (超高速・軽量)</option>
+                            <option value="gemini">Gemini (クラウド)</option>
+                            <option value="openai-compatible">OpenAI互換サーバー (ローカルモデル等)</option>
+                            <option value="mock">モック (オフライン・デモ用)</option>
                         </select>
-                        <p className="text-xs text-slate-500 dark:text-slate-400">
-                            モデルを変更することで採点の精度や処理速度を調整できます。
-                        </p>
+                        {aiSettings.aiProvider === 'mock' && (
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                通信せずに、記録済みの応答または解答画像から決まる模擬の採点結果を返します。APIキーは不要です。動作確認やデモに使用し、実際の採点には使用しないでください。
+                            </p>
+                        )}
                     </div>
+                    {aiSettings.aiProvider === 'openai-compatible' ? (
+                        <OpenAICompatibleFields
+                            settings={aiSettings.openAICompatible || { baseUrl: '', model: '' }}
+                            onChange={(openAICompatible) => onAiSettingsChange(prev => ({ ...prev, openAICompatible }))}
+                        />
+                    ) : (
+                        <div className="space-y-2">
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                                使用モデル
+                            </label>
+                            <select
+                                value={aiSettings.aiModel || 'gemini-3-flash-preview'}
+                                onChange={(e) => onAiSettingsChange(prev => ({ ...prev, aiModel: e.target.value }))}
+                                className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700"
+                            >
+                                <option value="gemini-3-flash-preview">Gemini 3 Flash Preview (推奨: 高速)</option>
+                                <option value="gemini-3-pro-preview">Gemini 3 Pro Preview (高精度)</option>
+                                <option value="gemini-flash-lite-latest">Gemini Flash Lite (超高速・軽量)</option>
+                            </select>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                モデルを変更することで採点の精度や処理速度を調整できます。
+                            </p>
+                        </div>
+                    )}
                     <div className="space-y-2">
                         <label htmlFor="batch-size-slider" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
                             一度に採点する解答数: <span className="font-bold">{aiSettings.batchSize}</span> 件
@@ -135,6 +523,24 @@ export const SettingsView = ({ theme, setTheme, aiSettings, onAiSettingsChange,
                         <p className="text-xs text-slate-500 dark:text-slate-400">
                             一度にAPIへ送信する解答の数です。
                         </p>
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="review-threshold-slider" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                            要確認にする確信度: <span className="font-bold">{Math.round((aiSettings.reviewConfidenceThreshold ?? 0) * 100)}%</span> 未満
+                        </label>
+                        <input
+                            id="review-threshold-slider"
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={aiSettings.reviewConfidenceThreshold ?? 0}
+                            onChange={(e) => onAiSettingsChange(prev => ({ ...prev, reviewConfidenceThreshold: parseFloat(e.target.value) }))}
+                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer dark:bg-slate-700 accent-sky-600"
+                        />
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            AIの確信度がこの値を下回った解答は未採点のまま残し、提案された得点を「要確認」として表示します。0%にすると、AIが確認を求めた解答だけが対象になります。
+                        </p>
                     </div>
                      <div className="space-y-2">
                         <label htmlFor="delay-slider" className="block text-sm font-medium text-slate-700 dark:text-slate-300">
@@ -170,6 +576,44 @@ export const SettingsView = ({ theme, setTheme, aiSettings, onAiSettingsChange,
                             </button>
                         </div>
                     </div>
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                            AIへの送り方
+                        </label>
+                        <div className="flex items-center space-x-2 p-1 bg-slate-200 dark:bg-slate-700 rounded-lg">
+                            <button 
+                                onClick={() => onAiSettingsChange(prev => ({ ...prev, gradingStrategy: 'per-question' }))}
+                                className={`flex-1 px-4 py-2 rounded-md text-sm transition-colors ${(aiSettings.gradingStrategy || 'per-question') === 'per-question' ? 'bg-white dark:bg-slate-600 shadow' : 'hover:bg-slate-300 dark:hover:bg-slate-600/50'}`}
+                            >
+                                問題ごと
+                            </button>
+                            <button 
+                                onClick={() => onAiSettingsChange(prev => ({ ...prev, gradingStrategy: 'per-student' }))}
+                                className={`flex-1 px-4 py-2 rounded-md text-sm transition-colors ${aiSettings.gradingStrategy === 'per-student' ? 'bg-white dark:bg-slate-600 shadow' : 'hover:bg-slate-300 dark:hover:bg-slate-600/50'}`}
+                            >
+                                生徒ごと
+                            </button>
+                        </div>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            「問題ごと」は1つの問題を複数の生徒分まとめて採点します。「生徒ごと」は1人の生徒の同じページの解答をすべて1回で採点するため、問題数が多いときにリクエスト数を減らせます。
+                        </p>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+                            採点ルール (プロンプト)
+                        </label>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                            AIに伝える採点の方針です。教科に合わせてプリセットを読み込んで編集できます。問題ごとの採点ルールは採点画面の設定から上書きできます。
+                        </p>
+                        <PromptTemplateEditor
+                            template={aiSettings.promptTemplate}
+                            onChange={(promptTemplate) => onAiSettingsChange(prev => ({ ...prev, promptTemplate }))}
+                            inheritedTemplate={DEFAULT_PROMPT_TEMPLATE}
+                            inheritedLabel="既定のルール"
+                            previewPoint={previewPoint && { ...previewPoint, promptTemplate: undefined }}
+                            aiSettings={aiSettings}
+                        />
+                    </div>
                     
                     <div className="pt-4 border-t border-slate-200 dark:border-slate-700 space-y-6">
                         <h4 className="text-md font-bold text-slate-800 dark:text-slate-200">マークシート設定</h4>
@@ -27,9 +27,9 @@ export const StudentInfoInput = () => {
                  ...p,
                  name: `${p.name} - ${roster.name}`,
                  studentInfo: studentList
-             }));
+             }), `名簿「${roster.name}」を読み込み`);
         } else {
-            handleStudentInfoChange(studentList);
+            handleStudentInfoChange(studentList, `名簿「${roster.name}」を読み込み`);
         }
         
         nextStep();
@@ -1,17 +1,23 @@
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import type { Student, Area, Template } from '../types';
+import type { Student, Area, Template, Corners } from '../types';
 import { AreaType } from '../types';
 import { AnswerSnippet } from './AnswerSnippet';
 import { ManualAlignmentModal } from './ManualAlignmentModal';
+import { AlignmentReportModal } from './AlignmentReportModal';
 import { 
     Trash2Icon, PlusIcon, GripVerticalIcon, ArrowRightIcon, 
     SparklesIcon, SpinnerIcon, AlertCircleIcon, 
-    RotateCcwIcon, ArrowDownFromLineIcon, CheckCircle2Icon,
+    RotateCcwIcon, RotateCwIcon, ArrowDownFromLineIcon, CheckCircle2Icon,
     CrosshairIcon, BoxSelectIcon
 } from './icons';
 import { useProject } from '../context/ProjectContext';
-import { toHalfWidth, loadImage } from '../utils';
+import { toHalfWidth, loadImage, getAlignmentContext, getPageAlignment, getPageWarp, warpArea, evaluatePageAlignment } from '../utils';
+import type { InteriorMarkContext } from '../utils';
+import { subscribeImageTaskProgress } from '../imageWorkerPool';
+import type { ImageTaskProgress } from '../imageWorkerPool';
+import { canCheckAlignment, checkPageAlignment, checkSheetsAlignment, isAlignmentProblem } from '../alignmentCheck';
+import type { AlignmentCheckRow } from '../alignmentCheck';
 
 // Type to store debug information about the grid detection
 interface DetectionDebugInfo {
@@ -74,7 +80,7 @@ const findPeaksInProfile = (profile: number[], length: number, thresholdRatio: n
     return peaks;
 };
 
-const analyzeStudentIdMark = async (imagePath: string, mainArea: Area, sensitivity: number, template?: Template, searchZones?: { tl: Area; tr: Area; br: Area; bl: Area }, refRightArea?: Area, refBottomArea?: Area): Promise<{ indices: number[] | null, debugInfo: DetectionDebugInfo }> => {
+const analyzeStudentIdMark = async (imagePath: string, mainArea: Area, sensitivity: number, template?: Template, searchZones?: { tl: Area; tr: Area; br: Area; bl: Area }, refRightArea?: Area, refBottomArea?: Area, interior?: InteriorMarkContext): Promise<{ indices: number[] | null, debugInfo: DetectionDebugInfo }> => {
     const debugInfo: DetectionDebugInfo = { points: [], rows: [], cols: [], rowBoundaries: [], colBoundaries: [], orientation: 'horizontal', scanZones: [], rois: [] };
     const markThreshold = Math.floor(255 / sensitivity);
     try {
@@ -89,19 +95,13 @@ const analyzeStudentIdMark = async (imagePath: string, mainArea: Area, sensitivi
         // --- Alignment Logic for Student ID ---
         let finalImg: HTMLImageElement | HTMLCanvasElement = img;
 
-        if (template?.alignmentMarkIdealCorners) {
-            const { detectAndWarpCrop } = await import('../utils');
+        const srcCorners = template?.alignmentMarkIdealCorners ? await getPageAlignment(imagePath, img, template.alignmentDetectionSettings, searchZones) : null;
+        const warp = template?.alignmentMarkIdealCorners && srcCorners ? await getPageWarp(imagePath, img, srcCorners, template.alignmentMarkIdealCorners, interior) : null;
+        if (warp) {
             // We warp the WHOLE page to a canvas, then detect on that canvas
-            const result = await detectAndWarpCrop(
-                img, 
-                template.alignmentMarkIdealCorners,
-                { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight },
-                undefined,
-                template.alignmentDetectionSettings,
-                searchZones
-            );
-            if (result.url) {
-                const warpedImg = await loadImage(result.url);
+            const url = await warpArea(img, warp, { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight });
+            if (url) {
+                const warpedImg = await loadImage(url);
                 finalImg = warpedImg;
                 // Since we warped the whole page to its original size, areas don't need adjustment
             }
@@ -265,12 +265,13 @@ const GridOverlay = ({ debugInfo, width, height }: { debugInfo: DetectionDebugIn
 };
 
 export const StudentVerificationEditor = () => {
-    const { activeProject, handleStudentSheetsChange, handleStudentInfoChange, uploadFilesRaw, updateActiveProject } = useProject();
-    const { uploadedSheets, studentInfo: studentInfoList, template, areas, aiSettings } = activeProject!;
+    const { activeProject, handleStudentSheetsChange, handleStudentInfoChange, uploadFilesRaw, rotateSheetPage, updateActiveProject } = useProject();
+    const { uploadedSheets, studentInfo: studentInfoList, template, areas, aiSettings, pageOrientationIssues, alignmentIssues } = activeProject!;
 
     const [draggedInfoIndex, setDraggedInfoIndex] = useState<number | null>(null);
     const [dragOverInfoIndex, setDragOverInfoIndex] = useState<number | null>(null);
     const [isSorting, setIsSorting] = useState(false);
+    const [sortProgress, setSortProgress] = useState<ImageTaskProgress | null>(null);
     const [showDebugGrid, setShowDebugGrid] = useState(false);
     const [showMovedHighlight, setShowMovedHighlight] = useState(true);
     const [markThreshold, setMarkThreshold] = useState(aiSettings.markSheetSensitivity || 1.5);
@@ -291,6 +292,73 @@ export const StudentVerificationEditor = () => {
         initialCorners?: any;
     } | null>(null);
 
+    // Interior marks per page, kept stable across renders so that the snippets are not cropped again
+    const interiorMarksByPage = useMemo(() => areas.reduce((acc, area) => {
+        if (area.type !== AreaType.INTERIOR_MARK) return acc;
+        const pageIdx = area.pageIndex || 0;
+        acc[pageIdx] = (acc[pageIdx] || []).concat(area);
+        return acc;
+    }, {} as Record<number, Area[]>), [areas]);
+
+    const [alignmentReport, setAlignmentReport] = useState<AlignmentCheckRow[] | null>(null);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [alignmentCheckProgress, setAlignmentCheckProgress] = useState<{ completed: number, total: number } | null>(null);
+    const openAlignmentIssueCount = useMemo(() => {
+        const images = new Set(uploadedSheets.reduce((acc, s) => acc.concat(s.images.filter((img): img is string => !!img)), [] as string[]));
+        return (alignmentIssues || []).filter(path => images.has(path)).length;
+    }, [uploadedSheets, alignmentIssues]);
+
+    const openAlignmentModal = (sheet: Student, pageIdx: number, image: string) => {
+        const detected = sheet.detectedAlignmentCorners?.[pageIdx];
+        setAlignmentModal({
+            sheetId: sheet.id,
+            pageIdx,
+            imageUrl: image,
+            initialCorners: sheet.manualAlignmentCorners?.[pageIdx]
+                || (detected?.imagePath === image ? detected.corners : null)
+                || template?.alignmentMarkIdealCorners
+        });
+    };
+
+    const handleCheckAlignment = async () => {
+        if (!template || alignmentCheckProgress) return;
+        setAlignmentCheckProgress({ completed: 0, total: 0 });
+        try {
+            const rows = await checkSheetsAlignment(uploadedSheets, template, areas, (completed, total) => setAlignmentCheckProgress({ completed, total }));
+            setAlignmentReport(rows);
+            setIsReportOpen(true);
+            updateActiveProject(p => ({ ...p, alignmentIssues: rows.filter(isAlignmentProblem).map(row => row.imagePath), lastModified: Date.now() }), '位置合わせを確認');
+        } catch (e) {
+            console.error("Alignment check failed:", e);
+            alert("位置合わせの確認中にエラーが発生しました。");
+        } finally {
+            setAlignmentCheckProgress(null);
+        }
+    };
+
+    const getSheetLabel = (sheetId: string) => {
+        const index = uploadedSheets.findIndex(s => s.id === sheetId);
+        const info = studentInfoList[index];
+        if (info) return `${info.class}-${info.number} ${info.name}`;
+        return uploadedSheets[index]?.originalName || sheetId;
+    };
+
+    const evaluateModalCorners = useCallback((corners: Corners) => {
+        const context = alignmentModal ? getAlignmentContext(areas, alignmentModal.pageIdx, template) : null;
+        const idealCorners = context?.idealCorners || template?.alignmentMarkIdealCorners;
+        if (!alignmentModal || !idealCorners) return Promise.resolve(null);
+        return evaluatePageAlignment(alignmentModal.imageUrl, corners, idealCorners, context?.interior);
+    }, [alignmentModal, areas, template]);
+
+    // Pages read so far by the image workers, shown on the sort button
+    useEffect(() => {
+        if (!isSorting) {
+            setSortProgress(null);
+            return;
+        }
+        return subscribeImageTaskProgress(setSortProgress);
+    }, [isSorting]);
+
     // Default to template pages, but allow user override for 1-sided template with 2-sided scans
     const [pagesPerStudentOverride, setPagesPerStudentOverride] = useState<number>(() => {
         return template?.pages?.length || 1;
@@ -330,6 +398,12 @@ export const StudentVerificationEditor = () => {
         };
     }, [areas]);
 
+    // Keep the grouping in step with the sheets when they change from outside, e.g. on undo
+    useEffect(() => {
+        const stride = uploadedSheets[0]?.images.length;
+        if (stride && uploadedSheets.every(s => s.images.length === stride)) setPagesPerStudentOverride(stride);
+    }, [uploadedSheets]);
+
     const pagesPerStudent = pagesPerStudentOverride;
     const numRows = Math.max(uploadedSheets.length, studentInfoList.length);
 
@@ -384,7 +458,7 @@ export const StudentVerificationEditor = () => {
                 });
             }
         }
-        handleStudentSheetsChange(newSheets);
+        handleStudentSheetsChange(newSheets, 'ページの並び順を変更');
     };
 
     const handleChangeGrouping = (newStride: number) => {
@@ -405,7 +479,7 @@ export const StudentVerificationEditor = () => {
                 images: chunk
             });
         }
-        handleStudentSheetsChange(newSheets);
+        handleStudentSheetsChange(newSheets, `1人あたりのページ数を ${newStride} に変更`);
     };
 
     const handleShiftImages = (studentIndex: number, pageIndex: number, direction: 'forward' | 'backward') => {
@@ -432,7 +506,7 @@ export const StudentVerificationEditor = () => {
                 images: chunk
             });
         }
-        handleStudentSheetsChange(newSheets);
+        handleStudentSheetsChange(newSheets, '画像をずらす');
     };
 
     const handleSwapPages = (studentIndex: number) => {
@@ -441,7 +515,7 @@ export const StudentVerificationEditor = () => {
         if (student && student.images.length >= 2) {
             student.images = [...student.images].reverse();
             newSheets[studentIndex] = student;
-            handleStudentSheetsChange(newSheets);
+            handleStudentSheetsChange(newSheets, 'ページを入れ替え');
         }
     };
 
@@ -466,15 +540,28 @@ export const StudentVerificationEditor = () => {
                 });
             }
 
-            const updatedSheets = [...uploadedSheets, ...newSheets];
-            handleStudentSheetsChange(updatedSheets);
+            const orientationIssues = processedFiles.filter(f => f.needsOrientationCheck).map(f => f.path);
+            updateActiveProject(p => ({
+                ...p,
+                uploadedSheets: [...p.uploadedSheets, ...newSheets],
+                pageOrientationIssues: [...(p.pageOrientationIssues || []), ...orientationIssues],
+                lastModified: Date.now(),
+            }), `解答用紙 ${newSheets.length} 件を追加`);
         } catch (err) {
             console.error(err);
             alert('ファイルの追加に失敗しました。');
         }
     };
 
-    const handleManualAssign = (sheetIndex: number) => {
+    const dismissOrientationIssue = (imagePath: string) => {
+        updateActiveProject(p => ({
+            ...p,
+            pageOrientationIssues: (p.pageOrientationIssues || []).filter(path => path !== imagePath),
+            lastModified: Date.now(),
+        }), 'ページの向きを確認');
+    };
+
+        const handleManualAssign = (sheetIndex: number) => {
         const sheet = uploadedSheets[sheetIndex];
         if (!sheet) return;
         const input = manualAssignInputs[sheet.id];
@@ -507,7 +594,7 @@ export const StudentVerificationEditor = () => {
         newSheets[targetStudentIndex] = sheet;
         newSheets[sheetIndex] = targetSheet;
 
-        handleStudentSheetsChange(newSheets);
+        handleStudentSheetsChange(newSheets, `解答用紙を ${targetClass}組 ${targetNumber}番 に割り当て`);
         setManualAssignInputs(prev => {
             const next = { ...prev };
             delete next[sheet.id];
@@ -558,7 +645,7 @@ export const StudentVerificationEditor = () => {
         newSheets[sheetIndex] = sourceSheet;
         newSheets[targetStudentIndex] = targetSheet;
 
-        handleStudentSheetsChange(newSheets);
+        handleStudentSheetsChange(newSheets, `${pageIndex + 1}ページ目を ${targetClass}組 ${targetNumber}番 に割り当て`);
         
         // Clear input
         setPageAssignInputs(prev => {
@@ -576,13 +663,13 @@ export const StudentVerificationEditor = () => {
     const handleInsertBlankInfo = (index: number) => {
         const newInfo = [...studentInfoList];
         newInfo.splice(index, 0, { id: `new-info-${Date.now()}-${Math.random()}`, class: '', number: '', name: '' });
-        handleStudentInfoChange(newInfo);
+        handleStudentInfoChange(newInfo, '生徒情報の行を挿入');
     };
 
     const handleDeleteInfo = (index: number) => {
         const newInfo = [...studentInfoList];
         newInfo.splice(index, 1);
-        handleStudentInfoChange(newInfo);
+        handleStudentInfoChange(newInfo, '生徒情報の行を削除');
     };
 
     const handleInfoInputChange = (index: number, field: string, value: string) => {
@@ -597,7 +684,7 @@ export const StudentVerificationEditor = () => {
         }
         
         newInfo[index] = { ...newInfo[index], [field]: val };
-        handleStudentInfoChange(newInfo);
+        handleStudentInfoChange(newInfo, `${index + 1}行目の生徒情報を編集`);
     };
 
     const handleInfoDrop = (e: React.DragEvent<HTMLDivElement>, dropIndex: number) => {
@@ -611,7 +698,7 @@ export const StudentVerificationEditor = () => {
         const draggedItem = newInfo[draggedInfoIndex];
         newInfo.splice(draggedInfoIndex, 1);
         newInfo.splice(dropIndex, 0, draggedItem);
-        handleStudentInfoChange(newInfo);
+        handleStudentInfoChange(newInfo, '生徒情報の並び順を変更');
         setDraggedInfoIndex(null);
         setDragOverInfoIndex(null);
     };
@@ -681,7 +768,8 @@ export const StudentVerificationEditor = () => {
                         template,
                         searchZones,
                         refRight, 
-                        refBottom
+                        refBottom,
+                        getAlignmentContext(areas, pageIdx, template)?.interior
                     );
                     return { imagePath, indices, debugInfo };
                 }));
@@ -821,7 +909,7 @@ export const StudentVerificationEditor = () => {
                 }
             });
 
-            handleStudentSheetsChange(newSheets);
+            handleStudentSheetsChange(newSheets, '学籍番号で解答用紙を並べ替え');
             setMovedStudentIndices(newMovedIndices);
             setSheetMessages(newSheetMessages);
             setDetectedIds(newDetectedIds);
@@ -866,7 +954,8 @@ export const StudentVerificationEditor = () => {
                             template,
                             searchZones,
                             refRight,
-                            refBottom
+                            refBottom,
+                            getAlignmentContext(areas, pageIdx, template)?.interior
                         );
                         // Store debug info with page index as key suffix to handle multi-page visualization
                         newDebugInfos[`${sheet.id}-${pageIdx}`] = debugInfo;
@@ -905,10 +994,15 @@ export const StudentVerificationEditor = () => {
                 <ManualAlignmentModal 
                     imageUrl={alignmentModal.imageUrl}
                     initialCorners={alignmentModal.initialCorners}
+                    evaluateCorners={evaluateModalCorners}
                     onClose={() => setAlignmentModal(null)}
                     onSave={(corners) => {
+                        const sheet = uploadedSheets.find(s => s.id === alignmentModal.sheetId);
+                        const image = sheet?.images[alignmentModal.pageIdx];
                         updateActiveProject(prev => ({
                             ...prev,
+                            // Corners set by hand settle the page; the report below shows how well they align
+                            alignmentIssues: prev.alignmentIssues?.filter(path => path !== image),
                             uploadedSheets: prev.uploadedSheets.map(s => 
                                 s.id === alignmentModal.sheetId 
                                     ? { 
@@ -921,11 +1015,30 @@ export const StudentVerificationEditor = () => {
                                     : s
                             ),
                             lastModified: Date.now()
-                        }));
+                        }), '位置補正を手動で設定');
+                        if (alignmentReport && sheet && template) {
+                            const corrected = { ...sheet, manualAlignmentCorners: { ...(sheet.manualAlignmentCorners || {}), [alignmentModal.pageIdx]: corners } };
+                            checkPageAlignment(corrected, alignmentModal.pageIdx, template, areas).then(row => {
+                                if (!row) return;
+                                setAlignmentReport(prev => prev && prev.map(r => r.sheetId === row.sheetId && r.pageIndex === row.pageIndex ? row : r));
+                            });
+                        }
                         setAlignmentModal(null);
                     }}
                 />
             )}
+            {isReportOpen && alignmentReport && (
+                <AlignmentReportModal
+                    rows={alignmentReport}
+                    getSheetLabel={getSheetLabel}
+                    onOpenManualAlignment={(row) => {
+                        const sheet = uploadedSheets.find(s => s.id === row.sheetId);
+                        if (sheet) openAlignmentModal(sheet, row.pageIndex, row.imagePath);
+                    }}
+                    onRecheck={() => { setIsReportOpen(false); handleCheckAlignment(); }}
+                    onClose={() => setIsReportOpen(false)}
+                />
+            )}
             <div className="flex-shrink-0 flex flex-wrap justify-between items-center gap-2">
                 <div>
                     <h3 className="text-base sm:text-lg font-semibold text-slate-800 dark:text-slate-200">生徒情報と解答用紙の照合・修正</h3>
@@ -1002,10 +1115,25 @@ export const StudentVerificationEditor = () => {
                                 title="全画像をスキャンし、学籍番号マークに基づいて再配置・グループ化します"
                             >
                                 {isSorting ? <SpinnerIcon className="w-3 h-3 sm:w-4 sm:h-4"/> : <SparklesIcon className="w-3 h-3 sm:w-4 sm:h-4"/>}
-                                <span>{isSorting ? '読取中' : '自動並べ替え'}</span>
+                                <span>{isSorting ? (sortProgress && sortProgress.total > 0 ? `読取中 ${sortProgress.completed}/${sortProgress.total}` : '読取中') : '自動並べ替え'}</span>
                             </button>
                         </>
                     )}
+                    {canCheckAlignment(template, areas) && (
+                        <button
+                            onClick={handleCheckAlignment}
+                            disabled={!!alignmentCheckProgress || uploadedSheets.length === 0}
+                            className={`flex items-center gap-1 px-2 py-1.5 sm:px-3 sm:py-2 text-[10px] sm:text-sm rounded-md transition-colors disabled:opacity-50 ${openAlignmentIssueCount > 0 ? 'bg-red-100 text-red-700 hover:bg-red-200 dark:bg-red-900/50 dark:text-red-300' : 'bg-slate-200 text-slate-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600'}`}
+                            title="全ページの基準マークを検出し、位置合わせの結果を一覧で確認します"
+                        >
+                            {alignmentCheckProgress ? <SpinnerIcon className="w-3 h-3 sm:w-4 sm:h-4"/> : openAlignmentIssueCount > 0 ? <AlertCircleIcon className="w-3 h-3 sm:w-4 sm:h-4"/> : <CrosshairIcon className="w-3 h-3 sm:w-4 sm:h-4"/>}
+                            <span>
+                                {alignmentCheckProgress
+                                    ? `確認中 ${alignmentCheckProgress.completed}/${alignmentCheckProgress.total}`
+                                    : openAlignmentIssueCount > 0 ? `位置合わせ 要確認 ${openAlignmentIssueCount}` : '位置合わせを確認'}
+                            </span>
+                        </button>
+                    )}
                     <label className="flex items-center gap-1 px-2 py-1.5 sm:px-3 sm:py-2 text-[10px] sm:text-sm bg-slate-200 text-slate-800 dark:bg-slate-700 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600 rounded-md transition-colors cursor-pointer">
                         <PlusIcon className="w-3 h-3 sm:w-4 sm:h-4" />
                         <span>追加</span>
@@ -1126,12 +1254,32 @@ export const StudentVerificationEditor = () => {
                                             const isDebugTarget = (showDebugGrid && !!idAreaForPage && targetArea.type === AreaType.STUDENT_ID_MARK);
                                             const debugInfo = sheet && isDebugTarget ? debugInfos[`${sheet.id}-${pageIdx}`] : undefined;
                                             const pageDetectedId = sheet ? pageDetectedIds[sheet.id]?.[pageIdx] : null;
+                                            const needsOrientationCheck = !!image && !!pageOrientationIssues?.includes(image);
 
                                             return (
                                                 <div key={pageIdx} className="flex-1 min-w-[120px] flex flex-col gap-1">
                                                     <div className="flex items-center justify-between text-[10px] text-slate-500 px-1">
                                                         <span>Page {pageIdx + 1}</span>
+                                                        {needsOrientationCheck && (
+                                                            <button
+                                                                onClick={() => dismissOrientationIssue(image!)}
+                                                                className="px-1 rounded bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-300 font-bold hover:bg-amber-200"
+                                                                title="向きを自動で判定できませんでした。正しい向きならクリックして表示を消します"
+                                                            >
+                                                                向きを確認
+                                                            </button>
+                                                        )}
                                                         <div className="flex gap-1">
+                                                            {image && sheet && (
+                                                                <>
+                                                                    <button onClick={() => rotateSheetPage(sheet.id, pageIdx, 90)} className="hover:text-sky-500" title="右に90°回転">
+                                                                        <RotateCwIcon className="w-3 h-3" />
+                                                                    </button>
+                                                                    <button onClick={() => rotateSheetPage(sheet.id, pageIdx, 180)} className="hover:text-sky-500 font-bold" title="180°回転 (上下逆)">
+                                                                        180°
+                                                                    </button>
+                                                                </>
+                                                            )}
                                                             <button onClick={() => handleShiftImages(studentIdx, pageIdx, 'backward')} className="hover:text-red-500" title="この画像を削除して、以降を前へ詰める">
                                                                 <Trash2Icon className="w-3 h-3" />
                                                             </button>
@@ -1140,7 +1288,7 @@ export const StudentVerificationEditor = () => {
                                                             </button>
                                                         </div>
                                                     </div>
-                                                    <div className="flex-1 relative bg-slate-100 dark:bg-slate-900 rounded overflow-hidden border border-slate-200 dark:border-slate-700 group">
+                                                    <div className={`flex-1 relative bg-slate-100 dark:bg-slate-900 rounded overflow-hidden border group ${needsOrientationCheck ? 'border-amber-400' : 'border-slate-200 dark:border-slate-700'}`}>
                                                         {image ? (
                                                             <>
                                                                 {pageDetectedId && (
@@ -1154,6 +1302,7 @@ export const StudentVerificationEditor = () => {
                                                                     template={template}
                                                                     padding={targetArea.type === AreaType.NAME ? 10 : 0} 
                                                                     useAlignment={true}
+                                                                    interiorMarks={interiorMarksByPage[pageIdx]}
                                                                     manualCorners={sheet?.manualAlignmentCorners?.[pageIdx]}
                                                                 >
                                                                     {isDebugTarget && debugInfo && (
@@ -1192,14 +1341,7 @@ export const StudentVerificationEditor = () => {
                                                                         className="w-full bg-slate-600 text-white text-[9px] py-0.5 rounded hover:bg-slate-500 flex items-center justify-center gap-1"
                                                                         onClick={(e) => { 
                                                                             e.stopPropagation(); 
-                                                                            if (sheet && image) {
-                                                                                setAlignmentModal({
-                                                                                    sheetId: sheet.id,
-                                                                                    pageIdx,
-                                                                                    imageUrl: image,
-                                                                                    initialCorners: sheet.manualAlignmentCorners?.[pageIdx] || template?.alignmentMarkIdealCorners
-                                                                                });
-                                                                            }
+                                                                            if (sheet && image) openAlignmentModal(sheet, pageIdx, image);
                                                                         }}
                                                                     >
                                                                         <CrosshairIcon className="w-3 h-3" />
@@ -5,7 +5,7 @@ import { AreaType as AreaTypeEnum } from '../types';
 import { TemplateSidebar, areaTypeColors } from './template_editor/TemplateSidebar';
 import { TemplateToolbar } from './template_editor/TemplateToolbar';
 import { useProject } from '../context/ProjectContext';
-import { analyzeMarkSheetSnippet, findNearestAlignedRefArea, loadImage, detectRectFromPoint, findStudentIdRefMarks } from '../utils';
+import { analyzeMarkSheetSnippet, findNearestAlignedRefArea, loadImage, detectRectFromPoint, detectStudentIdRefMarks } from '../utils';
 
 interface TemplateEditorProps {
     apiKey: string;
@@ -184,7 +184,7 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ apiKey }) => {
                     if (ctx) {
                         ctx.drawImage(currentImg, 0, 0);
                         const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                        const refs = findStudentIdRefMarks(imageData, newArea);
+                        const refs = await detectStudentIdRefMarks(imageData, newArea);
                         if (refs.right) {
                             nextAreas.push({ ...refs.right, id: Date.now() + 1, name: '学籍番号基準(右)', type: AreaTypeEnum.STUDENT_ID_REF_RIGHT, pageIndex: activePageIndex });
                         }
@@ -368,7 +368,7 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ apiKey }) => {
             const img = await loadImage(result.details.url);
             
             // Client-side detection logic (Flood Fill / Magic Wand)
-            const rect = detectRectFromPoint(img, pos.x, pos.y, 160); // Use a standard threshold
+            const rect = await detectRectFromPoint(img, pos.x, pos.y, 160); // Use a standard threshold
 
             if (rect) {
                 const newArea: Area = {
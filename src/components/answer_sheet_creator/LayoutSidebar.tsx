@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import type { SheetLayout, SheetCell, LayoutConfig, HeaderElement, NumberingStyle } from '../../types';
+import { formatMigrationReport, migrateSheetLayout } from '../../migrations';
 import { generateAutoLayout, PAPER_DIMENSIONS } from './LayoutGenerator';
 import { PlusIcon, Trash2Icon, FileUpIcon, FileDownIcon, XIcon, CalculatorIcon, ListIcon, BoxSelectIcon, PenLineIcon, ArrowDownFromLineIcon, ArrowRightIcon, ArrowLeftIcon, PaletteIcon, GripVerticalIcon, RotateCcwIcon, Edit3Icon, SettingsIcon, MinusIcon, ChevronDownIcon, ChevronUpIcon, AlignVerticalJustifyStartIcon, AlignVerticalJustifyEndIcon, PrintIcon } from '../icons';
 
@@ -317,7 +318,15 @@ export const LayoutSidebar: React.FC<LayoutSidebarProps> = ({ layouts, setLayout
     const handleImportLayout = async () => {
         const result = await window.electronAPI.invoke('import-sheet-layout');
         if (result.success && result.data) {
-            const importedLayout = result.data as SheetLayout;
+            const migration = migrateSheetLayout(result.data);
+            if (!migration.value) {
+                alert(`インポートに失敗しました: ${migration.error}`);
+                return;
+            }
+            if (migration.issues.length > 0) {
+                alert(`以下の問題を修復しました:\n${formatMigrationReport(migration.issues)}`);
+            }
+            const importedLayout = migration.value;
             const newId = `layout_${Date.now()}`;
             importedLayout.id = newId;
             importedLayout.name = `${importedLayout.name} (インポート)`;
@@ -0,0 +1,33 @@
+import React, { useMemo } from 'react';
+import { useProject } from '../../context/ProjectContext';
+import { useAIUsage } from '../../context/AIUsageContext';
+import { formatCost, formatTokens, summarizeUsage } from '../../aiUsage';
+
+// Compact AI usage for the grading header: this question, this test and the monthly limit
+export const AIUsageSummary: React.FC<{ areaId?: number }> = ({ areaId }) => {
+    const { activeProject } = useProject();
+    const { records, monthUsage, monthlyTokenLimit, isMonthlyLimitReached } = useAIUsage();
+
+    const { projectUsage, questionUsage } = useMemo(() => {
+        const projectRecords = records.filter(r => r.projectId === activeProject?.id);
+        return {
+            projectUsage: summarizeUsage(projectRecords),
+            questionUsage: summarizeUsage(projectRecords.filter(r => areaId !== undefined && r.areaIds.includes(areaId))),
+        };
+    }, [records, activeProject?.id, areaId]);
+
+    if (projectUsage.requests === 0 && monthlyTokenLimit === 0) return null;
+    const monthTokens = monthUsage.inputTokens + monthUsage.outputTokens;
+    const title = [
+        `この問題: ${questionUsage.requests}回 / 画像${questionUsage.images}枚 / ${formatTokens(questionUsage.inputTokens + questionUsage.outputTokens)}トークン`,
+        `このテスト: ${projectUsage.requests}回 / 画像${projectUsage.images}枚 / ${formatTokens(projectUsage.inputTokens + projectUsage.outputTokens)}トークン (目安 ${formatCost(projectUsage.estimatedCost)})`,
+        `今月: ${formatTokens(monthTokens)}トークン${monthlyTokenLimit > 0 ? ` / 上限 ${formatTokens(monthlyTokenLimit)}` : ''}`,
+    ].join('\n');
+
+    return (
+        <span className={`text-[10px] sm:text-xs whitespace-nowrap ${isMonthlyLimitReached ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-slate-500 dark:text-slate-400'}`} title={title}>
+            AI利用 {formatTokens(projectUsage.inputTokens + projectUsage.outputTokens)}トークン
+            {monthlyTokenLimit > 0 && ` (今月 ${Math.min(100, Math.round(monthTokens / monthlyTokenLimit * 100))}%)`}
+        </span>
+    );
+};
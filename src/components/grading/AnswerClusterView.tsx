@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import type { Student, Template, Area, Point, AllScores } from '../../types';
+import { ScoringStatus } from '../../types';
+import type { AnswerCluster } from '../../answerClustering';
+import { getAlignmentContext } from '../../utils';
+import { AnswerSnippet } from '../AnswerSnippet';
+import { CircleCheckIcon, XIcon as XCircleIcon, TriangleIcon, SpinnerIcon } from '../icons';
+
+// Snippets shown per cluster; the remaining members are listed by name only
+const PREVIEW_COUNT = 4;
+
+const clusterTitles: Record<AnswerCluster['source'], string> = {
+    text: '',
+    image: '筆跡が類似',
+    blank: '白紙',
+    pending: '分類中',
+    failed: '分類できず',
+};
+
+// Answers that were never compared with each other are scored one by one, not as a group
+const isScorableCluster = (cluster: AnswerCluster) => cluster.source !== 'pending' && cluster.source !== 'failed';
+
+interface AnswerClusterViewProps {
+    clusters: AnswerCluster[];
+    students: (Student & { class: string; number: string; name: string })[];
+    template: Template;
+    area: Area;
+    areas: Area[];
+    point: Point;
+    scores: AllScores;
+    isComputing: boolean;
+    isImageEnhanced?: boolean;
+    autoAlign?: boolean;
+    onApply: (cluster: AnswerCluster, status: ScoringStatus, score: number) => void;
+}
+
+const ClusterCard: React.FC<Omit<AnswerClusterViewProps, 'clusters' | 'isComputing'> & { cluster: AnswerCluster; searchZones?: { tl: Area; tr: Area; br: Area; bl: Area }; interiorMarks?: Area[] }> = ({
+    cluster, students, template, area, point, scores, isImageEnhanced, autoAlign, onApply, searchZones, interiorMarks
+}) => {
+    const [partialScore, setPartialScore] = useState('');
+    const pageIndex = area.pageIndex || 0;
+    const members = cluster.studentIds.map(id => students.find(s => s.id === id)).filter(Boolean) as AnswerClusterViewProps['students'];
+
+    const statusCounts = members.reduce((acc, student) => {
+        const status = scores[student.id]?.[area.id]?.status || ScoringStatus.UNSCORED;
+        acc[status] = (acc[status] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>);
+
+    const applyPartial = () => {
+        const score = parseInt(partialScore, 10);
+        if (isNaN(score) || score < 0 || score > point.points) {
+            alert(`0から${point.points}の間で入力してください。`);
+            return;
+        }
+        onApply(cluster, score === point.points ? ScoringStatus.CORRECT : score === 0 ? ScoringStatus.INCORRECT : ScoringStatus.PARTIAL, score);
+        setPartialScore('');
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow border border-slate-200 dark:border-slate-700 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                    <span className="font-bold text-lg font-mono break-all">{cluster.text || clusterTitles[cluster.source] || '(分類なし)'}</span>
+                    <span className="ml-2 text-sm text-slate-500 dark:text-slate-400">{members.length}人</span>
+                </div>
+                <div className="flex items-center gap-2 text-xs flex-shrink-0">
+                    {statusCounts[ScoringStatus.CORRECT] > 0 && <span className="text-green-600 dark:text-green-400">◯ {statusCounts[ScoringStatus.CORRECT]}</span>}
+                    {statusCounts[ScoringStatus.PARTIAL] > 0 && <span className="text-yellow-600 dark:text-yellow-400">△ {statusCounts[ScoringStatus.PARTIAL]}</span>}
+                    {statusCounts[ScoringStatus.INCORRECT] > 0 && <span className="text-red-600 dark:text-red-400">✕ {statusCounts[ScoringStatus.INCORRECT]}</span>}
+                    {statusCounts[ScoringStatus.UNSCORED] > 0 && <span className="text-slate-500">未 {statusCounts[ScoringStatus.UNSCORED]}</span>}
+                </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {members.slice(0, PREVIEW_COUNT).map(student => (
+                    <div key={student.id} className="h-20 bg-slate-100 dark:bg-slate-900 rounded overflow-hidden relative" title={student.name}>
+                        <AnswerSnippet
+                            imageSrc={student.images[pageIndex] || null}
+                            area={area}
+                            template={template}
+                            padding={15}
+                            isEnhanced={isImageEnhanced}
+                            useAlignment={autoAlign}
+                            alignmentSettings={template.alignmentDetectionSettings}
+                            searchZones={searchZones}
+                            interiorMarks={interiorMarks}
+                            manualCorners={student.manualAlignmentCorners?.[pageIndex]}
+                            manualPanOffset={scores[student.id]?.[area.id]?.manualPanOffset}
+                        />
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">
+                {members.map(s => `${s.class}-${s.number} ${s.name}`).join('、')}
+            </p>
+            {isScorableCluster(cluster) ? (
+                <div className="flex items-center gap-2">
+                    <button onClick={() => onApply(cluster, ScoringStatus.CORRECT, point.points)} className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300 hover:bg-green-200">
+                        <CircleCheckIcon className="w-4 h-4" /> 全員正解
+                    </button>
+                    <button onClick={() => onApply(cluster, ScoringStatus.INCORRECT, 0)} className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300 hover:bg-red-200">
+                        <XCircleIcon className="w-4 h-4" /> 全員不正解
+                    </button>
+                    <div className="flex items-center gap-1">
+                        <TriangleIcon className="w-4 h-4 text-yellow-600" />
+                        <input
+                            type="number" min="0" max={point.points}
+                            value={partialScore}
+                            onChange={(e) => setPartialScore(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') applyPartial(); }}
+                            placeholder="点"
+                            className="w-14 p-1 text-xs bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+                        />
+                        <button onClick={applyPartial} disabled={!partialScore} className="px-2 py-1.5 text-xs rounded-md bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300 hover:bg-yellow-200 disabled:opacity-50">部分点</button>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {cluster.source === 'pending' ? '筆跡を比較中です。まとめて採点するには分類が終わるまでお待ちください。' : '解答画像を読み取れなかったため分類できませんでした。一覧表示で個別に採点してください。'}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export const AnswerClusterView: React.FC<AnswerClusterViewProps> = ({ clusters, isComputing, ...props }) => {
+    const alignment = useMemo(() => getAlignmentContext(props.areas, props.area.pageIndex || 0, props.template), [props.areas, props.area.pageIndex, props.template]);
+    const searchZones = alignment?.searchZones;
+
+    if (isComputing && clusters.length === 0) {
+        return (
+            <div className="flex-1 flex items-center justify-center gap-2 text-slate-500">
+                <SpinnerIcon className="w-5 h-5" /> 解答を分類中...
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex-1 overflow-y-auto space-y-3 p-1">
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+                {clusters.filter(isScorableCluster).length}種類の解答に分類しました。読み取り結果があれば文字で、なければ筆跡の類似度で分類しています。
+            </p>
+            {clusters.map(cluster => (
+                <ClusterCard key={cluster.key} cluster={cluster} searchZones={searchZones} interiorMarks={alignment?.interior?.marks} {...props} />
+            ))}
+        </div>
+    );
+};
@@ -1,9 +1,15 @@
 
 import React, { useState } from 'react';
 // Added AISettings to import
-import type { GradingFilter, Area, AISettings } from '../../types';
+import type { GradingFilter, Area, AISettings, Point, RubricCriterion } from '../../types';
 import { ScoringStatus, AreaType } from '../../types';
-import { SparklesIcon, SpinnerIcon, ChevronDownIcon, ChevronUpIcon, PaletteIcon, BoxSelectIcon, HelpCircleIcon } from '../icons';
+import { RubricEditor } from './RubricEditor';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { resolvePromptTemplate } from '../../promptTemplates';
+import { GradingJobControls } from './GradingJobControls';
+import { AIUsageSummary } from './AIUsageSummary';
+import { getMockAIMode } from '../../api/mockAI';
+import { SparklesIcon, SpinnerIcon, ChevronDownIcon, ChevronUpIcon, PaletteIcon, BoxSelectIcon, HelpCircleIcon, FileStackIcon } from '../icons';
 
 interface GradingHeaderProps {
     selectedArea: Area | undefined;
@@ -13,9 +19,9 @@ interface GradingHeaderProps {
     onStartAIGradingAll: () => void;
     isGrading: boolean;
     isGradingAll: boolean;
-    progress: { current: number; total: number; message?: string };
     filter: GradingFilter;
     onFilterChange: (filter: GradingFilter) => void;
+    reviewCount: number;
     apiKey: string;
     columnCount: number;
     onColumnCountChange: (count: number) => void;
@@ -24,10 +30,17 @@ interface GradingHeaderProps {
     onAiGradingModeChange: (mode: 'auto' | 'strict') => void;
     answerFormat: string;
     onAnswerFormatChange: (format: string) => void;
+    maxPoints: number;
+    rubric: RubricCriterion[];
+    onRubricChange: (rubric: RubricCriterion[]) => void;
+    selectedPoint: Point | undefined;
+    onPromptTemplateChange: (template: string | undefined) => void;
     isImageEnhanced: boolean;
     onToggleImageEnhancement: () => void;
     autoAlign: boolean;
     onToggleAutoAlign: () => void;
+    groupByAnswer: boolean;
+    onToggleGroupByAnswer: () => void;
     // Added aiSettings and onAiSettingsChange to fix TypeScript errors in GradingView
     aiSettings: AISettings;
     onAiSettingsChange: (updater: (prev: AISettings) => AISettings) => void;
@@ -40,6 +53,7 @@ const filterOptions: { value: GradingFilter; label: string }[] = [
     { value: ScoringStatus.CORRECT, label: '正解' },
     { value: ScoringStatus.INCORRECT, label: '不正解' },
     { value: ScoringStatus.PARTIAL, label: '部分点' },
+    { value: 'NEEDS_REVIEW', label: '要確認 (AI判定保留)' },
 ];
 
 const presetAnswerFormats = [
@@ -51,14 +65,17 @@ const presetAnswerFormats = [
 ];
 
 export const GradingHeader: React.FC<GradingHeaderProps> = ({
-    selectedArea, onStartAIGrading, onStartMarkSheetGrading, onStartMarkSheetGradingAll, onStartAIGradingAll, isGrading, isGradingAll, progress, filter, onFilterChange, apiKey,
+    selectedArea, onStartAIGrading, onStartMarkSheetGrading, onStartMarkSheetGradingAll, onStartAIGradingAll, isGrading, isGradingAll, filter, onFilterChange, reviewCount, apiKey,
     columnCount, onColumnCountChange, onBulkScore,
-    aiGradingMode, onAiGradingModeChange, answerFormat, onAnswerFormatChange,
-    isImageEnhanced, onToggleImageEnhancement, autoAlign, onToggleAutoAlign
+    aiGradingMode, onAiGradingModeChange, answerFormat, onAnswerFormatChange, maxPoints, rubric, onRubricChange, selectedPoint, onPromptTemplateChange,
+    isImageEnhanced, onToggleImageEnhancement, autoAlign, onToggleAutoAlign, groupByAnswer, onToggleGroupByAnswer, aiSettings
 }) => {
     const isAnyGrading = isGrading || isGradingAll;
+    // A local OpenAI-compatible server and the offline mock (AI settings or AI_MOCK) do not need a Gemini API key
+    const canUseAI = aiSettings?.aiProvider === 'openai-compatible' || aiSettings?.aiProvider === 'mock' || getMockAIMode() === 'replay' || !!apiKey;
     const isMarkSheet = selectedArea?.type === AreaType.MARK_SHEET;
     const [isExpanded, setIsExpanded] = useState(false);
+    const [isPromptEditorOpen, setIsPromptEditorOpen] = useState(false);
 
     return (
         <div className="flex-shrink-0 flex flex-col gap-2 p-2 sm:p-3 bg-white dark:bg-slate-800 rounded-lg shadow">
@@ -76,7 +93,7 @@ export const GradingHeader: React.FC<GradingHeaderProps> = ({
                     ) : (
                          <button
                             onClick={onStartAIGrading}
-                            disabled={!selectedArea || isAnyGrading || !apiKey}
+                            disabled={!selectedArea || isAnyGrading || !canUseAI}
                             className="flex items-center justify-center gap-1 sm:gap-2 px-2 py-1.5 sm:px-3 sm:py-2 text-xs sm:text-sm bg-sky-600 text-white rounded-md hover:bg-sky-500 disabled:bg-slate-400 transition-colors"
                         >
                             {isGrading ? <SpinnerIcon className="w-3 h-3 sm:w-4 sm:h-4" /> : <SparklesIcon className="w-3 h-3 sm:w-4 sm:h-4" />}
@@ -98,7 +115,7 @@ export const GradingHeader: React.FC<GradingHeaderProps> = ({
 
                     <button
                         onClick={onStartAIGradingAll}
-                        disabled={isAnyGrading || !apiKey}
+                        disabled={isAnyGrading || !canUseAI}
                         className="flex items-center justify-center gap-1 sm:gap-2 px-2 py-1.5 sm:px-3 sm:py-2 text-xs sm:text-sm bg-purple-600 text-white rounded-md hover:bg-purple-500 disabled:bg-slate-400 transition-colors"
                     >
                         {isGradingAll ? <SpinnerIcon className="w-3 h-3 sm:w-4 sm:h-4" /> : <SparklesIcon className="w-3 h-3 sm:w-4 sm:h-4" />}
@@ -106,17 +123,18 @@ export const GradingHeader: React.FC<GradingHeaderProps> = ({
                         <span className="xs:hidden">{isGradingAll ? '...' : '全AI'}</span>
                     </button>
 
-                    {isAnyGrading && progress.total > 0 && (
-                        <div className="flex items-center gap-2">
-                             <div className="flex flex-col text-[10px] sm:text-xs text-slate-500 dark:text-slate-400 w-24 sm:w-48">
-                                <span className="truncate">{progress.message || '進捗'}</span>
-                                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-1 sm:h-2 mt-1">
-                                    <div className="bg-sky-500 h-1 sm:h-2 rounded-full" style={{ width: `${(progress.current / progress.total) * 100}%` }}></div>
-                                </div>
-                            </div>
-                            <span className="text-[10px] sm:text-xs text-slate-500 dark:text-slate-400">{progress.current}/{progress.total}</span>
-                        </div>
+                    {reviewCount > 0 && (
+                        <button
+                            onClick={() => onFilterChange(filter === 'NEEDS_REVIEW' ? 'ALL' : 'NEEDS_REVIEW')}
+                            className={`flex items-center gap-1 px-2 py-1.5 sm:px-3 sm:py-2 text-xs sm:text-sm rounded-md transition-colors ${filter === 'NEEDS_REVIEW' ? 'bg-amber-500 text-white hover:bg-amber-400' : 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300 hover:bg-amber-200'}`}
+                            title="AIが判定を保留した解答だけを表示します"
+                        >
+                            要確認 {reviewCount}件
+                        </button>
                     )}
+
+                    <GradingJobControls />
+                    <AIUsageSummary areaId={selectedArea?.id} />
                  </div>
 
                 <div className="flex items-center gap-1 sm:gap-4">
@@ -128,6 +146,17 @@ export const GradingHeader: React.FC<GradingHeaderProps> = ({
                         <BoxSelectIcon className="w-3 h-3 sm:w-4 sm:h-4" />
                         <span className="hidden xs:inline">位置補正 {autoAlign ? 'ON' : 'OFF'}</span>
                     </button>
+                    {!isMarkSheet && (
+                        <button 
+                            onClick={onToggleGroupByAnswer}
+                            disabled={!selectedArea || isAnyGrading}
+                            className={`flex items-center gap-1 px-2 py-1 sm:px-3 sm:py-1.5 text-[10px] sm:text-xs rounded-md transition-colors disabled:opacity-50 ${groupByAnswer ? 'bg-emerald-600 text-white hover:bg-emerald-500' : 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600'}`}
+                            title="同じ解答をまとめて表示し、一括で採点します"
+                        >
+                            <FileStackIcon className="w-3 h-3 sm:w-4 sm:h-4" />
+                            <span className="hidden xs:inline">解答でグループ化</span>
+                        </button>
+                    )}
                     <button 
                         onClick={onToggleImageEnhancement}
                         className={`flex items-center gap-1 px-2 py-1 sm:px-3 sm:py-1.5 text-[10px] sm:text-xs rounded-md transition-colors ${isImageEnhanced ? 'bg-indigo-600 text-white hover:bg-indigo-500' : 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600'}`}
@@ -197,6 +226,21 @@ export const GradingHeader: React.FC<GradingHeaderProps> = ({
                                     </div>
                                 )}
                             </div>
+                            <div className="mt-3">
+                                <RubricEditor rubric={rubric} maxPoints={maxPoints} onChange={onRubricChange} disabled={!selectedArea || isAnyGrading} />
+                            </div>
+                            <div className="mt-3 flex items-center gap-2">
+                                <button
+                                    onClick={() => setIsPromptEditorOpen(true)}
+                                    disabled={!selectedPoint || isAnyGrading}
+                                    className="px-2 py-1 text-xs bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 rounded disabled:opacity-50"
+                                >
+                                    採点ルール (プロンプト) を編集
+                                </button>
+                                <span className="text-xs text-slate-500 dark:text-slate-400">
+                                    {selectedPoint?.promptTemplate ? 'この問題専用のルールを使用中' : 'テスト全体のルールを使用中'}
+                                </span>
+                            </div>
                         </div>
                     )}
                     <div className="flex justify-between items-center">
@@ -222,6 +266,24 @@ export const GradingHeader: React.FC<GradingHeaderProps> = ({
                     </div>
                 </div>
             )}
+            {isPromptEditorOpen && selectedPoint && (
+                <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4" onClick={() => setIsPromptEditorOpen(false)}>
+                    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                        <h3 className="text-lg font-semibold">採点ルール (プロンプト): {selectedPoint.label}</h3>
+                        <PromptTemplateEditor
+                            template={selectedPoint.promptTemplate}
+                            onChange={onPromptTemplateChange}
+                            inheritedTemplate={resolvePromptTemplate(undefined, aiSettings)}
+                            inheritedLabel="テスト全体のルール"
+                            previewPoint={selectedPoint}
+                            aiSettings={aiSettings}
+                        />
+                        <div className="flex justify-end">
+                            <button onClick={() => setIsPromptEditorOpen(false)} className="px-4 py-2 text-sm bg-slate-200 dark:bg-slate-700 rounded-md hover:bg-slate-300 dark:hover:bg-slate-600">閉じる</button>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { GradingBatchKind } from '../../types';
+import { useProject } from '../../context/ProjectContext';
+import { useGradingJobs } from '../../context/GradingJobContext';
+import { AlertCircleIcon, RotateCcwIcon, XIcon } from '../icons';
+
+const kindLabels: Record<GradingBatchKind, string> = {
+    'mark-sheet': 'マーク読み取り',
+    transcribe: '文字起こし',
+    grade: 'AI採点',
+    'grade-student': 'AI採点 (生徒ごと)',
+};
+
+export const GradingJobControls: React.FC = () => {
+    const { studentsWithInfo, activeProject } = useProject();
+    const { job, progress, failures, pauseJob, resumeJob, cancelJob, retryFailed, dismissJob } = useGradingJobs();
+    const [isFailureListOpen, setIsFailureListOpen] = useState(false);
+    if (!job || progress.total === 0) return null;
+
+    const isRunning = job.status === 'running';
+    const isPaused = job.status === 'paused';
+    const studentLabel = (studentId: string) => {
+        const student = studentsWithInfo.find(s => s.id === studentId);
+        return student ? `${student.class}-${student.number} ${student.name}` : studentId;
+    };
+    const questionLabel = (areaId: number) => activeProject?.points.find(p => p.id === areaId)?.label ?? '';
+
+    const buttonClass = 'px-2 py-1 text-[10px] sm:text-xs rounded-md transition-colors';
+
+    return (
+        <div className="flex items-center gap-2">
+            <div className="flex flex-col text-[10px] sm:text-xs text-slate-500 dark:text-slate-400 w-24 sm:w-48">
+                <span className="truncate">{progress.message || '進捗'}</span>
+                <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-1 sm:h-2 mt-1">
+                    <div className={`${isPaused ? 'bg-slate-400' : 'bg-sky-500'} h-1 sm:h-2 rounded-full`} style={{ width: `${(progress.current / progress.total) * 100}%` }}></div>
+                </div>
+            </div>
+            <span className="text-[10px] sm:text-xs text-slate-500 dark:text-slate-400">{progress.current}/{progress.total}</span>
+            {isRunning && (
+                <button onClick={pauseJob} className={`${buttonClass} bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600`} title="実行中のバッチが終わったところで止めます">一時停止</button>
+            )}
+            {isPaused && (
+                <button onClick={resumeJob} className={`${buttonClass} bg-sky-600 text-white hover:bg-sky-500`}>再開</button>
+            )}
+            {(isRunning || isPaused) && (
+                <button
+                    onClick={() => { if (window.confirm('採点を中止しますか？採点済みの結果はそのまま残ります。')) cancelJob(); }}
+                    className={`${buttonClass} bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300 hover:bg-red-200`}
+                >
+                    中止
+                </button>
+            )}
+            {failures.length > 0 && (
+                <>
+                    <button onClick={() => setIsFailureListOpen(true)} className={`${buttonClass} flex items-center gap-1 bg-red-600 text-white hover:bg-red-500`}>
+                        <AlertCircleIcon className="w-3 h-3" /> 失敗 {failures.length}件
+                    </button>
+                    {!isRunning && (
+                        <button onClick={retryFailed} className={`${buttonClass} flex items-center gap-1 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600`}>
+                            <RotateCcwIcon className="w-3 h-3" /> 失敗をやり直す
+                        </button>
+                    )}
+                </>
+            )}
+            {job.status === 'completed' && (
+                <button onClick={dismissJob} className="p-1 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700" title="閉じる"><XIcon className="w-4 h-4" /></button>
+            )}
+            {isFailureListOpen && (
+                <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4" onClick={() => setIsFailureListOpen(false)}>
+                    <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl p-6 space-y-4" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-semibold">採点できなかった解答 ({failures.length}件)</h3>
+                            <button onClick={() => setIsFailureListOpen(false)} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700"><XIcon className="w-5 h-5" /></button>
+                        </div>
+                        <div className="max-h-96 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-100 dark:bg-slate-900 text-xs text-slate-500 dark:text-slate-400 sticky top-0">
+                                    <tr>
+                                        <th className="p-2 text-left">生徒</th>
+                                        <th className="p-2 text-left">問題</th>
+                                        <th className="p-2 text-left">処理</th>
+                                        <th className="p-2 text-left">エラー</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {failures.map(failure => (
+                                        <tr key={`${failure.areaId}-${failure.kind}-${failure.studentId}`} className="border-t border-slate-100 dark:border-slate-700">
+                                            <td className="p-2 whitespace-nowrap">{studentLabel(failure.studentId)}</td>
+                                            <td className="p-2 whitespace-nowrap">{questionLabel(failure.areaId)}</td>
+                                            <td className="p-2 whitespace-nowrap">{kindLabels[failure.kind]}</td>
+                                            <td className="p-2 text-xs text-red-600 dark:text-red-400 break-all">{failure.error}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            {!isRunning && (
+                                <button onClick={() => { retryFailed(); setIsFailureListOpen(false); }} className="px-4 py-2 text-sm bg-sky-600 text-white rounded-md hover:bg-sky-500">失敗をやり直す</button>
+                            )}
+                            <button onClick={() => setIsFailureListOpen(false)} className="px-4 py-2 text-sm bg-slate-200 dark:bg-slate-700 rounded-md hover:bg-slate-300 dark:hover:bg-slate-600">閉じる</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
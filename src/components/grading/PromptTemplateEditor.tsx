@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { AISettings, Point } from '../../types';
+import { PROMPT_PRESETS, PROMPT_VARIABLES } from '../../promptTemplates';
+import { buildBatchGradingRequest, buildStudentGradingRequest, formatPromptPreview } from '../../api/gemini';
+import { hasAnswerKey } from '../../answerKey';
+
+interface PromptTemplateEditorProps {
+    // Undefined when the inherited rules apply
+    template: string | undefined;
+    onChange: (template: string | undefined) => void;
+    inheritedTemplate: string;
+    inheritedLabel: string;
+    // Question the preview is built for; its own template, if any, is what the preview shows
+    previewPoint: Point | undefined;
+    aiSettings: AISettings;
+    disabled?: boolean;
+}
+
+// Images are not part of the preview; any non-empty value stands in for them
+const PLACEHOLDER_IMAGE = '-';
+
+const buildPreview = (point: Point, aiSettings: AISettings) => {
+    const masterSnippet = point.omitMasterSnippet && hasAnswerKey(point) ? null : PLACEHOLDER_IMAGE;
+    if (aiSettings.gradingStrategy === 'per-student') {
+        return formatPromptPreview(buildStudentGradingRequest([
+            { point, base64: PLACEHOLDER_IMAGE, masterSnippet, aiGradingMode: point.aiGradingMode, answerFormat: point.answerFormat },
+        ], aiSettings));
+    }
+    const students = [1, 2].map(n => ({ studentId: `(生徒${n}のID)`, base64: PLACEHOLDER_IMAGE }));
+    return formatPromptPreview(buildBatchGradingRequest(masterSnippet, students, point, point.aiGradingMode, point.answerFormat, aiSettings));
+};
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({
+    template, onChange, inheritedTemplate, inheritedLabel, previewPoint, aiSettings, disabled
+}) => {
+    const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+    const isOverridden = template !== undefined;
+
+    const handlePresetSelect = (presetId: string) => {
+        const preset = PROMPT_PRESETS.find(p => p.id === presetId);
+        if (!preset) return;
+        if (template?.trim() && template !== preset.template && !window.confirm('入力中の採点ルールをプリセットで置き換えますか？')) return;
+        onChange(preset.template);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value=""
+                    onChange={(e) => handlePresetSelect(e.target.value)}
+                    disabled={disabled}
+                    className="p-1.5 text-xs bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded disabled:opacity-50"
+                >
+                    <option value="" disabled>プリセットを読み込む…</option>
+                    {PROMPT_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                </select>
+                {!isOverridden ? (
+                    <button
+                        onClick={() => onChange(inheritedTemplate)}
+                        disabled={disabled}
+                        className="px-2 py-1 text-xs bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 rounded disabled:opacity-50"
+                    >
+                        {inheritedLabel}をもとに編集
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => onChange(undefined)}
+                        disabled={disabled}
+                        className="px-2 py-1 text-xs bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 rounded disabled:opacity-50"
+                    >
+                        {inheritedLabel}に戻す
+                    </button>
+                )}
+            </div>
+            <textarea
+                value={template ?? ''}
+                onChange={(e) => onChange(e.target.value.trim() ? e.target.value : undefined)}
+                placeholder={`${inheritedLabel}を使用中:\n\n${inheritedTemplate}`}
+                rows={8}
+                disabled={disabled}
+                className="w-full p-2 text-xs font-mono bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md disabled:opacity-50"
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+                使える変数: {PROMPT_VARIABLES.map(v => (
+                    <span key={v.name} className="inline-block mr-2" title={v.description}>
+                        <code className="px-1 bg-slate-100 dark:bg-slate-700 rounded">{`{${v.name}}`}</code> {v.description}
+                    </span>
+                ))}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+                結果の形式 (正解・不正解・部分点の付け方、確信度、要確認) の指示は常に自動で追加されます。
+            </p>
+            {previewPoint && (
+                <div>
+                    <button onClick={() => setIsPreviewOpen(!isPreviewOpen)} className="text-xs text-sky-600 dark:text-sky-400 hover:underline">
+                        {isPreviewOpen ? 'プレビューを閉じる' : `送信されるプロンプトを確認 (${previewPoint.label})`}
+                    </button>
+                    {isPreviewOpen && (
+                        <pre className="mt-1 max-h-80 overflow-y-auto p-2 text-xs whitespace-pre-wrap bg-slate-100 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-md">
+                            {buildPreview(previewPoint, aiSettings)}
+                        </pre>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
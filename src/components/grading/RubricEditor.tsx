@@ -0,0 +1,73 @@
+import React from 'react';
+import type { RubricCriterion } from '../../types';
+import { PlusIcon, Trash2Icon } from '../icons';
+
+interface RubricEditorProps {
+    rubric: RubricCriterion[];
+    maxPoints: number;
+    onChange: (rubric: RubricCriterion[]) => void;
+    disabled?: boolean;
+}
+
+const createCriterionId = () => `c${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, maxPoints, onChange, disabled }) => {
+    const total = rubric.reduce((sum, criterion) => sum + (criterion.points || 0), 0);
+
+    const updateCriterion = (id: string, changes: Partial<RubricCriterion>) => {
+        onChange(rubric.map(criterion => criterion.id === id ? { ...criterion, ...changes } : criterion));
+    };
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between">
+                <label className="text-xs text-slate-600 dark:text-slate-400">採点基準 (ルーブリック)</label>
+                {rubric.length > 0 && (
+                    <span className={`text-xs ${total === maxPoints ? 'text-slate-500 dark:text-slate-400' : 'text-orange-600 dark:text-orange-400 font-semibold'}`}>
+                        合計 {total}点 / 満点 {maxPoints}点
+                    </span>
+                )}
+            </div>
+            {rubric.map(criterion => (
+                <div key={criterion.id} className="flex items-center gap-1">
+                    <input
+                        type="text"
+                        value={criterion.description}
+                        onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                        placeholder="例: 主語が明記されている"
+                        className="flex-1 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded p-1.5 text-xs"
+                        disabled={disabled}
+                    />
+                    <input
+                        type="number"
+                        min="0"
+                        value={criterion.points}
+                        onChange={(e) => updateCriterion(criterion.id, { points: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                        className="w-14 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded p-1.5 text-xs text-right"
+                        disabled={disabled}
+                    />
+                    <span className="text-xs text-slate-500">点</span>
+                    <button
+                        onClick={() => onChange(rubric.filter(c => c.id !== criterion.id))}
+                        disabled={disabled}
+                        className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-50"
+                        title="観点を削除"
+                    >
+                        <Trash2Icon className="w-4 h-4" />
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={() => onChange([...rubric, { id: createCriterionId(), description: '', points: 1 }])}
+                disabled={disabled}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500 rounded disabled:opacity-50"
+            >
+                <PlusIcon className="w-3 h-3" />
+                観点を追加
+            </button>
+            {rubric.length > 0 && total !== maxPoints && (
+                <p className="text-[10px] text-orange-600 dark:text-orange-400">観点の配点の合計が満点と一致していません。得点は満点を上限として計算されます。</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { ScoreAuditEntry } from '../../types';
+import { scoreSourceLabels, scoringStatusLabels } from '../../scoreAudit';
+import { XIcon } from '../icons';
+
+const formatResult = (status: ScoreAuditEntry['newStatus'], score: number | null) =>
+    `${scoringStatusLabels[status] ?? status}${score === null ? '' : ` (${score}点)`}`;
+
+export const ScoreAuditModal = ({ entries, studentName, questionLabel, onClose }: {
+    entries: ScoreAuditEntry[];
+    studentName: string;
+    questionLabel: string;
+    onClose: () => void;
+}) => (
+    <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4" onClick={onClose}>
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl p-6 space-y-4" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">採点の変更履歴: {questionLabel} / {studentName}</h3>
+                <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700"><XIcon className="w-5 h-5" /></button>
+            </div>
+            {entries.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">この解答の採点はまだ変更されていません。</p>
+            ) : (
+                <div className="max-h-96 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-100 dark:bg-slate-900 text-xs text-slate-500 dark:text-slate-400 sticky top-0">
+                            <tr>
+                                <th className="px-3 py-2 text-left">日時</th>
+                                <th className="px-3 py-2 text-left">変更前</th>
+                                <th className="px-3 py-2 text-left">変更後</th>
+                                <th className="px-3 py-2 text-left">変更元</th>
+                                <th className="px-3 py-2 text-left">採点者</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                            {[...entries].reverse().map((entry, index) => (
+                                <tr key={`${entry.timestamp}-${index}`}>
+                                    <td className="px-3 py-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                    <td className="px-3 py-2">{formatResult(entry.previousStatus, entry.previousScore)}</td>
+                                    <td className="px-3 py-2 font-semibold">{formatResult(entry.newStatus, entry.newScore)}</td>
+                                    <td className="px-3 py-2">
+                                        {scoreSourceLabels[entry.source] ?? entry.source}
+                                        {entry.model && <span className="block text-xs text-slate-500 dark:text-slate-400">{entry.model}</span>}
+                                    </td>
+                                    <td className="px-3 py-2">{entry.grader || '-'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    </div>
+);
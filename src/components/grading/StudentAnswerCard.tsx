@@ -4,7 +4,8 @@ import type { Student, Area, Point, ScoreData, Template, AISettings } from '../.
 import { ScoringStatus, AreaType } from '../../types';
 import { AnswerSnippet } from '../AnswerSnippet';
 import { AnnotationOverlay } from '../AnnotationOverlay';
-import { CircleCheckIcon, XIcon as XCircleIcon, TriangleIcon, SpinnerIcon, PencilIcon } from '../icons';
+import { CircleCheckIcon, XIcon as XCircleIcon, TriangleIcon, SpinnerIcon, PencilIcon, ListIcon } from '../icons';
+import { describeMathAnswer } from '../../mathAnswer';
 
 interface MarkSheetOverlayProps {
     area: Area;
@@ -77,6 +78,88 @@ const MarkSheetOverlay: React.FC<MarkSheetOverlayProps> = ({ area, point, scoreD
     );
 };
 
+const RubricBreakdown: React.FC<{ point: Point; scoreData?: ScoreData; compact?: boolean }> = ({ point, scoreData, compact }) => {
+    const awards = scoreData?.rubricAwards;
+    if (!awards || !point.rubric?.length) return null;
+    return (
+        <ul className={`px-1.5 py-0.5 bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700 rounded text-[10px] text-slate-600 dark:text-slate-300 ${compact ? '' : 'mt-1 max-w-xl'}`}>
+            {point.rubric.map(criterion => {
+                const awarded = awards[criterion.id];
+                return (
+                    <li key={criterion.id} className="flex justify-between gap-2" title={criterion.description}>
+                        <span className="truncate">{criterion.description}</span>
+                        <span className={`flex-shrink-0 font-semibold ${awarded === criterion.points ? 'text-green-600 dark:text-green-400' : awarded ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-500'}`}>
+                            {awarded ?? '-'}/{criterion.points}
+                        </span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+// Editable transcription; the change is committed on blur or Enter so each correction is one edit.
+// With math grading, the value read from it is shown alongside.
+const TranscriptionField: React.FC<{ value: string; onCommit: (value: string) => void; point: Point }> = ({ value, onCommit, point }) => {
+    const [text, setText] = React.useState(value);
+    const mathValue = point.mathGrading && value.trim() ? describeMathAnswer(point, value) : undefined;
+
+    React.useEffect(() => setText(value), [value]);
+
+    const commit = () => {
+        if (text !== value) onCommit(text);
+    };
+
+    const input = (
+        <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                if (e.key === 'Escape') { setText(value); (e.target as HTMLInputElement).blur(); }
+            }}
+            onClick={(e) => e.stopPropagation()}
+            placeholder="(読み取りなし)"
+            title="読み取り結果 (修正すると解答キーと再照合します)"
+            className="w-full px-1.5 py-0.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded text-xs font-mono"
+        />
+    );
+    if (mathValue === undefined) return input;
+    return (
+        <div className="flex items-center gap-1">
+            {input}
+            <span
+                className={`flex-shrink-0 text-[10px] font-mono ${mathValue === null ? 'text-orange-600 dark:text-orange-400' : 'text-slate-500 dark:text-slate-400'}`}
+                title={mathValue === null ? '数値・数式として読み取れません' : '数値・数式として読み取った値'}
+            >
+                {mathValue === null ? '(読めません)' : `= ${mathValue}`}
+            </span>
+        </div>
+    );
+};
+
+const AISuggestion: React.FC<{ scoreData?: ScoreData; onAccept: (status: ScoringStatus, score: number) => void; compact?: boolean }> = ({ scoreData, onAccept, compact }) => {
+    const suggestion = scoreData?.aiSuggestion;
+    if (!suggestion || (scoreData.status || ScoringStatus.UNSCORED) !== ScoringStatus.UNSCORED) return null;
+    const statusLabel = suggestion.status === ScoringStatus.CORRECT ? '正解' : suggestion.status === ScoringStatus.INCORRECT ? '不正解' : '部分点';
+    return (
+        <div className={`flex items-center justify-between gap-2 px-1.5 py-0.5 ${compact ? '' : 'mt-1 max-w-xl'} bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded text-[10px] text-amber-800 dark:text-amber-300`}>
+            <span>
+                要確認: AIの提案は{statusLabel} ({suggestion.score}点)
+                {scoreData.aiConfidence !== undefined && ` / 確信度 ${Math.round(scoreData.aiConfidence * 100)}%`}
+            </span>
+            <button
+                onClick={(e) => { e.stopPropagation(); onAccept(suggestion.status, suggestion.score); }}
+                className="flex-shrink-0 px-1.5 py-0.5 rounded bg-amber-200 dark:bg-amber-800 hover:bg-amber-300 dark:hover:bg-amber-700 font-semibold"
+            >
+                採用
+            </button>
+        </div>
+    );
+};
+
 interface StudentAnswerCardProps {
     student: Student & { class: string; number: string; name: string };
     template: Template;
@@ -87,6 +170,8 @@ interface StudentAnswerCardProps {
     onScoreChange: (studentId: string, areaId: number, newScoreData: Partial<ScoreData>) => void;
     onStartAnnotation: (studentId: string, areaId: number) => void;
     onPanCommit: (studentId: string, areaId: number, offset: { x: number, y: number }) => void;
+    onShowAuditLog: (studentId: string, areaId: number) => void;
+    onTranscriptionChange: (studentId: string, areaId: number, transcription: string) => void;
     status?: 'pending' | 'grading' | 'done' | 'error';
     isFocused: boolean;
     onFocus: (studentId: string) => void;
@@ -98,7 +183,7 @@ interface StudentAnswerCardProps {
 }
 
 export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
-    student, template, area, areas, point, scoreData, onScoreChange, onStartAnnotation, onPanCommit, status,
+    student, template, area, areas, point, scoreData, onScoreChange, onStartAnnotation, onPanCommit, onShowAuditLog, onTranscriptionChange, status,
     isFocused, onFocus, partialScoreInput, isImageEnhanced, autoAlign, renderMode = 'grid'
 }) => {
     const currentStatus = scoreData?.status || ScoringStatus.UNSCORED;
@@ -123,6 +208,8 @@ export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
         };
     }, [areas, pageIndex]);
 
+    const interiorMarks = React.useMemo(() => areas?.filter(a => a.type === AreaType.INTERIOR_MARK && (a.pageIndex || 0) === pageIndex), [areas, pageIndex]);
+
     const handleStatusChange = (newStatus: ScoringStatus) => {
         if (!hasImage) return;
         let newScore: number | null = null;
@@ -160,6 +247,7 @@ export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
                     <div className="flex flex-col">
                         <span className="text-[10px] text-slate-500 font-medium">{student.class}-{student.number}</span>
                         <span className="text-xs font-bold text-slate-900 dark:text-slate-100 truncate max-w-[150px]">{student.name}</span>
+                        {status === 'error' && <span className="text-[10px] text-red-600 dark:text-red-400 font-semibold">採点失敗</span>}
                     </div>
                 </td>
                 <td className="p-3 align-top">
@@ -182,6 +270,7 @@ export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
                             useAlignment={autoAlign}
                             alignmentSettings={template.alignmentDetectionSettings}
                             searchZones={searchZones}
+                            interiorMarks={interiorMarks}
                             manualCorners={student.manualAlignmentCorners?.[pageIndex]}
                         >
                             <AnnotationOverlay annotations={scoreData?.annotations || []} />
@@ -193,6 +282,13 @@ export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
                             AI: {scoreData.aiComment}
                         </div>
                     )}
+                    <RubricBreakdown point={point} scoreData={scoreData} />
+                    <AISuggestion scoreData={scoreData} onAccept={(status, score) => onScoreChange(student.id, area.id, { status, score })} compact />
+                    {scoreData?.transcription !== undefined && (
+                        <div className="mt-1 max-w-xl">
+                            <TranscriptionField value={scoreData.transcription} point={point} onCommit={(text) => onTranscriptionChange(student.id, area.id, text)} />
+                        </div>
+                    )}
                 </td>
                 <td className="p-3 align-top text-center">
                     <div className="flex flex-col items-center gap-1">
@@ -226,6 +322,7 @@ export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
                         <button disabled={!hasImage} onClick={(e) => { e.stopPropagation(); handleStatusChange(ScoringStatus.PARTIAL); }} title="部分点" className={`p-1.5 rounded-full transition-colors ${!hasImage ? 'opacity-30 cursor-not-allowed text-slate-400' : currentStatus === ScoringStatus.PARTIAL ? 'bg-yellow-100 text-yellow-600 dark:bg-yellow-900/50 dark:text-yellow-400' : 'text-slate-400 hover:bg-yellow-100 dark:hover:bg-yellow-900/50'}`}><TriangleIcon className="w-5 h-5" /></button>
                         <div className="w-px h-4 bg-slate-200 dark:bg-slate-700 mx-1"></div>
                         <button disabled={!hasImage} onClick={(e) => { e.stopPropagation(); onStartAnnotation(student.id, area.id); }} title="添削" className={`p-1.5 rounded-full transition-colors ${!hasImage ? 'opacity-30 cursor-not-allowed text-slate-400' : 'text-slate-400 hover:bg-sky-100 dark:hover:bg-sky-900/50'}`}><PencilIcon className="w-5 h-5"/></button>
+                        <button onClick={(e) => { e.stopPropagation(); onShowAuditLog(student.id, area.id); }} title="採点の変更履歴" className="p-1.5 rounded-full transition-colors text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700"><ListIcon className="w-5 h-5"/></button>
                     </div>
                 </td>
             </tr>
@@ -236,7 +333,10 @@ export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
          <div id={`student-card-${student.id}`} onClick={() => onFocus(student.id)} className={`bg-white dark:bg-slate-800 rounded-lg shadow-sm border ${isFocused ? 'border-sky-500 ring-2 ring-sky-500' : 'border-slate-200 dark:border-slate-700'} p-2 space-y-2 relative transition-all`}>
             {status === 'grading' && <div className="absolute inset-0 bg-sky-500/10 flex items-center justify-center rounded-lg z-10"><SpinnerIcon className="w-6 h-6 text-sky-500" /></div>}
             <div className="flex justify-between items-center">
-                <h5 className="font-semibold text-xs truncate">{student.class}-{student.number} {student.name}</h5>
+                <h5 className="font-semibold text-xs truncate">
+                    {student.class}-{student.number} {student.name}
+                    {status === 'error' && <span className="ml-1 text-[10px] text-red-600 dark:text-red-400">採点失敗</span>}
+                </h5>
                 <div className="flex items-center gap-1">
                     {currentStatus === ScoringStatus.PARTIAL && hasImage ? (
                         <div className="flex items-center">
@@ -262,6 +362,7 @@ export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
                     useAlignment={autoAlign}
                     alignmentSettings={template.alignmentDetectionSettings}
                     searchZones={searchZones}
+                    interiorMarks={interiorMarks}
                     manualCorners={student.manualAlignmentCorners?.[pageIndex]}
                 >
                     <AnnotationOverlay annotations={scoreData?.annotations || []} />
@@ -273,12 +374,18 @@ export const StudentAnswerCard: React.FC<StudentAnswerCardProps> = ({
                     AI: {scoreData.aiComment}
                 </div>
             )}
+            <RubricBreakdown point={point} scoreData={scoreData} compact />
+            <AISuggestion scoreData={scoreData} onAccept={(status, score) => onScoreChange(student.id, area.id, { status, score })} />
+            {scoreData?.transcription !== undefined && (
+                <TranscriptionField value={scoreData.transcription} point={point} onCommit={(text) => onTranscriptionChange(student.id, area.id, text)} />
+            )}
             <div className="flex items-center justify-around gap-1">
                 <button disabled={!hasImage} onClick={(e) => { e.stopPropagation(); handleStatusChange(ScoringStatus.CORRECT); }} title="正解 (J)" className={`p-1 rounded-full transition-colors ${!hasImage ? 'opacity-30 cursor-not-allowed text-slate-400' : currentStatus === ScoringStatus.CORRECT ? 'bg-green-100 text-green-600 dark:bg-green-900/50 dark:text-green-400' : 'text-slate-400 hover:bg-green-100 dark:hover:bg-green-900/50'}`}><CircleCheckIcon className="w-5 h-5" /></button>
                 <button disabled={!hasImage} onClick={(e) => { e.stopPropagation(); handleStatusChange(ScoringStatus.INCORRECT); }} title="不正解 (F)" className={`p-1 rounded-full transition-colors ${!hasImage ? 'opacity-30 cursor-not-allowed text-slate-400' : currentStatus === ScoringStatus.INCORRECT ? 'bg-red-100 text-red-600 dark:bg-red-900/50 dark:text-red-400' : 'text-slate-400 hover:bg-red-100 dark:hover:bg-red-900/50'}`}><XCircleIcon className="w-5 h-5" /></button>
                 <button disabled={!hasImage} onClick={(e) => { e.stopPropagation(); handleStatusChange(ScoringStatus.PARTIAL); }} title="部分点" className={`p-1 rounded-full transition-colors ${!hasImage ? 'opacity-30 cursor-not-allowed text-slate-400' : currentStatus === ScoringStatus.PARTIAL ? 'bg-yellow-100 text-yellow-600 dark:bg-yellow-900/50 dark:text-yellow-400' : 'text-slate-400 hover:bg-yellow-100 dark:hover:bg-yellow-900/50'}`}><TriangleIcon className="w-5 h-5" /></button>
                 <div className="border-l h-5 border-slate-200 dark:border-slate-600 mx-1"></div>
                 <button disabled={!hasImage} onClick={(e) => { e.stopPropagation(); onStartAnnotation(student.id, area.id); }} title="添削" className={`p-1 rounded-full transition-colors ${!hasImage ? 'opacity-30 cursor-not-allowed text-slate-400' : 'text-slate-400 hover:bg-sky-100 dark:hover:bg-sky-900/50'}`}><PencilIcon className="w-5 h-5"/></button>
+                <button onClick={(e) => { e.stopPropagation(); onShowAuditLog(student.id, area.id); }} title="採点の変更履歴" className="p-1 rounded-full transition-colors text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700"><ListIcon className="w-5 h-5"/></button>
             </div>
         </div>
     );
@@ -14,6 +14,8 @@ interface StudentAnswerGridProps {
     onScoreChange: (studentId: string, areaId: number, newScoreData: Partial<ScoreData>) => void;
     onStartAnnotation: (studentId: string, areaId: number) => void;
     onPanCommit: (studentId: string, areaId: number, offset: { x: number, y: number }) => void;
+    onShowAuditLog: (studentId: string, areaId: number) => void;
+    onTranscriptionChange: (studentId: string, areaId: number, transcription: string) => void;
     gradingStatus: { [studentId: string]: { [areaId: number]: 'pending' | 'grading' | 'error' | 'done' } };
     columnCount: number;
     focusedStudentId: string | null;
@@ -26,7 +28,7 @@ interface StudentAnswerGridProps {
 }
 
 export const StudentAnswerGrid: React.FC<StudentAnswerGridProps> = ({
-    students, selectedAreaId, template, areas, points, scores, onScoreChange, onStartAnnotation, onPanCommit, gradingStatus,
+    students, selectedAreaId, template, areas, points, scores, onScoreChange, onStartAnnotation, onPanCommit, onShowAuditLog, onTranscriptionChange, gradingStatus,
     columnCount, focusedStudentId, onStudentFocus, partialScoreInput, correctedImages, isImageEnhanced, autoAlign,
     aiSettings
 }) => {
@@ -127,6 +129,8 @@ export const StudentAnswerGrid: React.FC<StudentAnswerGridProps> = ({
                                         onScoreChange={onScoreChange}
                                         onStartAnnotation={onStartAnnotation}
                                         onPanCommit={onPanCommit}
+                                        onShowAuditLog={onShowAuditLog}
+                                        onTranscriptionChange={onTranscriptionChange}
                                         status={gradingStatus[student.id]?.[selectedAreaId]}
                                         isFocused={focusedStudentId === student.id}
                                         onFocus={onStudentFocus}
@@ -179,6 +183,8 @@ export const StudentAnswerGrid: React.FC<StudentAnswerGridProps> = ({
                                     onScoreChange={onScoreChange}
                                     onStartAnnotation={onStartAnnotation}
                                     onPanCommit={onPanCommit}
+                                    onShowAuditLog={onShowAuditLog}
+                                    onTranscriptionChange={onTranscriptionChange}
                                     status={gradingStatus[student.id]?.[selectedAreaId]}
                                     isFocused={focusedStudentId === student.id}
                                     onFocus={onStudentFocus}
@@ -79,6 +79,7 @@ export const WavesIcon = createIcon(<><path d="M2 6c.6.5 1.2 1 2.5 1 2.5 0 2.5-2
 export const PaletteIcon = createIcon(<><circle cx="12" cy="12" r="10"/><path d="M12 2a7 7 0 1 0 10 10"/><path d="M12 2A10 10 0 1 0 2 12"/></>);
 export const PencilIcon = createIcon(<path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z"/>);
 export const RotateCcwIcon = createIcon(<><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/></>);
+export const RotateCwIcon = createIcon(<><path d="M21 12a9 9 0 1 1-9-9c2.52 0 4.93 1 6.74 2.74L21 8"/><path d="M21 3v5h-5"/></>);
 export const ChevronDownIcon = createIcon(<path d="m6 9 6 6 6-6"/>);
 export const ChevronUpIcon = createIcon(<path d="m18 15-6-6-6 6"/>);
 export const HashIcon = createIcon(<><line x1="4" x2="20" y1="9" y2="9"/><line x1="4" x2="20" y1="15" y2="15"/><line x1="10" x2="8" y1="3" y2="21"/><line x1="16" x2="14" y1="3" y2="21"/></>);
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import type { StudentResult, Template, Area, Point, AllScores, LayoutSettings, Annotation, TextAnnotation, AISettings, Corners } from '../../types';
 import { AreaType, ScoringStatus } from '../../types';
-import { detectAndWarpCrop, loadImage } from '../../utils';
+import { getAlignmentContext, getPageAlignment, getPageWarp, loadImage, warpArea } from '../../utils';
 import { SpinnerIcon } from '../icons';
 
 // Shared global cache to prevent redundant loads during print generation
@@ -47,31 +47,20 @@ const WarpedPageImage: React.FC<{
                 const img = await getSharedImage(src);
                 if (!isMounted) return;
 
-                const marks = areas.filter(a => a.type === AreaType.ALIGNMENT_MARK && (a.pageIndex || 0) === pageIndex);
-                let searchZones = undefined;
-                if (marks.length === 4) {
-                    const sortedByY = [...marks].sort((a, b) => a.y - b.y);
-                    const topTwo = sortedByY.slice(0, 2).sort((a, b) => a.x - b.x);
-                    const bottomTwo = sortedByY.slice(2, 4).sort((a, b) => a.x - b.x);
-                    searchZones = {
-                        tl: topTwo[0],
-                        tr: topTwo[1],
-                        br: bottomTwo[1],
-                        bl: bottomTwo[0]
-                    };
-                }
+                const context = getAlignmentContext(areas, pageIndex, template);
+                const srcCorners = studentManualCorners || await getPageAlignment(src, img, template.alignmentDetectionSettings, context?.searchZones);
+                if (!srcCorners || !isMounted) return;
 
-                const res = await detectAndWarpCrop(
+                const warp = await getPageWarp(src, img, srcCorners, template.alignmentMarkIdealCorners!, context?.interior);
+                if (!warp || !isMounted) return;
+                const url = await warpArea(
                     img,
-                    template.alignmentMarkIdealCorners!,
-                    { x: 0, y: 0, width: template.width || img.naturalWidth, height: template.height || img.naturalHeight },
-                    studentManualCorners || undefined,
-                    template.alignmentDetectionSettings,
-                    searchZones
+                    warp,
+                    { x: 0, y: 0, width: template.width || img.naturalWidth, height: template.height || img.naturalHeight }
                 );
 
-                if (res.url && isMounted) {
-                    setWarpedSrc(res.url);
+                if (url && isMounted) {
+                    setWarpedSrc(url);
                 }
             } catch (e) {
                 console.error(`Warping page failed for ${studentName} p${pageIndex + 1}`, e);
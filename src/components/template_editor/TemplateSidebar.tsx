@@ -4,7 +4,7 @@ import type { Area, Template } from '../../types';
 import { AreaType, AreaType as AreaTypeEnum } from '../../types';
 // FIX: Added SpinnerIcon to imports
 import { SparklesIcon, Trash2Icon, InfoIcon, ChevronDownIcon, ChevronUpIcon, SettingsIcon, Undo2Icon, Redo2Icon, Wand2Icon, SpinnerIcon } from '../icons';
-import { findAlignmentMarks } from '../../utils';
+import { detectAlignmentMarks } from '../../utils';
 import { DetectionSettings } from '../TemplateEditor';
 
 export const areaTypeColors: { [key in AreaType]: { hex: string; bg: string; text: string; hover: string } } = {
@@ -20,6 +20,7 @@ export const areaTypeColors: { [key in AreaType]: { hex: string; bg: string; tex
     [AreaTypeEnum.STUDENT_ID_REF_BOTTOM]: { hex: '#06b6d4', bg: 'bg-cyan-200 dark:bg-cyan-700', text: 'text-cyan-800 dark:text-cyan-300', hover: 'hover:bg-cyan-300/50 dark:hover:bg-cyan-600/50' },
     [AreaTypeEnum.MARKSHEET_REF_RIGHT]: { hex: '#f97316', bg: 'bg-orange-100 dark:bg-orange-900/50', text: 'text-orange-800 dark:text-orange-300', hover: 'hover:bg-orange-200/50 dark:hover:bg-orange-800/50' },
     [AreaTypeEnum.MARKSHEET_REF_BOTTOM]: { hex: '#d946ef', bg: 'bg-fuchsia-100 dark:bg-fuchsia-900/50', text: 'text-fuchsia-800 dark:text-fuchsia-300', hover: 'hover:bg-fuchsia-200/50 dark:hover:bg-fuchsia-800/50' },
+    [AreaTypeEnum.INTERIOR_MARK]: { hex: '#b91c1c', bg: 'bg-rose-200 dark:bg-rose-800', text: 'text-rose-900 dark:text-rose-300', hover: 'hover:bg-rose-300/50 dark:hover:bg-rose-700/50' },
 };
 
 const fallbackColor = areaTypeColors[AreaTypeEnum.QUESTION_NUMBER];
@@ -89,7 +90,7 @@ export const TemplateSidebar: React.FC<TemplateSidebarProps> = ({
             }
 
             // Pass user settings to the detection algorithm
-            const marks = findAlignmentMarks(imageData, {
+            const marks = await detectAlignmentMarks(imageData, {
                 minSize: detSettings.minSize,
                 threshold: detSettings.threshold,
                 padding: detSettings.padding
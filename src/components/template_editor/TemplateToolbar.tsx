@@ -38,6 +38,7 @@ const typeNameMap: Record<string, string> = {
     [AreaTypeEnum.STUDENT_ID_REF_BOTTOM]: '学籍基準(下)',
     [AreaTypeEnum.MARKSHEET_REF_RIGHT]: 'マーク基準(右)',
     [AreaTypeEnum.MARKSHEET_REF_BOTTOM]: 'マーク基準(下)',
+    [AreaTypeEnum.INTERIOR_MARK]: '補正マーク',
 };
 
 export const TemplateToolbar: React.FC<TemplateToolbarProps> = ({ 
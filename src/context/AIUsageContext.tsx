@@ -0,0 +1,73 @@
+import React, { createContext, useState, useEffect, useMemo, useCallback, useContext, useRef } from 'react';
+import type { AIUsageLog, AIUsageRecord } from '../types';
+import { loadAIUsageLog, saveAIUsageLog, startOfMonth, summarizeUsage } from '../aiUsage';
+import type { AIUsageSummary } from '../aiUsage';
+
+interface AIUsageContextType {
+    records: AIUsageRecord[];
+    monthlyTokenLimit: number;
+    monthUsage: AIUsageSummary;
+    isMonthlyLimitReached: boolean;
+    recordUsage: (record: AIUsageRecord) => void;
+    setMonthlyTokenLimit: (limit: number) => void;
+}
+
+const AIUsageContext = createContext<AIUsageContextType | undefined>(undefined);
+
+export const AIUsageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [log, setLog] = useState<AIUsageLog>({ records: [] });
+    // Records can arrive before the stored log has loaded; the ref keeps both in one log
+    const logRef = useRef<AIUsageLog>(log);
+    const isLoadedRef = useRef(false);
+
+    const commitLog = useCallback((next: AIUsageLog) => {
+        logRef.current = next;
+        setLog(next);
+        if (isLoadedRef.current) saveAIUsageLog(next);
+    }, []);
+
+    useEffect(() => {
+        loadAIUsageLog().then(stored => {
+            isLoadedRef.current = true;
+            commitLog({ ...stored, records: [...stored.records, ...logRef.current.records] });
+        }).catch(error => {
+            console.error('Failed to load AI usage:', error);
+            isLoadedRef.current = true;
+        });
+    }, [commitLog]);
+
+    const recordUsage = useCallback((record: AIUsageRecord) => {
+        commitLog({ ...logRef.current, records: [...logRef.current.records, record] });
+    }, [commitLog]);
+
+    const setMonthlyTokenLimit = useCallback((limit: number) => {
+        commitLog({ ...logRef.current, monthlyTokenLimit: Math.max(0, limit) });
+    }, [commitLog]);
+
+    const monthUsage = useMemo(() => {
+        const since = startOfMonth();
+        return summarizeUsage(log.records.filter(r => r.timestamp >= since));
+    }, [log.records]);
+
+    const monthlyTokenLimit = log.monthlyTokenLimit || 0;
+    const isMonthlyLimitReached = monthlyTokenLimit > 0 && monthUsage.inputTokens + monthUsage.outputTokens >= monthlyTokenLimit;
+
+    const value = {
+        records: log.records,
+        monthlyTokenLimit,
+        monthUsage,
+        isMonthlyLimitReached,
+        recordUsage,
+        setMonthlyTokenLimit,
+    };
+
+    return <AIUsageContext.Provider value={value}>{children}</AIUsageContext.Provider>;
+};
+
+export const useAIUsage = (): AIUsageContextType => {
+    const context = useContext(AIUsageContext);
+    if (!context) {
+        throw new Error('useAIUsage must be used within an AIUsageProvider');
+    }
+    return context;
+};
@@ -0,0 +1,549 @@
+import React, { createContext, useState, useEffect, useMemo, useCallback, useContext, useRef } from 'react';
+import { AreaType, ScoringStatus } from '../types';
+import type { Area, GradingJob, GradingJobBatch, GradingProject, GradingStrategy, Point, ScoreData, Student, StudentInfo } from '../types';
+import { useProject } from './ProjectContext';
+import { useAIUsage } from './AIUsageContext';
+import { callAIStudentGrading, callAITranscriptionBatch, callGeminiAPIBatch } from '../api/gemini';
+import type { AIRequestUsage, GradingResult, StudentQuestionAnswer } from '../api/gemini';
+import { hasAnswerKey, matchAnswerKey } from '../answerKey';
+import { cropImage } from '../snippets';
+import { analyzeMarkSheetSnippet, findNearestAlignedRefArea, getAlignmentContext } from '../utils';
+import {
+    MAX_BATCH_ATTEMPTS, createGradingJob, estimateJobCost, getJobFailures, getJobProgress, getRetryDelay, isRetryableError,
+    loadGradingJobs, requeueFailedBatches, saveGradingJobs
+} from '../gradingJobs';
+import type { GradingFailure } from '../gradingJobs';
+
+type GradingCellStatus = 'grading' | 'error';
+
+interface BatchOutcome {
+    error?: string;
+    failedStudentIds?: string[];
+    failedAreaIds?: number[];
+    // The active project changed while the batch ran; its results were not written
+    interrupted?: boolean;
+}
+
+interface JobCostEstimate {
+    strategy: GradingStrategy;
+    requests: number;
+    images: number;
+}
+
+interface GradingJobContextType {
+    // Job of the active project, if any
+    job: GradingJob | null;
+    isRunning: boolean;
+    progress: { current: number; total: number; message: string };
+    failures: GradingFailure[];
+    gradingStatus: { [studentId: string]: { [areaId: number]: GradingCellStatus } };
+    startJob: (areaIds: number[], options: { enhanceImages: boolean }) => void;
+    estimateJob: (areaIds: number[]) => (JobCostEstimate & { alternative: JobCostEstimate }) | null;
+    pauseJob: () => void;
+    resumeJob: () => void;
+    cancelJob: () => void;
+    retryFailed: () => void;
+    dismissJob: () => void;
+}
+
+const GradingJobContext = createContext<GradingJobContextType | undefined>(undefined);
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+type AIGradingOutcome = Pick<GradingResult, 'status' | 'score' | 'aiComment' | 'rubricAwards' | 'confidence' | 'needsReview'>;
+
+// Uncertain results are held back as a suggestion for the teacher to confirm
+const toAIScoreData = (r: AIGradingOutcome, previous: ScoreData | undefined, reviewThreshold: number): ScoreData => {
+    const isUncertain = r.needsReview || (r.confidence !== undefined && r.confidence < reviewThreshold);
+    return {
+        status: isUncertain ? ScoringStatus.UNSCORED : r.status,
+        score: isUncertain ? null : r.score,
+        aiComment: r.aiComment,
+        ...(r.rubricAwards ? { rubricAwards: r.rubricAwards } : {}),
+        ...(previous?.transcription !== undefined ? { transcription: previous.transcription } : {}),
+        ...(r.confidence !== undefined ? { aiConfidence: r.confidence } : {}),
+        ...(isUncertain ? { needsReview: true, aiSuggestion: { status: r.status, score: r.score } } : {})
+    };
+};
+
+export const GradingJobProvider: React.FC<{ apiKey: string; children: React.ReactNode }> = ({ apiKey, children }) => {
+    const { projects, activeProject, studentsWithInfo, handleScoresChange, isLoading } = useProject();
+    const { recordUsage, isMonthlyLimitReached } = useAIUsage();
+    const [jobs, setJobs] = useState<Record<string, GradingJob>>({});
+    const [isJobsLoaded, setIsJobsLoaded] = useState(false);
+    const [activeBatch, setActiveBatch] = useState<GradingJobBatch | null>(null);
+    const [statusMessage, setStatusMessage] = useState('');
+
+    // The runner outlives renders, so it reads the latest state through refs
+    const jobsRef = useRef<Record<string, GradingJob>>({});
+    const runningProjectRef = useRef<string | null>(null);
+    const projectRef = useRef<GradingProject | null>(activeProject);
+    const studentsRef = useRef<(Student & StudentInfo)[]>(studentsWithInfo);
+    const apiKeyRef = useRef(apiKey);
+    const isLimitReachedRef = useRef(isMonthlyLimitReached);
+    isLimitReachedRef.current = isMonthlyLimitReached;
+    projectRef.current = activeProject;
+    studentsRef.current = studentsWithInfo;
+    apiKeyRef.current = apiKey;
+    // Master snippets are the same for every batch of a question, keyed by `${areaId}:${enhanceImages}`
+    const masterSnippetCacheRef = useRef<Record<string, string>>({});
+    // Transcriptions written by this session's transcribe batches, keyed by `${areaId}:${studentId}`,
+    // for grade batches that start before the project state has re-rendered
+    const transcriptionsRef = useRef<Record<string, string>>({});
+
+    const commitJobs = useCallback((next: Record<string, GradingJob>) => {
+        jobsRef.current = next;
+        setJobs(next);
+        saveGradingJobs(next);
+    }, []);
+
+    const updateJob = useCallback((projectId: string, updater: (job: GradingJob) => GradingJob | null) => {
+        const current = jobsRef.current[projectId];
+        if (!current) return;
+        const updated = updater(current);
+        const next = { ...jobsRef.current };
+        if (updated) next[projectId] = { ...updated, updatedAt: Date.now() };
+        else delete next[projectId];
+        commitJobs(next);
+    }, [commitJobs]);
+
+    // Jobs that were running when the app closed come back paused, to be resumed from the header
+    useEffect(() => {
+        loadGradingJobs().then(stored => {
+            const restored: Record<string, GradingJob> = {};
+            Object.keys(stored).forEach(projectId => {
+                const job = stored[projectId];
+                restored[projectId] = job.status === 'running' ? { ...job, status: 'paused' } : job;
+            });
+            jobsRef.current = restored;
+            setJobs(restored);
+            setIsJobsLoaded(true);
+        }).catch(error => {
+            console.error('Failed to load grading jobs:', error);
+            setIsJobsLoaded(true);
+        });
+    }, []);
+
+    // Drop jobs of deleted projects
+    useEffect(() => {
+        if (!isJobsLoaded || isLoading) return;
+        const staleIds = Object.keys(jobsRef.current).filter(id => !projects[id]);
+        if (staleIds.length === 0) return;
+        const next = { ...jobsRef.current };
+        staleIds.forEach(id => delete next[id]);
+        commitJobs(next);
+    }, [projects, isJobsLoaded, isLoading, commitJobs]);
+
+    // A batch's results are only written while its project is open and its job was not cancelled
+    // during the request; a cancelled job is removed from jobsRef
+    const isStillActive = (projectId: string) => projectRef.current?.id === projectId && !!jobsRef.current[projectId];
+
+    const logUsage = (projectId: string, areaIds: number[], usage: AIRequestUsage | undefined) => {
+        if (usage) recordUsage({ timestamp: Date.now(), projectId, areaIds, ...usage });
+    };
+
+    const runMarkSheetBatch = async (batch: GradingJobBatch, project: GradingProject): Promise<BatchOutcome> => {
+        const area = project.areas.find(a => a.id === batch.areaId);
+        const point = project.points.find(p => p.id === batch.areaId);
+        if (!area || !point) return { error: '問題が見つかりません。' };
+        const pageIdx = area.pageIndex || 0;
+        // AUTO DISCOVERY of reference areas aligned with this question
+        const refR = findNearestAlignedRefArea(area, project.areas, AreaType.MARKSHEET_REF_RIGHT);
+        const refB = findNearestAlignedRefArea(area, project.areas, AreaType.MARKSHEET_REF_BOTTOM);
+        // Same detection as the answer crops, so the page's cached corners are shared with them
+        const alignment = project.template ? getAlignmentContext(project.areas, pageIdx, project.template) : null;
+        setStatusMessage(`${point.label} のマークを認識中...`);
+
+        const results: { studentId: string; index: ScoreData['detectedMarkIndex']; positions: ScoreData['detectedPositions'] }[] = [];
+        const failedStudentIds: string[] = [];
+        let lastError = '';
+        for (const studentId of batch.studentIds) {
+            const student = studentsRef.current.find(s => s.id === studentId);
+            const studentImage = student?.images[pageIdx];
+            if (!studentImage) {
+                failedStudentIds.push(studentId);
+                lastError = '解答用紙の画像がありません。';
+                continue;
+            }
+            try {
+                // Recognition happens in the same warped space as the visual snippet when auto alignment is on
+                const res = await analyzeMarkSheetSnippet(
+                    studentImage,
+                    area,
+                    point,
+                    project.aiSettings.markSheetSensitivity,
+                    refR,
+                    refB,
+                    project.aiSettings.enableAutoAlignment ? project.template?.alignmentMarkIdealCorners : undefined,
+                    { settings: project.template?.alignmentDetectionSettings, searchZones: alignment?.searchZones, interior: alignment?.interior, manualCorners: student?.manualAlignmentCorners?.[pageIdx] }
+                );
+                results.push({ studentId, index: res.index, positions: res.positions });
+            } catch (error) {
+                console.error('Mark sheet recognition failed:', error);
+                failedStudentIds.push(studentId);
+                lastError = error.message || 'マークの認識に失敗しました。';
+            }
+        }
+        if (!isStillActive(project.id)) return { interrupted: true };
+
+        if (results.length > 0) {
+            handleScoresChange(prev => {
+                const next = { ...prev };
+                results.forEach(({ studentId, index, positions }) => {
+                    const isCorrect = typeof index === 'number' && index === point.correctAnswerIndex;
+                    next[studentId] = {
+                        ...next[studentId],
+                        [batch.areaId]: {
+                            status: isCorrect ? ScoringStatus.CORRECT : (index === -1 ? ScoringStatus.UNSCORED : ScoringStatus.INCORRECT),
+                            score: isCorrect ? point.points : 0,
+                            detectedPositions: positions,
+                            detectedMarkIndex: index
+                        }
+                    };
+                });
+                return next;
+            }, `${point.label} のマークシートを読み取り`, { type: 'mark-sheet' });
+        }
+        return failedStudentIds.length > 0 ? { error: lastError, failedStudentIds } : {};
+    };
+
+    const cropStudentSnippets = (studentIds: string[], project: GradingProject, pageIdx: number, areaId: number, enhanceImages: boolean) => {
+        const area = project.areas.find(a => a.id === areaId)!;
+        const autoAlign = project.aiSettings.enableAutoAlignment;
+        return Promise.all(studentIds.map(async studentId => {
+            const student = studentsRef.current.find(s => s.id === studentId)!;
+            return {
+                studentId,
+                base64: await cropImage(student.images[pageIdx]!, area, autoAlign ? project.template! : undefined, autoAlign ? project.areas : undefined, enhanceImages, student.manualAlignmentCorners?.[pageIdx])
+            };
+        }));
+    };
+
+    const runTranscribeBatch = async (batch: GradingJobBatch, project: GradingProject, enhanceImages: boolean): Promise<BatchOutcome> => {
+        const area = project.areas.find(a => a.id === batch.areaId);
+        const point = project.points.find(p => p.id === batch.areaId);
+        if (!area || !point) return { error: '問題が見つかりません。' };
+        const pageIdx = area.pageIndex || 0;
+        // Transcriptions corrected by the teacher since the job was planned are kept
+        const studentIds = batch.studentIds.filter(id =>
+            project.scores[id]?.[batch.areaId]?.transcription === undefined && studentsRef.current.find(s => s.id === id)?.images[pageIdx]);
+        if (studentIds.length === 0) return {};
+        setStatusMessage(`${point.label} の解答を文字起こし中...`);
+
+        const snippets = await cropStudentSnippets(studentIds, project, pageIdx, batch.areaId, enhanceImages);
+        const res = await callAITranscriptionBatch(snippets, point, apiKeyRef.current, project.aiSettings.aiModel, project.aiSettings);
+        logUsage(project.id, [batch.areaId], res.usage);
+        if (res.error) return { error: res.error };
+        if (!isStillActive(project.id)) return { interrupted: true };
+
+        handleScoresChange(prev => {
+            const next = { ...prev };
+            res.results.forEach(r => {
+                next[r.studentId] = { ...next[r.studentId], [batch.areaId]: { status: ScoringStatus.UNSCORED, score: null, ...next[r.studentId]?.[batch.areaId], transcription: r.text } };
+            });
+            return next;
+        }, `${point.label} の解答を文字起こし`, { type: 'ai', model: res.model });
+        res.results.forEach(r => { transcriptionsRef.current[`${batch.areaId}:${r.studentId}`] = r.text; });
+        const returned = new Set(res.results.map(r => r.studentId));
+        const missing = studentIds.filter(id => !returned.has(id));
+        return missing.length > 0 ? { error: 'AIの応答に含まれていませんでした。', failedStudentIds: missing } : {};
+    };
+
+    const getMasterSnippet = async (project: GradingProject, area: Area, point: Point, enhanceImages: boolean) => {
+        if (point.omitMasterSnippet && hasAnswerKey(point)) return null;
+        const cacheKey = `${area.id}:${enhanceImages}`;
+        if (!masterSnippetCacheRef.current[cacheKey]) {
+            masterSnippetCacheRef.current[cacheKey] = await cropImage(project.template!.pages[area.pageIndex || 0].imagePath, area, project.template!, project.areas, enhanceImages);
+        }
+        return masterSnippetCacheRef.current[cacheKey];
+    };
+
+    // With a typed answer key, exact matches of the transcription are graded without asking the AI to judge
+    const matchTranscriptions = (project: GradingProject, point: Point, studentIds: string[]) => {
+        if (!hasAnswerKey(point)) return [];
+        return studentIds
+            .map(studentId => {
+                const transcription = project.scores[studentId]?.[point.id]?.transcription ?? transcriptionsRef.current[`${point.id}:${studentId}`];
+                return { studentId, areaId: point.id, result: transcription !== undefined ? matchAnswerKey(point, transcription) : null };
+            })
+            .filter(m => m.result);
+    };
+
+    const writeAnswerKeyMatches = (matches: ReturnType<typeof matchTranscriptions>, label: string) => {
+        if (matches.length === 0) return;
+        handleScoresChange(prev => {
+            const next = { ...prev };
+            matches.forEach(({ studentId, areaId, result }) => {
+                next[studentId] = { ...next[studentId], [areaId]: { ...next[studentId]?.[areaId], ...result!, rubricAwards: undefined, needsReview: undefined, aiSuggestion: undefined } };
+            });
+            return next;
+        }, label, { type: 'answer-key' });
+    };
+
+    const runGradeBatch = async (batch: GradingJobBatch, project: GradingProject, enhanceImages: boolean): Promise<BatchOutcome> => {
+        const area = project.areas.find(a => a.id === batch.areaId);
+        const point = project.points.find(p => p.id === batch.areaId);
+        if (!area || !point || !project.template) return { error: '問題が見つかりません。' };
+        const areaId = batch.areaId;
+        const pageIdx = area.pageIndex || 0;
+        let aiStudentIds = batch.studentIds.filter(id => studentsRef.current.find(s => s.id === id)?.images[pageIdx]);
+
+        const matches = matchTranscriptions(project, point, aiStudentIds);
+        writeAnswerKeyMatches(matches, `${point.label} を解答キーと照合`);
+        const matchedIds = new Set(matches.map(m => m.studentId));
+        aiStudentIds = aiStudentIds.filter(id => !matchedIds.has(id));
+        if (aiStudentIds.length === 0) return {};
+        setStatusMessage(`${point.label} をAI採点中...`);
+
+        const masterSnippet = await getMasterSnippet(project, area, point, enhanceImages);
+        const studentSnippets = await cropStudentSnippets(aiStudentIds, project, pageIdx, areaId, enhanceImages);
+        const { aiSettings } = project;
+        const res = await callGeminiAPIBatch(
+            masterSnippet,
+            studentSnippets,
+            point,
+            apiKeyRef.current,
+            point.aiGradingMode || 'auto',
+            point.answerFormat || '',
+            aiSettings.gradingMode,
+            aiSettings.aiModel,
+            aiSettings
+        );
+        logUsage(project.id, [areaId], res.usage);
+        if (res.error) return { error: res.error };
+        if (!isStillActive(project.id)) return { interrupted: true };
+
+        const reviewThreshold = aiSettings.reviewConfidenceThreshold ?? 0;
+        handleScoresChange(prev => {
+            const next = { ...prev };
+            res.results.forEach(r => {
+                next[r.studentId] = { ...next[r.studentId], [areaId]: toAIScoreData(r, prev[r.studentId]?.[areaId], reviewThreshold) };
+            });
+            return next;
+        }, `${point.label} をAI採点`, { type: 'ai', model: res.model });
+        const returned = new Set(res.results.map(r => r.studentId));
+        const missing = aiStudentIds.filter(id => !returned.has(id));
+        return missing.length > 0 ? { error: 'AIの応答に含まれていませんでした。', failedStudentIds: missing } : {};
+    };
+
+    const runStudentBatch = async (batch: GradingJobBatch, project: GradingProject, enhanceImages: boolean): Promise<BatchOutcome> => {
+        const studentId = batch.studentIds[0];
+        const student = studentsRef.current.find(s => s.id === studentId);
+        if (!student || !project.template) return { error: '生徒が見つかりません。' };
+        const questions = (batch.areaIds || [batch.areaId])
+            .map(areaId => ({ area: project.areas.find(a => a.id === areaId), point: project.points.find(p => p.id === areaId) }))
+            .filter((q): q is { area: Area; point: Point } => !!q.area && !!q.point && !!student.images[q.area.pageIndex || 0]);
+
+        const matches = questions.reduce((acc, { point }) => acc.concat(matchTranscriptions(project, point, [studentId])), [] as ReturnType<typeof matchTranscriptions>);
+        writeAnswerKeyMatches(matches, `${student.name} の解答を解答キーと照合`);
+        const matchedAreaIds = new Set(matches.map(m => m.areaId));
+        const aiQuestions = questions.filter(({ point }) => !matchedAreaIds.has(point.id));
+        if (aiQuestions.length === 0) return {};
+        setStatusMessage(`${student.name} の解答をAI採点中...`);
+
+        const autoAlign = project.aiSettings.enableAutoAlignment;
+        const answers: StudentQuestionAnswer[] = [];
+        for (const { area, point } of aiQuestions) {
+            answers.push({
+                point,
+                base64: await cropImage(student.images[area.pageIndex || 0]!, area, autoAlign ? project.template : undefined, autoAlign ? project.areas : undefined, enhanceImages, student.manualAlignmentCorners?.[area.pageIndex || 0]),
+                masterSnippet: await getMasterSnippet(project, area, point, enhanceImages),
+                aiGradingMode: point.aiGradingMode || 'auto',
+                answerFormat: point.answerFormat || '',
+            });
+        }
+        const { aiSettings } = project;
+        const res = await callAIStudentGrading(answers, apiKeyRef.current, aiSettings.gradingMode, aiSettings.aiModel, aiSettings);
+        logUsage(project.id, answers.map(({ point }) => point.id), res.usage);
+        if (res.error) return { error: res.error };
+        if (!isStillActive(project.id)) return { interrupted: true };
+
+        const reviewThreshold = aiSettings.reviewConfidenceThreshold ?? 0;
+        handleScoresChange(prev => {
+            const next = { ...prev, [studentId]: { ...prev[studentId] } };
+            res.results.forEach(r => {
+                next[studentId][r.areaId] = toAIScoreData(r, prev[studentId]?.[r.areaId], reviewThreshold);
+            });
+            return next;
+        }, `${student.name} の解答をまとめてAI採点`, { type: 'ai', model: res.model });
+        const returned = new Set(res.results.map(r => r.areaId));
+        const missing = aiQuestions.map(({ point }) => point.id).filter(id => !returned.has(id));
+        return missing.length > 0 ? { error: 'AIの応答に含まれていませんでした。', failedAreaIds: missing } : {};
+    };
+
+    const runJob = async (projectId: string) => {
+        if (runningProjectRef.current) return;
+        runningProjectRef.current = projectId;
+        let previousKind: GradingJobBatch['kind'] | null = null;
+        try {
+            for (;;) {
+                const job = jobsRef.current[projectId];
+                if (!job || job.status !== 'running') break;
+                const project = projectRef.current;
+                if (!project || project.id !== projectId) {
+                    updateJob(projectId, j => ({ ...j, status: 'paused' }));
+                    break;
+                }
+                const batch = job.batches.find(b => b.status === 'pending');
+                if (!batch) {
+                    // Finished jobs are only kept around while there are failures to report
+                    updateJob(projectId, j => getJobFailures(j).length > 0 ? { ...j, status: 'completed' } : null);
+                    break;
+                }
+
+                if (batch.kind !== 'mark-sheet' && isLimitReachedRef.current) {
+                    updateJob(projectId, j => ({ ...j, status: 'paused' }));
+                    alert('今月のAI利用量が上限に達したため、採点を一時停止しました。上限は設定画面で変更できます。');
+                    break;
+                }
+                // Space out AI requests to stay under the provider's rate limit
+                if (batch.kind !== 'mark-sheet' && previousKind && previousKind !== 'mark-sheet') {
+                    await wait(project.aiSettings.delayBetweenBatches);
+                    if (jobsRef.current[projectId]?.status !== 'running') continue;
+                }
+                setActiveBatch(batch);
+                let outcome: BatchOutcome;
+                try {
+                    outcome = batch.kind === 'mark-sheet' ? await runMarkSheetBatch(batch, projectRef.current!)
+                        : batch.kind === 'transcribe' ? await runTranscribeBatch(batch, projectRef.current!, job.options.enhanceImages)
+                        : batch.kind === 'grade-student' ? await runStudentBatch(batch, projectRef.current!, job.options.enhanceImages)
+                        : await runGradeBatch(batch, projectRef.current!, job.options.enhanceImages);
+                } catch (error) {
+                    console.error('Grading batch failed:', error);
+                    outcome = { error: error.message || '不明なエラーが発生しました。' };
+                }
+                setActiveBatch(null);
+                previousKind = batch.kind;
+                if (outcome.interrupted) continue;
+
+                const attempts = batch.attempts + 1;
+                if (outcome.error && !outcome.failedStudentIds && !outcome.failedAreaIds && isRetryableError(outcome.error) && attempts < MAX_BATCH_ATTEMPTS) {
+                    const delay = getRetryDelay(attempts);
+                    updateJob(projectId, j => ({ ...j, batches: j.batches.map(b => b.id === batch.id ? { ...b, attempts, error: outcome.error } : b) }));
+                    setStatusMessage(`APIの制限またはエラーのため${Math.round(delay / 1000)}秒後に再試行します (${attempts}/${MAX_BATCH_ATTEMPTS - 1})`);
+                    await wait(delay);
+                    continue;
+                }
+                updateJob(projectId, j => ({
+                    ...j,
+                    batches: j.batches.map(b => b.id !== batch.id ? b : {
+                        ...b,
+                        attempts,
+                        status: outcome.error ? 'failed' : 'complete',
+                        error: outcome.error,
+                        failedStudentIds: outcome.failedStudentIds,
+                        failedAreaIds: outcome.failedAreaIds,
+                    })
+                }));
+            }
+        } finally {
+            runningProjectRef.current = null;
+            setActiveBatch(null);
+            setStatusMessage('');
+        }
+    };
+
+    const job = activeProject ? jobs[activeProject.id] || null : null;
+
+    // Start the runner whenever the active project's job is running and no runner is active
+    useEffect(() => {
+        if (job?.status === 'running' && !runningProjectRef.current) runJob(job.projectId);
+    }, [job?.status, job?.projectId]);
+
+    const planJob = (project: GradingProject, areaIds: number[], strategy: GradingStrategy, enhanceImages: boolean) => createGradingJob({
+        projectId: project.id,
+        areaIds,
+        areas: project.areas,
+        points: project.points,
+        students: studentsRef.current,
+        scores: project.scores,
+        batchSize: project.aiSettings.batchSize,
+        strategy,
+        enhanceImages,
+    });
+
+    const startJob = useCallback((areaIds: number[], options: { enhanceImages: boolean }) => {
+        const project = projectRef.current;
+        if (!project || runningProjectRef.current) return;
+        masterSnippetCacheRef.current = {};
+        transcriptionsRef.current = {};
+        const newJob = planJob(project, areaIds, project.aiSettings.gradingStrategy || 'per-question', options.enhanceImages);
+        commitJobs({ ...jobsRef.current, [project.id]: newJob });
+    }, [commitJobs]);
+
+    // AI requests and images for both strategies, shown before a run starts
+    const estimateJob = useCallback((areaIds: number[]) => {
+        const project = projectRef.current;
+        if (!project) return null;
+        const estimate = (strategy: GradingStrategy) => ({ strategy, ...estimateJobCost(planJob(project, areaIds, strategy, false), project.points) });
+        const strategy = project.aiSettings.gradingStrategy || 'per-question';
+        return { ...estimate(strategy), alternative: estimate(strategy === 'per-question' ? 'per-student' : 'per-question') };
+    }, []);
+
+    const setJobStatus = useCallback((status: GradingJob['status']) => {
+        const projectId = projectRef.current?.id;
+        if (projectId) updateJob(projectId, j => ({ ...j, status }));
+    }, [updateJob]);
+
+    const pauseJob = useCallback(() => setJobStatus('paused'), [setJobStatus]);
+    const resumeJob = useCallback(() => setJobStatus('running'), [setJobStatus]);
+
+    // Results already written stay; the remaining batches are discarded
+    const cancelJob = useCallback(() => {
+        const projectId = projectRef.current?.id;
+        if (projectId) updateJob(projectId, () => null);
+    }, [updateJob]);
+
+    const retryFailed = useCallback(() => {
+        const projectId = projectRef.current?.id;
+        if (projectId) updateJob(projectId, requeueFailedBatches);
+    }, [updateJob]);
+
+    const progress = useMemo(() => {
+        if (!job) return { current: 0, total: 0, message: '' };
+        const message = statusMessage || (job.status === 'paused' ? '一時停止中' : job.status === 'completed' ? '完了' : '採点準備中...');
+        return { ...getJobProgress(job), message };
+    }, [job, statusMessage]);
+
+    const failures = useMemo(() => job ? getJobFailures(job) : [], [job]);
+
+    const gradingStatus = useMemo(() => {
+        const status: GradingJobContextType['gradingStatus'] = {};
+        failures.forEach(f => {
+            status[f.studentId] = { ...status[f.studentId], [f.areaId]: 'error' };
+        });
+        if (activeBatch && job?.status === 'running') {
+            activeBatch.studentIds.forEach(id => {
+                (activeBatch.areaIds || [activeBatch.areaId]).forEach(areaId => {
+                    status[id] = { ...status[id], [areaId]: 'grading' };
+                });
+            });
+        }
+        return status;
+    }, [failures, activeBatch, job?.status]);
+
+    const value = {
+        job,
+        isRunning: job?.status === 'running',
+        progress,
+        failures,
+        gradingStatus,
+        startJob,
+        estimateJob,
+        pauseJob,
+        resumeJob,
+        cancelJob,
+        retryFailed,
+        dismissJob: cancelJob,
+    };
+
+    return <GradingJobContext.Provider value={value}>{children}</GradingJobContext.Provider>;
+};
+
+export const useGradingJobs = (): GradingJobContextType => {
+    const context = useContext(GradingJobContext);
+    if (!context) {
+        throw new Error('useGradingJobs must be used within a GradingJobProvider');
+    }
+    return context;
+};
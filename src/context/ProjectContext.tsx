@@ -1,8 +1,12 @@
 
-import React, { createContext, useState, useEffect, useMemo, useCallback, useContext } from 'react';
+import React, { createContext, useState, useEffect, useMemo, useCallback, useContext, useRef } from 'react';
 import { AppStep, ScoringStatus } from '../types';
-import type { GradingProject, Template, Area, StudentInfo, Student, Point, AllScores, StudentResult, Roster, SheetLayout, ExportImportOptions, ScoreData, AreaType } from '../types';
-import { fileToArrayBuffer, loadImage, convertFileToImages } from '../utils';
+import type { GradingProject, Template, Area, StudentInfo, Student, Point, AllScores, StudentResult, Roster, SheetLayout, ExportImportOptions, ScoreData, AreaType, DataRecoveryInfo, ProjectHistory, ProjectHistoryEntry, ScoreChangeSource, UploadedPage, DetectedAlignment } from '../types';
+import { fileToArrayBuffer, loadImage, convertFileToImages, primeAlignmentCache, subscribeAlignmentDetections } from '../utils';
+import { buildProjectArchive, unpackProjectArchive } from '../projectArchive';
+import { appendScoreAudit } from '../scoreAudit';
+import { createOrientationReference, normalizePageOrientation, rotatePageImage } from '../pageOrientation';
+import { CURRENT_PROJECT_SCHEMA_VERSION, createDefaultAISettings, formatMigrationReport, migrateProject, migrateRecords, migrateRoster, migrateSheetLayout } from '../migrations';
 
 // Helper function to convert data URL to ArrayBuffer
 const dataUrlToArrayBuffer = (dataUrl: string): ArrayBuffer | null => {
@@ -22,6 +26,45 @@ const dataUrlToArrayBuffer = (dataUrl: string): ArrayBuffer | null => {
     }
 };
 
+const MAX_HISTORY_ENTRIES = 100;
+// Repeated changes with the same label within this window (typing, digit input) become one entry
+const HISTORY_MERGE_WINDOW = 1500;
+
+// Detected alignment corners are a cache, not an edit: undo and redo keep the current ones for
+// every page whose image is unchanged instead of restoring those of the snapshot.
+const keepDetectedAlignments = (target: Student[], current: Student[]): Student[] => {
+    const currentById = new Map(current.map(sheet => [sheet.id, sheet]));
+    return target.map(sheet => {
+        const detected = currentById.get(sheet.id)?.detectedAlignmentCorners;
+        if (!detected) return sheet;
+        const kept = Object.keys(detected).map(Number).filter(pageIdx => detected[pageIdx].imagePath === sheet.images[pageIdx]);
+        if (kept.length === 0) return sheet;
+        const merged = { ...(sheet.detectedAlignmentCorners || {}) };
+        kept.forEach(pageIdx => { merged[pageIdx] = detected[pageIdx]; });
+        return { ...sheet, detectedAlignmentCorners: merged };
+    });
+};
+
+// The AI's per-criterion points only explain the AI's score, so they are dropped once a grade is changed by hand
+const dropStaleRubricAwards = (prev: AllScores, next: AllScores): AllScores => {
+    let changed = false;
+    const result = { ...next };
+    Object.keys(next).forEach(studentId => {
+        const before = prev[studentId] || {};
+        const after = next[studentId];
+        if (!after || after === before) return;
+        Object.keys(after).forEach(key => {
+            const areaId = Number(key);
+            const scoreData = after[areaId];
+            if (!scoreData?.rubricAwards) return;
+            if (scoreData.status === before[areaId]?.status && scoreData.score === before[areaId]?.score) return;
+            result[studentId] = { ...result[studentId], [areaId]: { ...scoreData, rubricAwards: undefined } };
+            changed = true;
+        });
+    });
+    return changed ? result : next;
+};
+
 interface ProjectContextType {
     // State
     projects: Record<string, GradingProject>;
@@ -31,6 +74,8 @@ interface ProjectContextType {
     currentStep: AppStep;
     previousStep: AppStep | null;
     isLoading: boolean;
+    dataRecoveryInfo: DataRecoveryInfo | null;
+    projectHistory: ProjectHistory;
 
     // Memoized values
     activeProject: GradingProject | null;
@@ -45,7 +90,12 @@ interface ProjectContextType {
     setCurrentStep: React.Dispatch<React.SetStateAction<AppStep>>;
     setPreviousStep: React.Dispatch<React.SetStateAction<AppStep | null>>;
     setIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
-    updateActiveProject: (updater: (project: GradingProject) => GradingProject) => void;
+    setDataRecoveryInfo: React.Dispatch<React.SetStateAction<DataRecoveryInfo | null>>;
+    handleRestoreBackup: (backupId: string) => Promise<void>;
+    updateActiveProject: (updater: (project: GradingProject) => GradingProject, label?: string) => void;
+    undo: () => void;
+    redo: () => void;
+    jumpToHistory: (cursor: number) => void;
     handleProjectCreate: (projectName: string, testName?: string, className?: string) => void;
     handleProjectSelect: (projectId: string) => void;
     handleProjectDelete: (projectId: string) => void;
@@ -59,13 +109,14 @@ interface ProjectContextType {
     goToStep: (step: AppStep) => void;
     handleTemplateUpload: (files: File[]) => Promise<void>;
     handleStudentSheetsUpload: (files: File[]) => Promise<void>;
-    uploadFilesRaw: (files: File[]) => Promise<{ path: string; name: string }[]>;
-    handleAreasChange: (areas: Area[]) => void;
-    handleTemplateChange: (templateUpdates: Partial<Template>) => void;
-    handleStudentInfoChange: (studentInfo: StudentInfo[]) => void;
-    handleStudentSheetsChange: (sheets: Student[]) => void;
-    handlePointsChange: (newPoints: Point[]) => void;
-    handleScoresChange: (scoresOrUpdater: AllScores | ((prevScores: AllScores) => AllScores)) => void;
+    uploadFilesRaw: (files: File[]) => Promise<UploadedPage[]>;
+    rotateSheetPage: (sheetId: string, pageIndex: number, quarterTurn: number) => Promise<void>;
+    handleAreasChange: (areas: Area[], label?: string) => void;
+    handleTemplateChange: (templateUpdates: Partial<Template>, label?: string) => void;
+    handleStudentInfoChange: (studentInfo: StudentInfo[], label?: string) => void;
+    handleStudentSheetsChange: (sheets: Student[], label?: string) => void;
+    handlePointsChange: (newPoints: Point[], label?: string) => void;
+    handleScoresChange: (scoresOrUpdater: AllScores | ((prevScores: AllScores) => AllScores), label?: string, source?: ScoreChangeSource) => void;
 }
 
 // Added missing { } for React hooks import at top and ensure createContext is available
@@ -73,13 +124,32 @@ const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
 
 export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     // Fixed: Ensure useState is available from React imports
-    const [projects, setProjects] = useState<Record<string, GradingProject>>({});
+    const [projects, setProjectsState] = useState<Record<string, GradingProject>>({});
     const [rosters, setRosters] = useState<Record<string, Roster>>({});
     const [sheetLayouts, setSheetLayouts] = useState<Record<string, SheetLayout>>({});
     const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
     const [currentStep, setCurrentStep] = useState<AppStep>(AppStep.CLASS_SELECTION);
     const [previousStep, setPreviousStep] = useState<AppStep | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [dataRecoveryInfo, setDataRecoveryInfo] = useState<DataRecoveryInfo | null>(null);
+    // The projects with every change applied as soon as it is made, rather than on the next render.
+    // Updates are computed here instead of inside React's state updaters, which React may run twice,
+    // so that the undo history is recorded exactly once per change.
+    const projectsRef = useRef<Record<string, GradingProject>>({});
+    const setProjects = useCallback<React.Dispatch<React.SetStateAction<Record<string, GradingProject>>>>(next => {
+        projectsRef.current = typeof next === 'function' ? next(projectsRef.current) : next;
+        setProjectsState(projectsRef.current);
+    }, []);
+    // Snapshot of the projects as last persisted, used to send only changed projects on save
+    const lastSavedProjectsRef = useRef<Record<string, GradingProject>>({});
+    // Stored rosters and layouts that could not be read. Both are saved as a whole file, so these
+    // are written back with every save to keep them for a later fix or restore.
+    const rejectedRostersRef = useRef<Record<string, unknown>>({});
+    const rejectedLayoutsRef = useRef<Record<string, unknown>>({});
+    // Undo history of the active project. It is recorded from inside the state updaters so each
+    // entry sees exactly the project its change was applied to; the project re-renders on every
+    // change, so a ref is enough to keep the history in sync with what is displayed.
+    const historyRef = useRef<ProjectHistory & { projectId: string | null; nextId: number }>({ projectId: null, entries: [], cursor: 0, nextId: 1 });
 
     // Fixed: Ensure useMemo is available from React imports
     const activeProject = useMemo(() => {
@@ -112,34 +182,15 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
                     }
                 }
 
-                // Data Normalization/Migration for Projects
-                for (const proj of Object.values(storedProjects) as GradingProject[]) {
-                    if (proj.template && !proj.template.pages) {
-                        proj.template.pages = [];
-                        if (proj.template.filePath) {
-                            proj.template.pages.push({
-                                imagePath: proj.template.filePath,
-                                width: proj.template.width || 0,
-                                height: proj.template.height || 0
-                            });
-                        }
-                    }
-                    if (proj.uploadedSheets) {
-                        for (const sheet of proj.uploadedSheets) {
-                            if (!sheet.images && sheet.filePath) {
-                                sheet.images = [sheet.filePath];
-                            } else if (!sheet.images) {
-                                sheet.images = [];
-                            }
-                        }
-                    }
-                    if (proj.aiSettings) {
-                        if (!proj.aiSettings.aiModel) proj.aiSettings.aiModel = 'gemini-3-flash-preview';
-                        if (proj.aiSettings.markSheetNumberingBase === undefined) proj.aiSettings.markSheetNumberingBase = 1;
-                        if (proj.aiSettings.enableAutoAlignment === undefined) proj.aiSettings.enableAutoAlignment = true;
-                    }
-                }
-                setProjects(storedProjects);
+                // Schema migration & validation for Projects. Upgraded or repaired projects are
+                // left out of the saved snapshot so that the next debounced save persists them.
+                const migrationReport: string[] = [];
+                const migratedProjects = migrateRecords(storedProjects, migrateProject, 'テスト');
+                migrationReport.push(...migratedProjects.report);
+                const savedSnapshot = { ...migratedProjects.values };
+                migratedProjects.changedIds.forEach(id => delete savedSnapshot[id]);
+                lastSavedProjectsRef.current = savedSnapshot;
+                setProjects(migratedProjects.values);
 
                 // 2. Load Rosters
                 let storedRosters = await window.electronAPI.invoke('load-data', 'rosters');
@@ -188,7 +239,10 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
                     };
                     await window.electronAPI.invoke('save-data', { key: 'rosters', data: storedRosters });
                 }
-                setRosters(storedRosters);
+                const migratedRosters = migrateRecords(storedRosters, migrateRoster, '名簿');
+                migrationReport.push(...migratedRosters.report);
+                rejectedRostersRef.current = migratedRosters.rejected;
+                setRosters(migratedRosters.values);
 
                 // 3. Load Layouts
                 let storedLayouts = await window.electronAPI.invoke('load-data', 'layouts');
@@ -197,7 +251,20 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
                     storedLayouts = localData ? JSON.parse(localData) : {};
                     if (localData) await window.electronAPI.invoke('save-data', { key: 'layouts', data: storedLayouts });
                 }
-                setSheetLayouts(storedLayouts);
+                const migratedLayouts = migrateRecords(storedLayouts, migrateSheetLayout, 'レイアウト');
+                migrationReport.push(...migratedLayouts.report);
+                rejectedLayoutsRef.current = migratedLayouts.rejected;
+                setSheetLayouts(migratedLayouts.values);
+
+                if (migrationReport.length > 0) {
+                    alert(`保存データの読み込み時に以下の問題を修復しました:\n${formatMigrationReport(migrationReport)}`);
+                }
+
+                // 4. Report any data files that could not be read so the user can restore a backup
+                const recoveryInfo: DataRecoveryInfo | null = await window.electronAPI.invoke('get-data-recovery-info');
+                if (recoveryInfo && recoveryInfo.corruptFiles.length > 0) {
+                    setDataRecoveryInfo(recoveryInfo);
+                }
 
             } catch (error) {
                 console.error("Failed to initialize data:", error);
@@ -208,11 +275,24 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         initializeData();
     }, []);
 
-    // Save projects with debounce
+    // Save changed projects with debounce. Project updates are immutable, so a changed
+    // object reference is enough to tell which projects need to be written.
     useEffect(() => {
         if (isLoading) return;
         const timer = setTimeout(() => {
-            window.electronAPI.invoke('save-data', { key: 'projects', data: projects })
+            const lastSaved = lastSavedProjectsRef.current;
+            const changed: Record<string, GradingProject> = {};
+            Object.entries(projects).forEach(([id, project]) => {
+                if (lastSaved[id] !== project) changed[id] = project;
+            });
+            const deletedIds = Object.keys(lastSaved).filter(id => !projects[id]);
+            if (Object.keys(changed).length === 0 && deletedIds.length === 0) return;
+
+            window.electronAPI.invoke('save-projects', { changed, deletedIds })
+                .then((result: any) => {
+                    if (result?.success) lastSavedProjectsRef.current = projects;
+                    else console.error("Failed to save projects:", result?.error);
+                })
                 .catch((e: any) => console.error("Failed to save projects:", e));
         }, 1000);
         return () => clearTimeout(timer);
@@ -222,7 +302,7 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     useEffect(() => {
         if (isLoading) return;
         const timer = setTimeout(() => {
-            window.electronAPI.invoke('save-data', { key: 'rosters', data: rosters })
+            window.electronAPI.invoke('save-data', { key: 'rosters', data: { ...rejectedRostersRef.current, ...rosters } })
                 .catch((e: any) => console.error("Failed to save rosters:", e));
         }, 1000);
         return () => clearTimeout(timer);
@@ -232,22 +312,143 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     useEffect(() => {
         if (isLoading) return;
         const timer = setTimeout(() => {
-            window.electronAPI.invoke('save-data', { key: 'layouts', data: sheetLayouts })
+            window.electronAPI.invoke('save-data', { key: 'layouts', data: { ...rejectedLayoutsRef.current, ...sheetLayouts } })
                 .catch((e: any) => console.error("Failed to save layouts:", e));
         }, 1000);
         return () => clearTimeout(timer);
     }, [sheetLayouts, isLoading]);
 
-    // Fixed: Ensure useCallback is available from React imports
-    const updateActiveProject = useCallback((updater: (project: GradingProject) => GradingProject) => {
+    // History belongs to one project; switching projects starts a fresh one.
+    useEffect(() => {
+        historyRef.current = { projectId: activeProjectId, entries: [], cursor: 0, nextId: historyRef.current.nextId };
+    }, [activeProjectId]);
+
+    // Alignment corners found by any crop are stored with their sheet, so that pages are not searched
+    // again after a restart. They are a cache, so they bypass the undo history.
+    useEffect(() => {
         if (!activeProjectId) return;
-        setProjects(prev => ({ ...prev, [activeProjectId]: updater(prev[activeProjectId]) }));
+        let pending: DetectedAlignment[] = [];
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        const flush = () => {
+            timer = null;
+            const detections = pending;
+            pending = [];
+            setProjects(prev => {
+                const project = prev[activeProjectId];
+                if (!project) return prev;
+                let isChanged = false;
+                const uploadedSheets = project.uploadedSheets.map(sheet => {
+                    let detected = sheet.detectedAlignmentCorners;
+                    sheet.images.forEach((image, pageIdx) => {
+                        const detection = image ? detections.filter(d => d.imagePath === image).pop() : undefined;
+                        if (detection) detected = { ...(detected || {}), [pageIdx]: detection };
+                    });
+                    if (detected === sheet.detectedAlignmentCorners) return sheet;
+                    isChanged = true;
+                    return { ...sheet, detectedAlignmentCorners: detected };
+                });
+                return isChanged ? { ...prev, [activeProjectId]: { ...project, uploadedSheets } } : prev;
+            });
+        };
+        const unsubscribe = subscribeAlignmentDetections(detection => {
+            pending.push(detection);
+            if (!timer) timer = setTimeout(flush, 1000);
+        });
+        return () => {
+            unsubscribe();
+            if (timer) {
+                clearTimeout(timer);
+                flush();
+            }
+        };
     }, [activeProjectId]);
 
+    const activeSheets = projects[activeProjectId || '']?.uploadedSheets;
+    useEffect(() => {
+        if (activeSheets) primeAlignmentCache(activeSheets);
+    }, [activeSheets]);
+
+    const recordHistory = useCallback((projectId: string, label: string, before: GradingProject, after: GradingProject) => {
+        const history = historyRef.current;
+        if (history.projectId !== projectId) {
+            history.projectId = projectId;
+            history.entries = [];
+            history.cursor = 0;
+        }
+        const entries = history.entries.slice(0, history.cursor);
+        const last: ProjectHistoryEntry | undefined = entries[entries.length - 1];
+        const now = Date.now();
+        const isSameChange = last && last.label === label && last.after === before && now - last.timestamp < HISTORY_MERGE_WINDOW;
+        if (isSameChange) {
+            entries[entries.length - 1] = { ...last, after, timestamp: now };
+        } else {
+            entries.push({ id: history.nextId++, label, timestamp: now, before, after });
+        }
+        history.entries = entries.slice(-MAX_HISTORY_ENTRIES);
+        history.cursor = history.entries.length;
+    }, []);
+
+    // Fixed: Ensure useCallback is available from React imports
+    const updateActiveProject = useCallback((updater: (project: GradingProject) => GradingProject, label = 'テストを編集') => {
+        if (!activeProjectId) return;
+        const before = projectsRef.current[activeProjectId];
+        if (!before) return;
+        const after = updater(before);
+        if (after === before) return;
+        recordHistory(activeProjectId, label, before, after);
+        setProjects(prev => ({ ...prev, [activeProjectId]: after }));
+    }, [activeProjectId, recordHistory, setProjects]);
+
+    const jumpToHistory = useCallback((cursor: number) => {
+        const history = historyRef.current;
+        const projectId = history.projectId;
+        if (!projectId || projectId !== activeProjectId) return;
+        if (cursor < 0 || cursor > history.entries.length || cursor === history.cursor) return;
+        const target = cursor === 0 ? history.entries[0].before : history.entries[cursor - 1].after;
+        history.cursor = cursor;
+        setProjects(prev => {
+            const current = prev[projectId];
+            if (!current) return prev;
+            // The audit log is append-only, so it is carried forward rather than restored
+            const scoreAuditLog = appendScoreAudit(current, target.scores, { type: 'history' });
+            const uploadedSheets = keepDetectedAlignments(target.uploadedSheets, current.uploadedSheets);
+            return { ...prev, [projectId]: { ...target, uploadedSheets, scoreAuditLog, lastModified: Date.now() } };
+        });
+    }, [activeProjectId, setProjects]);
+
+    const undo = useCallback(() => jumpToHistory(historyRef.current.cursor - 1), [jumpToHistory]);
+    const redo = useCallback(() => jumpToHistory(historyRef.current.cursor + 1), [jumpToHistory]);
+
+    const projectHistory: ProjectHistory = historyRef.current.projectId === activeProjectId
+        ? { entries: historyRef.current.entries, cursor: historyRef.current.cursor }
+        : { entries: [], cursor: 0 };
+
+    const handleRestoreBackup = async (backupId: string) => {
+        // Keeping isLoading set also cancels pending debounced saves of the now-stale state.
+        setIsLoading(true);
+        const result = await window.electronAPI.invoke('restore-backup', backupId);
+        if (result?.success) {
+            window.location.reload();
+            return;
+        }
+        setIsLoading(false);
+        alert(`バックアップの復元に失敗しました: ${result?.error}`);
+    };
+
+    // Pages that failed the last alignment check are confirmed before leaving the verification for grading
+    const confirmAlignmentIssues = (order: AppStep[], targetStep: AppStep) => {
+        if (currentStep !== AppStep.STUDENT_VERIFICATION || order.indexOf(targetStep) <= order.indexOf(currentStep)) return true;
+        const images = new Set(activeProject?.uploadedSheets.reduce((acc, sheet) => acc.concat(sheet.images.filter((img): img is string => !!img)), [] as string[]));
+        const count = (activeProject?.alignmentIssues || []).filter(path => images.has(path)).length;
+        if (count === 0) return true;
+        return window.confirm(`${count}ページの位置合わせに問題があり、解答の切り出しがずれる可能性があります。\n「位置合わせを確認」から手動で補正できます。このまま進みますか？`);
+    };
+
     const nextStep = () => {
         const order: AppStep[] = [AppStep.CLASS_SELECTION, AppStep.TEMPLATE_UPLOAD, AppStep.AREA_SELECTION, AppStep.STUDENT_INFO_INPUT, AppStep.STUDENT_UPLOAD, AppStep.STUDENT_VERIFICATION, AppStep.POINT_ALLOCATION, AppStep.GRADING, AppStep.RESULTS];
         const currentIndex = order.indexOf(currentStep);
         if (currentIndex < order.length - 1) {
+            if (!confirmAlignmentIssues(order, order[currentIndex + 1])) return;
             setCurrentStep(order[currentIndex + 1]);
         }
     };
@@ -266,13 +467,14 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
             setCurrentStep(step);
          } else {
             const order: AppStep[] = [AppStep.CLASS_SELECTION, AppStep.TEMPLATE_UPLOAD, AppStep.AREA_SELECTION, AppStep.STUDENT_INFO_INPUT, AppStep.STUDENT_UPLOAD, AppStep.STUDENT_VERIFICATION, AppStep.POINT_ALLOCATION, AppStep.GRADING, AppStep.RESULTS];
-            if (order.includes(step)) setCurrentStep(step);
+            if (order.includes(step) && confirmAlignmentIssues(order, step)) setCurrentStep(step);
          }
     };
 
     const handleProjectCreate = (projectName: string, testName?: string, className?: string) => {
         const newId = `proj_${Date.now()}`;
         const newProject: GradingProject = {
+            schemaVersion: CURRENT_PROJECT_SCHEMA_VERSION,
             id: newId, 
             name: projectName,
             testName,
@@ -283,15 +485,8 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
             uploadedSheets: [], 
             points: [], 
             scores: {},
-            aiSettings: { 
-                batchSize: 5, 
-                delayBetweenBatches: 1000, 
-                gradingMode: 'quality', 
-                markSheetSensitivity: 1.5, 
-                markSheetNumberingBase: 1, 
-                aiModel: 'gemini-3-flash-preview',
-                enableAutoAlignment: true
-            },
+            scoreAuditLog: [],
+            aiSettings: createDefaultAISettings(),
             lastModified: Date.now(),
         };
         setProjects(prev => ({...prev, [newId]: newProject}));
@@ -349,7 +544,8 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
             lastModified: Date.now(),
             studentInfo: [],
             uploadedSheets: [],
-            scores: {}
+            scores: {},
+            scoreAuditLog: []
         };
 
         const extraSheets: Student[] = [];
@@ -382,10 +578,12 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
             // 4. Scores
             mergedProject.scores = { ...mergedProject.scores, ...p.scores };
+            mergedProject.scoreAuditLog.push(...(p.scoreAuditLog || []));
         });
 
         // Append extras at the very end
         mergedProject.uploadedSheets.push(...extraSheets);
+        mergedProject.scoreAuditLog.sort((a, b) => a.timestamp - b.timestamp);
 
         setProjects(prev => ({ ...prev, [mergedProject.id]: mergedProject }));
         alert(`「${newName}」として結合しました。`);
@@ -395,19 +593,32 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         const result = await window.electronAPI.invoke('import-project');
         if (result.success && result.data) {
             try {
-                const importedData = JSON.parse(result.data);
+                let importedData: unknown;
+                if (result.format === 'zip') {
+                    setIsLoading(true);
+                    let missingImages: string[];
+                    try {
+                        ({ project: importedData, missingImages } = await unpackProjectArchive(result.data));
+                    } finally {
+                        setIsLoading(false);
+                    }
+                    if (missingImages.length > 0 && !window.confirm(`${missingImages.length} 件の画像がアーカイブ内に見つかりませんでした。\n${missingImages.slice(0, 5).join('\n')}\n\nこのままインポートしますか？`)) {
+                        return;
+                    }
+                } else {
+                    importedData = JSON.parse(result.data);
+                }
+                const migration = migrateProject(importedData);
+                if (!migration.value) throw new Error(migration.error);
                 const newProject: GradingProject = {
-                    ...importedData,
+                    ...migration.value,
                     id: `proj_${Date.now()}`,
-                    name: importedData.name + ' (インポート)',
+                    name: migration.value.name + ' (インポート)',
                     lastModified: Date.now(),
                 };
-                if (newProject.aiSettings) {
-                    if (!newProject.aiSettings.aiModel) newProject.aiSettings.aiModel = 'gemini-3-flash-preview';
-                    if (newProject.aiSettings.markSheetNumberingBase === undefined) newProject.aiSettings.markSheetNumberingBase = 1;
-                }
                 setProjects(prev => ({ ...prev, [newProject.id]: newProject }));
-                alert(`プロジェクト「${newProject.name}」をインポートしました。`);
+                const repairNote = migration.issues.length > 0 ? `\n\n以下の問題を修復しました:\n${formatMigrationReport(migration.issues)}` : '';
+                alert(`プロジェクト「${newProject.name}」をインポートしました。${repairNote}`);
             } catch (error) {
                 alert(`インポートに失敗しました: ${error.message}`);
             }
@@ -429,12 +640,25 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         if (!options.includeAnswers) {
             delete (serializableProject as Partial<GradingProject>).uploadedSheets;
             delete (serializableProject as Partial<GradingProject>).scores;
+            delete (serializableProject as Partial<GradingProject>).scoreAuditLog;
         }
-        
-        setIsLoading(false);
-        const result = await window.electronAPI.invoke('export-project', {
+
+        let archive: { data: ArrayBuffer; missingImages: string[] };
+        try {
+            archive = await buildProjectArchive(serializableProject);
+        } catch (error) {
+            alert(`エクスポートに失敗しました: ${error.message}`);
+            return;
+        } finally {
+            setIsLoading(false);
+        }
+        if (archive.missingImages.length > 0 && !window.confirm(`${archive.missingImages.length} 件の画像を読み込めませんでした。画像なしでエクスポートを続けますか？`)) {
+            return;
+        }
+
+        const result = await window.electronAPI.invoke('export-project-archive', {
             projectName: serializableProject.name,
-            projectData: JSON.stringify(serializableProject, null, 2)
+            archiveData: archive.data
         });
         if (result.success) alert(`プロジェクトをエクスポートしました: ${result.path}`);
         else alert(`エクスポートに失敗しました: ${result.error}`);
@@ -446,6 +670,7 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         const newId = `proj_${Date.now()}`;
         // Create a DEEP COPY of configuration to prevent shared references, but reset student-specific data
         const newProject: GradingProject = {
+            schemaVersion: CURRENT_PROJECT_SCHEMA_VERSION,
             id: newId,
             name: `${activeProject.name} (コピー)`,
             // Use JSON parse/stringify for a quick deep copy of settings objects/arrays
@@ -456,6 +681,7 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
             studentInfo: [], // Reset students
             uploadedSheets: [], // Reset sheets
             scores: {}, // Reset scores
+            scoreAuditLog: [],
             lastModified: Date.now(),
         };
 
@@ -506,7 +732,7 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 pages: allPages,
             };
             
-            updateActiveProject(p => ({ ...p, template: newTemplate, lastModified: Date.now() }));
+            updateActiveProject(p => ({ ...p, template: newTemplate, lastModified: Date.now() }), 'テンプレート画像を追加');
         } catch (error) {
             console.error("Error processing template:", error);
             alert("テンプレート画像の処理中にエラーが発生しました。");
@@ -515,23 +741,42 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         }
     };
 
-    const uploadFilesRaw = async (files: File[]): Promise<{ path: string; name: string }[]> => {
+    // Pages are turned to the template's orientation and straightened before they are stored
+    const uploadFilesRaw = async (files: File[]): Promise<UploadedPage[]> => {
         setIsLoading(true);
         try {
-            const processedImages: { path: string; name: string }[] = [];
+            const processedImages: UploadedPage[] = [];
             const sortedFiles = Array.from(files).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+            const orientationReference = activeProject?.template ? await createOrientationReference(activeProject.template, activeProject.areas) : null;
 
             for (const file of sortedFiles) {
                 const dataUrls = await convertFileToImages(file);
                 for (const dataUrl of dataUrls) {
-                    const buffer = dataUrlToArrayBuffer(dataUrl);
+                    let pageDataUrl = dataUrl;
+                    let needsOrientationCheck = false;
+                    if (orientationReference) {
+                        try {
+                            const normalized = await normalizePageOrientation(dataUrl, orientationReference);
+                            pageDataUrl = normalized.dataUrl;
+                            needsOrientationCheck = !normalized.confident;
+                        } catch (error) {
+                            console.warn(`Orientation check failed for ${file.name}:`, error);
+                            needsOrientationCheck = true;
+                        }
+                    }
+                    const buffer = dataUrlToArrayBuffer(pageDataUrl);
                     if (!buffer) continue;
                     const filePath = await window.electronAPI.invoke('save-file-temp', { buffer, originalName: file.name });
                     if (filePath) {
-                        processedImages.push({ path: filePath, name: file.name });
+                        processedImages.push({ path: filePath, name: file.name, ...(needsOrientationCheck ? { needsOrientationCheck } : {}) });
                     }
                 }
             }
+
+            const uncertainCount = processedImages.filter(image => image.needsOrientationCheck).length;
+            if (uncertainCount > 0) {
+                alert(`${uncertainCount} ページの向きを自動で判定できませんでした。読み取り確認の画面で「向きを確認」と表示されたページを確認してください。`);
+            }
             return processedImages;
         } catch (error) {
             console.error("Raw upload failed:", error);
@@ -541,6 +786,36 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         }
     };
     
+    // The turned page is stored as a new image; alignment of the old one no longer applies
+    const rotateSheetPage = async (sheetId: string, pageIndex: number, quarterTurn: number) => {
+        const imagePath = activeProject?.uploadedSheets.find(s => s.id === sheetId)?.images[pageIndex];
+        if (!imagePath) return;
+        try {
+            const dataUrl = await rotatePageImage(imagePath, quarterTurn);
+            const buffer = dataUrl ? dataUrlToArrayBuffer(dataUrl) : null;
+            if (!buffer) throw new Error('Could not read the page image');
+            const newPath: string | null = await window.electronAPI.invoke('save-file-temp', { buffer, originalName: imagePath.split(/[\\/]/).pop() || 'page.jpg' });
+            if (!newPath) throw new Error('Could not save the rotated page');
+            updateActiveProject(p => ({
+                ...p,
+                uploadedSheets: p.uploadedSheets.map(sheet => {
+                    if (sheet.id !== sheetId || sheet.images[pageIndex] !== imagePath) return sheet;
+                    const images = sheet.images.map((image, i) => i === pageIndex ? newPath : image);
+                    const manualAlignmentCorners = sheet.manualAlignmentCorners ? { ...sheet.manualAlignmentCorners } : undefined;
+                    if (manualAlignmentCorners) delete manualAlignmentCorners[pageIndex];
+                    const detectedAlignmentCorners = sheet.detectedAlignmentCorners ? { ...sheet.detectedAlignmentCorners } : undefined;
+                    if (detectedAlignmentCorners) delete detectedAlignmentCorners[pageIndex];
+                    return { ...sheet, images, filePath: images[0], manualAlignmentCorners, detectedAlignmentCorners };
+                }),
+                pageOrientationIssues: (p.pageOrientationIssues || []).filter(path => path !== imagePath),
+                lastModified: Date.now(),
+            }), 'ページを回転');
+        } catch (error) {
+            console.error("Failed to rotate page:", error);
+            alert('ページの回転に失敗しました。');
+        }
+    };
+
     const handleStudentSheetsUpload = async (files: File[]) => {
         if (files.length === 0 || !activeProject?.template) return;
         try {
@@ -565,7 +840,8 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 });
             }
 
-             updateActiveProject(p => ({ ...p, uploadedSheets: newSheets, lastModified: Date.now() }));
+            const orientationIssues = allSheetImages.filter(img => img.needsOrientationCheck).map(img => img.path);
+            updateActiveProject(p => ({ ...p, uploadedSheets: newSheets, pageOrientationIssues: orientationIssues, lastModified: Date.now() }), `解答用紙 ${newSheets.length} 件を読み込み`);
             nextStep();
         } catch (error) {
             console.error("Error processing student sheets:", error);
@@ -657,30 +933,32 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         }));
     }, [activeProject]);
 
-    const handleAreasChange = useCallback((areas: Area[]) => {
-        updateActiveProject(p => ({ ...p, areas, lastModified: Date.now() }));
+    const handleAreasChange = useCallback((areas: Area[], label = '解答領域を編集') => {
+        updateActiveProject(p => ({ ...p, areas, lastModified: Date.now() }), label);
     }, [updateActiveProject]);
     
-    const handleTemplateChange = useCallback((templateUpdates: Partial<Template>) => {
+    const handleTemplateChange = useCallback((templateUpdates: Partial<Template>, label = 'テンプレート設定を変更') => {
         if (!activeProject?.template) return;
-        updateActiveProject(p => ({
-            ...p, template: { ...p.template!, ...templateUpdates }, lastModified: Date.now()
-        }));
+        updateActiveProject(p => {
+            const isUnchanged = Object.entries(templateUpdates)
+                .every(([key, value]) => JSON.stringify(p.template![key as keyof Template]) === JSON.stringify(value));
+            if (isUnchanged) return p;
+            return { ...p, template: { ...p.template!, ...templateUpdates }, lastModified: Date.now() };
+        }, label);
     }, [updateActiveProject, activeProject]);
 
-    const handleStudentInfoChange = useCallback((studentInfo: StudentInfo[]) => {
-        updateActiveProject(p => ({ ...p, studentInfo, lastModified: Date.now() }));
+    const handleStudentInfoChange = useCallback((studentInfo: StudentInfo[], label = '生徒情報を編集') => {
+        updateActiveProject(p => ({ ...p, studentInfo, lastModified: Date.now() }), label);
     }, [updateActiveProject]);
     
-    const handleStudentSheetsChange = useCallback((sheets: Student[]) => {
-        updateActiveProject(p => ({ ...p, uploadedSheets: sheets, lastModified: Date.now() }));
+    const handleStudentSheetsChange = useCallback((sheets: Student[], label = '解答用紙の割り当てを変更') => {
+        updateActiveProject(p => ({ ...p, uploadedSheets: sheets, lastModified: Date.now() }), label);
     }, [updateActiveProject]);
 
-    const handlePointsChange = useCallback((newPoints: Point[]) => {
-        if (!activeProjectId) return;
-        setProjects(prevProjects => {
-            const currentProject = prevProjects[activeProjectId];
-            if (!currentProject) return prevProjects;
+    const handlePointsChange = useCallback((newPoints: Point[], label = '配点を変更') => {
+        updateActiveProject(currentProject => {
+            // PointAllocator mirrors its local state here on mount; skip if nothing changed
+            if (JSON.stringify(newPoints) === JSON.stringify(currentProject.points)) return currentProject;
             const newScores = Object.entries(currentProject.scores).reduce((acc, [studentId, studentScores]) => {
                 const updatedStudentScores = Object.entries(studentScores).reduce((sAcc, [pointIdStr, scoreData]) => {
                     const pointId = parseInt(pointIdStr, 10);
@@ -700,31 +978,34 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 acc[studentId] = updatedStudentScores;
                 return acc;
             }, {} as AllScores);
-            const updatedProject = { ...currentProject, points: newPoints, scores: newScores, lastModified: Date.now() };
-            return { ...prevProjects, [activeProjectId]: updatedProject };
-        });
-    }, [activeProjectId]);
+            const scoreAuditLog = appendScoreAudit(currentProject, newScores, { type: 'rescore' });
+            return { ...currentProject, points: newPoints, scores: newScores, scoreAuditLog, lastModified: Date.now() };
+        }, label);
+    }, [updateActiveProject]);
 
-    const handleScoresChange = useCallback((scoresOrUpdater: AllScores | ((prevScores: AllScores) => AllScores)) => {
-        if (!activeProjectId) return;
-        setProjects(prevProjects => {
-            const currentProject = prevProjects[activeProjectId];
-            if (!currentProject) return prevProjects; 
-            const newScores = typeof scoresOrUpdater === 'function' 
+    const handleScoresChange = useCallback((
+        scoresOrUpdater: AllScores | ((prevScores: AllScores) => AllScores),
+        label = '採点結果を変更',
+        source: ScoreChangeSource = { type: 'manual' }
+    ) => {
+        updateActiveProject(currentProject => {
+            const updatedScores = typeof scoresOrUpdater === 'function' 
                 ? scoresOrUpdater(currentProject.scores) 
                 : scoresOrUpdater;
-            const updatedProject = { ...currentProject, scores: newScores, lastModified: Date.now() };
-            return { ...prevProjects, [activeProjectId]: updatedProject };
-        });
-    }, [activeProjectId]);
+            const newScores = source.type === 'manual' ? dropStaleRubricAwards(currentProject.scores, updatedScores) : updatedScores;
+            const scoreAuditLog = appendScoreAudit(currentProject, newScores, source);
+            return { ...currentProject, scores: newScores, scoreAuditLog, lastModified: Date.now() };
+        }, label);
+    }, [updateActiveProject]);
 
     const value: ProjectContextType = {
-        projects, rosters, sheetLayouts, activeProjectId, currentStep, previousStep, isLoading,
+        projects, rosters, sheetLayouts, activeProjectId, currentStep, previousStep, isLoading, dataRecoveryInfo, projectHistory,
         activeProject, calculatedResults, studentsWithInfo,
         setProjects, setRosters, setSheetLayouts, setActiveProjectId, setCurrentStep, setPreviousStep, setIsLoading,
-        updateActiveProject, handleProjectCreate, handleProjectSelect, handleProjectDelete, handleProjectImport,
+        setDataRecoveryInfo, handleRestoreBackup,
+        updateActiveProject, undo, redo, jumpToHistory, handleProjectCreate, handleProjectSelect, handleProjectDelete, handleProjectImport,
         handleProjectExportWithOptions, cloneProjectForNextClass, nextStep, prevStep, goToStep, handleTemplateUpload,
-        handleStudentSheetsUpload, uploadFilesRaw, handleAreasChange, handleTemplateChange, handleStudentInfoChange,
+        handleStudentSheetsUpload, uploadFilesRaw, rotateSheetPage, handleAreasChange, handleTemplateChange, handleStudentInfoChange,
         handleStudentSheetsChange, handlePointsChange, handleScoresChange,
         handleProjectRename, handleProjectMerge
     };
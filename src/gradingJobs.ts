@@ -0,0 +1,181 @@
+import { AreaType } from './types';
+import type { AllScores, Area, GradingBatchKind, GradingJob, GradingJobBatch, GradingStrategy, Point, Student } from './types';
+import { hasAnswerKey } from './answerKey';
+
+const STORAGE_KEY = 'grading-jobs';
+// Mark sheets are read locally, so batches only exist to checkpoint progress
+const MARK_SHEET_BATCH_SIZE = 10;
+// Attempts per batch before it is marked as failed (the first try included)
+export const MAX_BATCH_ATTEMPTS = 4;
+
+export interface GradingFailure {
+    studentId: string;
+    areaId: number;
+    kind: GradingBatchKind;
+    error: string;
+}
+
+export const loadGradingJobs = async (): Promise<Record<string, GradingJob>> => {
+    const stored = await window.electronAPI.invoke('load-data', STORAGE_KEY);
+    return stored && typeof stored === 'object' ? stored : {};
+};
+
+export const saveGradingJobs = async (jobs: Record<string, GradingJob>) => {
+    const result = await window.electronAPI.invoke('save-data', { key: STORAGE_KEY, data: jobs });
+    if (!result?.success) console.error('Failed to save grading jobs:', result?.error);
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += Math.max(1, size)) chunks.push(items.slice(i, i + Math.max(1, size)));
+    return chunks;
+};
+
+/**
+ * Splits a grading run into batches. Per question, answer areas with a typed answer key get
+ * transcription batches first (only for students not transcribed yet); their grade batches then
+ * match the transcriptions against the key and send only the remaining answers to the AI.
+ * Per student, each student's answers on a page go in one request and the answer key is given
+ * to the AI in the prompt instead.
+ */
+export const createGradingJob = ({ projectId, areaIds, areas, points, students, scores, batchSize, strategy, enhanceImages }: {
+    projectId: string;
+    areaIds: number[];
+    areas: Area[];
+    points: Point[];
+    students: Student[];
+    scores: AllScores;
+    batchSize: number;
+    strategy: GradingStrategy;
+    enhanceImages: boolean;
+}): GradingJob => {
+    const batches: GradingJobBatch[] = [];
+    const addBatches = (areaId: number, kind: GradingBatchKind, studentIds: string[], size: number) => {
+        chunk(studentIds, size).forEach(ids => {
+            batches.push({ id: `${areaId}-${kind}-${batches.length}`, areaId, kind, studentIds: ids, status: 'pending', attempts: 0 });
+        });
+    };
+
+    // Answer areas by page, for the per-student strategy
+    const answerAreasByPage = new Map<number, number[]>();
+
+    areaIds.forEach(areaId => {
+        const area = areas.find(a => a.id === areaId);
+        const point = points.find(p => p.id === areaId);
+        if (!area || !point) return;
+        const pageIdx = area.pageIndex || 0;
+        const studentIds = students.filter(s => s.images[pageIdx]).map(s => s.id);
+
+        if (area.type === AreaType.MARK_SHEET) {
+            addBatches(areaId, 'mark-sheet', studentIds, MARK_SHEET_BATCH_SIZE);
+            return;
+        }
+        if (strategy === 'per-student') {
+            answerAreasByPage.set(pageIdx, [...(answerAreasByPage.get(pageIdx) || []), areaId]);
+            return;
+        }
+        if (hasAnswerKey(point)) {
+            addBatches(areaId, 'transcribe', studentIds.filter(id => scores[id]?.[areaId]?.transcription === undefined), batchSize);
+        }
+        addBatches(areaId, 'grade', studentIds, batchSize);
+    });
+
+    answerAreasByPage.forEach((pageAreaIds, pageIdx) => {
+        students.filter(s => s.images[pageIdx]).forEach(student => {
+            batches.push({
+                id: `${pageAreaIds[0]}-grade-student-${batches.length}`,
+                areaId: pageAreaIds[0],
+                areaIds: pageAreaIds,
+                kind: 'grade-student',
+                studentIds: [student.id],
+                status: 'pending',
+                attempts: 0,
+            });
+        });
+    });
+
+    const now = Date.now();
+    return {
+        id: `job-${now.toString(36)}`,
+        projectId,
+        status: 'running',
+        createdAt: now,
+        updatedAt: now,
+        areaIds,
+        batches,
+        options: { enhanceImages },
+    };
+};
+
+/** Progress counted in answers (student × question), so that batches of different sizes weigh correctly. */
+export const getJobProgress = (job: GradingJob) => {
+    let current = 0;
+    let total = 0;
+    job.batches.forEach(batch => {
+        const answers = batch.studentIds.length * (batch.areaIds?.length || 1);
+        total += answers;
+        if (batch.status !== 'pending') current += answers;
+    });
+    return { current, total };
+};
+
+export const getJobFailures = (job: GradingJob): GradingFailure[] => {
+    const failures: GradingFailure[] = [];
+    job.batches.filter(batch => batch.status === 'failed').forEach(batch => {
+        const areaIds = batch.failedAreaIds?.length ? batch.failedAreaIds : batch.areaIds || [batch.areaId];
+        (batch.failedStudentIds?.length ? batch.failedStudentIds : batch.studentIds).forEach(studentId => {
+            areaIds.forEach(areaId => {
+                failures.push({ studentId, areaId, kind: batch.kind, error: batch.error || '不明なエラー' });
+            });
+        });
+    });
+    return failures;
+};
+
+/** Puts failed batches back in the queue, narrowed down to the students that actually failed. */
+export const requeueFailedBatches = (job: GradingJob): GradingJob => ({
+    ...job,
+    status: 'running',
+    batches: job.batches.map(batch => batch.status !== 'failed' ? batch : {
+        ...batch,
+        studentIds: batch.failedStudentIds?.length ? batch.failedStudentIds : batch.studentIds,
+        ...(batch.failedAreaIds?.length ? { areaId: batch.failedAreaIds[0], areaIds: batch.failedAreaIds } : {}),
+        status: 'pending',
+        attempts: 0,
+        error: undefined,
+        failedStudentIds: undefined,
+        failedAreaIds: undefined,
+    }),
+});
+
+const sendsMasterSnippet = (point: Point | undefined) => !!point && !(point.omitMasterSnippet && hasAnswerKey(point));
+
+/**
+ * Upper bound of the AI requests and images a job sends. Answers matched against the answer key
+ * during the run are not sent, so the actual numbers can be lower.
+ */
+export const estimateJobCost = (job: GradingJob, points: Point[]) => {
+    let requests = 0;
+    let images = 0;
+    job.batches.forEach(batch => {
+        if (batch.kind === 'mark-sheet') return;
+        requests++;
+        if (batch.kind === 'transcribe') {
+            images += batch.studentIds.length;
+        } else if (batch.kind === 'grade') {
+            images += batch.studentIds.length + (sendsMasterSnippet(points.find(p => p.id === batch.areaId)) ? 1 : 0);
+        } else {
+            (batch.areaIds || [batch.areaId]).forEach(areaId => {
+                images += 1 + (sendsMasterSnippet(points.find(p => p.id === areaId)) ? 1 : 0);
+            });
+        }
+    });
+    return { requests, images };
+};
+
+// Errors worth retrying after a pause: rate limits, overloaded servers and dropped connections
+export const isRetryableError = (message: string) =>
+    /429|rate limit|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|HTTP 5\d\d|timeout|timed out|network|failed to fetch/i.test(message);
+
+/** Exponential backoff with jitter: about 2s, 4s, 8s... */
+export const getRetryDelay = (attempt: number) => Math.pow(2, attempt) * 1000 + Math.random() * 1000;
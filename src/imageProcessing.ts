@@ -0,0 +1,903 @@
+import type { Area, Corners, PointCoord } from './types';
+
+// Pixel algorithms on plain pixel arrays, without the DOM, so that they run in the image worker
+// (see imageWorkerPool.ts) as well as on the main thread.
+
+export interface PixelData {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+// Part of a page: the pixels and where they sit on the page
+export interface PixelRegion extends PixelData {
+    x: number;
+    y: number;
+}
+
+export type AlignmentDetectionSettings = { minSize: number, threshold: number, padding: number };
+export type AlignmentSearchZones = { tl: Area; tr: Area; br: Area; bl: Area };
+type Rect = { x: number, y: number, width: number, height: number };
+
+export const findAlignmentMarks = (
+    imageData: PixelData, 
+    settings: AlignmentDetectionSettings = { minSize: 8, threshold: 160, padding: 0 },
+    searchZones?: AlignmentSearchZones
+): Corners | null => {
+    const { data, width, height } = imageData;
+    
+    // If search zones are provided, use them. Otherwise use the default corner search.
+    const getZone = (type: 'tl' | 'tr' | 'br' | 'bl', useSearchZones: boolean) => {
+        if (useSearchZones && searchZones && searchZones[type]) {
+            const zone = searchZones[type];
+            // Increased margin to 30% to handle larger shifts/tilts
+            const margin = Math.max(50, Math.min(width, height) * 0.30);
+            return {
+                x1: Math.max(0, Math.floor(zone.x - margin)),
+                y1: Math.max(0, Math.floor(zone.y - margin)),
+                x2: Math.min(width, Math.ceil(zone.x + zone.width + margin)),
+                y2: Math.min(height, Math.ceil(zone.y + zone.height + margin)),
+                tx: zone.x + zone.width / 2,
+                ty: zone.y + zone.height / 2
+            };
+        }
+        
+        const searchRange = 0.35; // 35% range
+        const cornerW = Math.floor(width * searchRange);
+        const cornerH = Math.floor(height * searchRange);
+        
+        switch(type) {
+            case 'tl': return { x1: 0, y1: 0, x2: cornerW, y2: cornerH, tx: 0, ty: 0 };
+            case 'tr': return { x1: width - cornerW, y1: 0, x2: width, y2: cornerH, tx: width, ty: 0 };
+            case 'br': return { x1: width - cornerW, y1: height - cornerH, x2: width, y2: height, tx: width, ty: height };
+            case 'bl': return { x1: 0, y1: height - cornerH, x2: cornerW, y2: height, tx: 0, ty: height };
+        }
+    };
+
+    const findBestCentroid = (startX: number, startY: number, endX: number, endY: number, targetX: number, targetY: number, threshold: number): PointCoord | null => {
+        const visited = new Uint8Array((endX - startX) * (endY - startY));
+        let bestCandidate: { centroid: PointCoord, distSq: number, weight: number } | null = null;
+        const minArea = settings.minSize * settings.minSize;
+
+        for (let y = startY; y < endY; y++) {
+            for (let x = startX; x < endX; x++) {
+                const vIdx = (y - startY) * (endX - startX) + (x - startX);
+                if (visited[vIdx]) continue;
+
+                const idx = (y * width + x) * 4;
+                const gray = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+
+                if (gray < threshold) {
+                    let sumX = 0, sumY = 0, count = 0, totalWeight = 0;
+                    let minX = x, maxX = x, minY = y, maxY = y;
+                    const stack = [[x, y]];
+                    visited[vIdx] = 1;
+
+                    while (stack.length > 0) {
+                        const [cx, cy] = stack.pop()!;
+                        const cIdx = (cy * width + cx) * 4;
+                        const cGray = 0.299 * data[cIdx] + 0.587 * data[cIdx + 1] + 0.114 * data[cIdx + 2];
+                        
+                        // Weighted centroid: darker pixels have more influence
+                        const weight = (255 - cGray) / 255;
+                        sumX += cx * weight; 
+                        sumY += cy * weight; 
+                        totalWeight += weight;
+                        count++;
+
+                        if (cx < minX) minX = cx; if (cx > maxX) maxX = cx;
+                        if (cy < minY) minY = cy; if (cy > maxY) maxY = cy;
+
+                        const neighbors = [[cx + 1, cy], [cx - 1, cy], [cx, cy + 1], [cx, cy - 1]];
+                        for (const [nx, ny] of neighbors) {
+                            if (nx >= startX && nx < endX && ny >= startY && ny < endY) {
+                                const nvIdx = (ny - startY) * (endX - startX) + (nx - startX);
+                                if (!visited[nvIdx]) {
+                                    const nIdx = (ny * width + nx) * 4;
+                                    const nGray = 0.299 * data[nIdx] + 0.587 * data[nIdx + 1] + 0.114 * data[nIdx + 2];
+                                    if (nGray < threshold) {
+                                        visited[nvIdx] = 1;
+                                        stack.push([nx, ny]);
+                                    }
+                                }
+                            }
+                        }
+                        if (count > 20000) break; // Increased safety limit
+                    }
+
+                    const blobW = maxX - minX + 1;
+                    const blobH = maxY - minY + 1;
+                    const aspectRatio = Math.max(blobW, blobH) / Math.min(blobW, blobH);
+
+                    // Relaxed criteria for detection
+                    const adjustedMinArea = threshold > 180 ? minArea * 0.3 : minArea * 0.5;
+
+                    if (count >= adjustedMinArea && count < (width * height * 0.1) && aspectRatio < 8) {
+                        const centroid = { x: sumX / totalWeight, y: sumY / totalWeight };
+                        const distSq = Math.pow(centroid.x - targetX, 2) + Math.pow(centroid.y - targetY, 2);
+                        // Prefer darker blobs (higher totalWeight) if distance is similar
+                        const score = distSq / (totalWeight * 0.1 + 1); 
+                        if (!bestCandidate || score < bestCandidate.distSq) {
+                            bestCandidate = { centroid, distSq: score, weight: totalWeight };
+                        }
+                    }
+                }
+            }
+        }
+        return bestCandidate ? bestCandidate.centroid : null;
+    };
+
+    // Try even more thresholds if the primary one fails
+    const thresholdsToTry = [settings.threshold, 140, 180, 120, 200, 220, 100, 80, 240];
+    
+    // First pass: try with searchZones if available
+    if (searchZones) {
+        for (const threshold of thresholdsToTry) {
+            const zTL = getZone('tl', true);
+            const zTR = getZone('tr', true);
+            const zBR = getZone('br', true);
+            const zBL = getZone('bl', true);
+
+            const tl = findBestCentroid(zTL.x1, zTL.y1, zTL.x2, zTL.y2, zTL.tx, zTL.ty, threshold);
+            const tr = findBestCentroid(zTR.x1, zTR.y1, zTR.x2, zTR.y2, zTR.tx, zTR.ty, threshold);
+            const br = findBestCentroid(zBR.x1, zBR.y1, zBR.x2, zBR.y2, zBR.tx, zBR.ty, threshold);
+            const bl = findBestCentroid(zBL.x1, zBL.y1, zBL.x2, zBL.y2, zBL.tx, zBL.ty, threshold);
+
+            if (tl && tr && br && bl) return { tl, tr, br, bl };
+        }
+    }
+
+    // Second pass: fallback to default corner search (ignore searchZones)
+    // This handles cases where the image is shifted significantly outside the expected zones
+    for (const threshold of thresholdsToTry) {
+        const zTL = getZone('tl', false);
+        const zTR = getZone('tr', false);
+        const zBR = getZone('br', false);
+        const zBL = getZone('bl', false);
+
+        const tl = findBestCentroid(zTL.x1, zTL.y1, zTL.x2, zTL.y2, zTL.tx, zTL.ty, threshold);
+        const tr = findBestCentroid(zTR.x1, zTR.y1, zTR.x2, zTR.y2, zTR.tx, zTR.ty, threshold);
+        const br = findBestCentroid(zBR.x1, zBR.y1, zBR.x2, zBR.y2, zBR.tx, zBR.ty, threshold);
+        const bl = findBestCentroid(zBL.x1, zBL.y1, zBL.x2, zBL.y2, zBL.tx, zBL.ty, threshold);
+
+        if (tl && tr && br && bl) return { tl, tr, br, bl };
+    }
+
+    return null;
+};
+
+export const findStudentIdRefMarks = (
+    imageData: PixelData,
+    studentIdArea: Area,
+    threshold: number = 160
+): { right?: Area, bottom?: Area } => {
+    const { data, width, height } = imageData;
+    const results: { right?: Area, bottom?: Area } = {};
+
+    const findAllBlobs = (searchX: number, searchY: number, searchW: number, searchH: number, direction: 'h' | 'v'): { x: number, y: number, width: number, height: number } | undefined => {
+        const sx = Math.max(0, Math.floor(searchX));
+        const sy = Math.max(0, Math.floor(searchY));
+        const sw = Math.min(width - sx, Math.floor(searchW));
+        const sh = Math.min(height - sy, Math.floor(searchH));
+
+        let blobs: { minX: number, maxX: number, minY: number, maxY: number, centerX: number, centerY: number, area: number }[] = [];
+        const globalVisited = new Uint8Array(width * height);
+
+        for (let y = sy; y < sy + sh; y++) {
+            for (let x = sx; x < sx + sw; x++) {
+                const gIdx = y * width + x;
+                if (globalVisited[gIdx]) continue;
+
+                const idx = gIdx * 4;
+                const gray = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+                if (gray < threshold) {
+                    let minX = x, maxX = x, minY = y, maxY = y;
+                    const queue: [number, number][] = [[x, y]];
+                    globalVisited[gIdx] = 1;
+                    let count = 0;
+                    
+                    while(queue.length > 0 && count < 2000) {
+                        const [cx, cy] = queue.shift()!;
+                        count++;
+                        if (cx < minX) minX = cx;
+                        if (cx > maxX) maxX = cx;
+                        if (cy < minY) minY = cy;
+                        if (cy > maxY) maxY = cy;
+                        
+                        const neighbors: [number, number][] = [[cx+1, cy], [cx-1, cy], [cx, cy+1], [cx, cy-1]];
+                        for(const [nx, ny] of neighbors) {
+                            if (nx >= sx && nx < sx + sw && ny >= sy && ny < sy + sh) {
+                                const nidx = ny * width + nx;
+                                if (!globalVisited[nidx]) {
+                                    const nidx4 = nidx * 4;
+                                    const ngray = 0.299 * data[nidx4] + 0.587 * data[nidx4+1] + 0.114 * data[nidx4+2];
+                                    if (ngray < threshold) {
+                                        globalVisited[nidx] = 1;
+                                        queue.push([nx, ny]);
+                                    }
+                                }
+                            }
+                        }
+                    }
+                    
+                    const w = maxX - minX + 1;
+                    const h = maxY - minY + 1;
+                    // Reference marks are usually small squares (e.g. 8x8 to 20x20)
+                    if (w >= 4 && h >= 4 && w < 60 && h < 60) {
+                        blobs.push({ minX, maxX, minY, maxY, centerX: (minX + maxX) / 2, centerY: (minY + maxY) / 2, area: w * h });
+                    }
+                }
+            }
+        }
+
+        if (blobs.length === 0) return undefined;
+
+        // Group blobs into rows/cols and pick the one closest to the search start
+        if (direction === 'h') {
+            const sortedY = [...blobs].sort((a, b) => a.centerY - b.centerY);
+            const firstY = sortedY[0].centerY;
+            // Pick all blobs that are within 15px of the first encountered row
+            blobs = blobs.filter(b => Math.abs(b.centerY - firstY) < 15);
+        } else {
+            const sortedX = [...blobs].sort((a, b) => a.centerX - b.centerX);
+            const firstX = sortedX[0].centerX;
+            // Pick all blobs that are within 15px of the first encountered column
+            blobs = blobs.filter(b => Math.abs(b.centerX - firstX) < 15);
+        }
+
+        if (blobs.length === 0) return undefined;
+
+        const combinedMinX = Math.min(...blobs.map(b => b.minX));
+        const combinedMaxX = Math.max(...blobs.map(b => b.maxX));
+        const combinedMinY = Math.min(...blobs.map(b => b.minY));
+        const combinedMaxY = Math.max(...blobs.map(b => b.maxY));
+
+        return {
+            x: combinedMinX,
+            y: combinedMinY,
+            width: combinedMaxX - combinedMinX + 1,
+            height: combinedMaxY - combinedMinY + 1
+        };
+    };
+
+    const searchRangeRight = 300; 
+    const searchRangeBottom = 150; 
+
+    results.right = findAllBlobs(
+        studentIdArea.x + studentIdArea.width + 5, 
+        studentIdArea.y - 50, 
+        searchRangeRight, 
+        studentIdArea.height + 100,
+        'v'
+    ) as any;
+
+    results.bottom = findAllBlobs(
+        studentIdArea.x - 50, 
+        studentIdArea.y + studentIdArea.height + 5, 
+        studentIdArea.width + 100, 
+        searchRangeBottom,
+        'h'
+    ) as any;
+
+    return results;
+};
+
+// Flood fill from a clicked point to the surrounding box, for the "Magic Wand" tool. `region` is
+// the part of the page around the click (page coordinates in, page coordinates out).
+export const detectRectInRegion = (
+    region: PixelRegion,
+    x: number,
+    y: number,
+    threshold: number = 160
+): { x: number, y: number, width: number, height: number } | null => {
+    const { data, width: sw, height: sh, x: sx, y: sy } = region;
+
+    // Convert global click to region local coordinates
+    const localX = Math.floor(x - sx);
+    const localY = Math.floor(y - sy);
+
+    if (localX < 0 || localX >= sw || localY < 0 || localY >= sh) return null;
+
+    // Helper: is the pixel "background" (light enough)?
+    // Returns true if light, false if dark (border)
+    const isBackground = (lx: number, ly: number) => {
+        if (lx < 0 || ly < 0 || lx >= sw || ly >= sh) return false;
+        const idx = (ly * sw + lx) * 4;
+        const gray = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+        return gray > threshold;
+    };
+
+    // If clicked on a dark line, fail immediately
+    if (!isBackground(localX, localY)) return null;
+
+    // BFS Flood Fill
+    const visited = new Uint8Array(sw * sh); 
+    const queue: number[] = [localX, localY];
+    let minX = localX, maxX = localX, minY = localY, maxY = localY;
+    
+    // Safety limit to prevent freezing on huge white areas
+    const limitPixels = 200000; 
+    let count = 0;
+
+    visited[localY * sw + localX] = 1;
+
+    while (queue.length > 0) {
+        const cy = queue.pop()!;
+        const cx = queue.pop()!;
+        count++;
+
+        if (count > limitPixels) break;
+
+        if (cx < minX) minX = cx;
+        if (cx > maxX) maxX = cx;
+        if (cy < minY) minY = cy;
+        if (cy > maxY) maxY = cy;
+
+        const neighbors = [
+            cx + 1, cy,
+            cx - 1, cy,
+            cx, cy + 1,
+            cx, cy - 1
+        ];
+
+        for (let i = 0; i < neighbors.length; i += 2) {
+            const nx = neighbors[i];
+            const ny = neighbors[i + 1];
+
+            if (nx >= 0 && nx < sw && ny >= 0 && ny < sh) {
+                const idx = ny * sw + nx;
+                if (visited[idx] === 0) {
+                    if (isBackground(nx, ny)) {
+                        visited[idx] = 1;
+                        queue.push(nx, ny);
+                    } else {
+                        // Hit a border pixel (dark), stop expansion here.
+                        // Ideally we check if it's a valid edge.
+                    }
+                }
+            }
+        }
+    }
+
+    // Add padding to include the border width itself
+    const padding = 2;
+    const finalX = sx + minX - padding;
+    const finalY = sy + minY - padding;
+    const finalW = (maxX - minX) + (padding * 2);
+    const finalH = (maxY - minY) + (padding * 2);
+
+    // Filter out noise / tiny spots
+    if (finalW < 10 || finalH < 10) return null;
+
+    return { x: finalX, y: finalY, width: finalW, height: finalH };
+};
+
+export const findPeaks = (profile: number[], thresholdRatio = 0.35): number[] => {
+    const peaks: number[] = [];
+    let inPeak = false;
+    let sum = 0; 
+    let mass = 0;
+    const max = Math.max(...profile);
+    const threshold = max * thresholdRatio;
+    for (let i = 0; i < profile.length; i++) {
+        if (profile[i] > threshold) {
+            if (!inPeak) { inPeak = true; sum = 0; mass = 0; }
+            sum += i * profile[i]; mass += profile[i];
+        } else if (inPeak) {
+            inPeak = false;
+            if (mass > 0) peaks.push(sum / mass);
+        }
+    }
+    if (inPeak && mass > 0) peaks.push(sum / mass);
+    return peaks;
+};
+
+export const getHomographyMatrix = (src: PointCoord[], dst: PointCoord[]): number[][] => {
+    const P: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const x = src[i].x; const y = src[i].y;
+        const u = dst[i].x; const v = dst[i].y;
+        // Standard homography equations:
+        // u = (h00*x + h01*y + h02) / (h20*x + h21*y + 1)
+        // v = (h10*x + h11*y + h12) / (h20*x + h21*y + 1)
+        P.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        P.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+    const N = 8;
+    for (let i = 0; i < N; i++) {
+        let maxRow = i;
+        for (let j = i + 1; j < N; j++) if (Math.abs(P[j][i]) > Math.abs(P[maxRow][i])) maxRow = j;
+        [P[i], P[maxRow]] = [P[maxRow], P[i]];
+        const pivot = P[i][i];
+        if (Math.abs(pivot) < 1e-10) return [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+        for (let j = i; j < 9; j++) P[i][j] /= pivot;
+        for (let k = 0; k < N; k++) if (k !== i) {
+            const factor = P[k][i];
+            for (let j = i; j < 9; j++) P[k][j] -= factor * P[i][j];
+        }
+    }
+    const h = P.map(row => row[8]);
+    return [[h[0], h[1], h[2]], [h[3], h[4], h[5]], [h[6], h[7], 1]];
+};
+
+// Thin-plate spline through control points in template coordinates, giving a displacement in scan
+// pixels. Coordinates are divided by `scale` so that the system stays well conditioned.
+export interface ThinPlateSpline {
+    points: PointCoord[];
+    weights: PointCoord[];
+    // Affine part: [1, x, y] times these rows
+    affine: PointCoord[];
+    scale: number;
+}
+
+/**
+ * Template → scan mapping of a page: a homography through the four alignment marks, bent by a
+ * thin-plate spline through the interior marks found on the page (if the template has any).
+ */
+export interface PageWarp {
+    homography: number[][];
+    spline?: ThinPlateSpline;
+    // RMS alignment error in template pixels. With interior marks, how far each found mark lies
+    // from where the warp without it puts it; without them, how far the four corners lie from the
+    // best affine fit, which a flat scan does not leave but a curled page or a confused mark does.
+    residual: number;
+    // Interior marks that were looked for but not found on the page
+    missingMarks: number;
+}
+
+// An interior mark: where its ink sits on the template, and where it was found on the scan
+export interface InteriorMarkMatch {
+    template: PointCoord;
+    found: PointCoord | null;
+}
+
+export const applyHomography = (H: number[][], x: number, y: number): PointCoord => {
+    const denom = H[2][0] * x + H[2][1] * y + H[2][2];
+    return { x: (H[0][0] * x + H[0][1] * y + H[0][2]) / denom, y: (H[1][0] * x + H[1][1] * y + H[1][2]) / denom };
+};
+
+// Scan pixels per template pixel around a template point
+const homographyScale = (H: number[][], p: PointCoord) => {
+    const origin = applyHomography(H, p.x, p.y);
+    const right = applyHomography(H, p.x + 1, p.y);
+    const down = applyHomography(H, p.x, p.y + 1);
+    return (Math.hypot(right.x - origin.x, right.y - origin.y) + Math.hypot(down.x - origin.x, down.y - origin.y)) / 2;
+};
+
+// Gaussian elimination with partial pivoting; solves A X = B for every column of B
+const solveLinearSystem = (A: number[][], B: number[][]): number[][] | null => {
+    const n = A.length;
+    const M = A.map((row, i) => row.concat(B[i]));
+    const cols = M[0].length;
+    for (let i = 0; i < n; i++) {
+        let maxRow = i;
+        for (let j = i + 1; j < n; j++) if (Math.abs(M[j][i]) > Math.abs(M[maxRow][i])) maxRow = j;
+        [M[i], M[maxRow]] = [M[maxRow], M[i]];
+        const pivot = M[i][i];
+        if (Math.abs(pivot) < 1e-12) return null;
+        for (let j = i; j < cols; j++) M[i][j] /= pivot;
+        for (let k = 0; k < n; k++) if (k !== i) {
+            const factor = M[k][i];
+            if (factor === 0) continue;
+            for (let j = i; j < cols; j++) M[k][j] -= factor * M[i][j];
+        }
+    }
+    return M.map(row => row.slice(n));
+};
+
+const splineKernel = (r2: number) => r2 === 0 ? 0 : r2 * Math.log(r2);
+
+export const fitThinPlateSpline = (points: PointCoord[], values: PointCoord[]): ThinPlateSpline | null => {
+    const n = points.length;
+    if (n < 3) return null;
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const scale = Math.max(1, Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    const scaled = points.map(p => ({ x: p.x / scale, y: p.y / scale }));
+
+    const A: number[][] = [];
+    for (let i = 0; i < n + 3; i++) A.push(new Array(n + 3).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            A[i][j] = splineKernel((scaled[i].x - scaled[j].x) ** 2 + (scaled[i].y - scaled[j].y) ** 2);
+        }
+        const affineRow = [1, scaled[i].x, scaled[i].y];
+        for (let k = 0; k < 3; k++) {
+            A[i][n + k] = affineRow[k];
+            A[n + k][i] = affineRow[k];
+        }
+    }
+    const B = values.map(v => [v.x, v.y]).concat([[0, 0], [0, 0], [0, 0]]);
+    const solution = solveLinearSystem(A, B);
+    if (!solution || solution.some(row => row.some(v => !isFinite(v)))) return null;
+    const toPoint = (row: number[]) => ({ x: row[0], y: row[1] });
+    return { points: scaled, weights: solution.slice(0, n).map(toPoint), affine: solution.slice(n).map(toPoint), scale };
+};
+
+export const evaluateThinPlateSpline = (spline: ThinPlateSpline, x: number, y: number): PointCoord => {
+    const sx = x / spline.scale;
+    const sy = y / spline.scale;
+    const [a0, a1, a2] = spline.affine;
+    let dx = a0.x + a1.x * sx + a2.x * sy;
+    let dy = a0.y + a1.y * sx + a2.y * sy;
+    for (let i = 0; i < spline.points.length; i++) {
+        const u = splineKernel((sx - spline.points[i].x) ** 2 + (sy - spline.points[i].y) ** 2);
+        dx += spline.weights[i].x * u;
+        dy += spline.weights[i].y * u;
+    }
+    return { x: dx, y: dy };
+};
+
+/** Where a template point lies on the scanned page. */
+export const mapTemplatePoint = (warp: PageWarp, x: number, y: number): PointCoord => {
+    const p = applyHomography(warp.homography, x, y);
+    if (!warp.spline) return p;
+    const d = evaluateThinPlateSpline(warp.spline, x, y);
+    return { x: p.x + d.x, y: p.y + d.y };
+};
+
+// RMS distance (template pixels) of the four corners from the best affine fit
+const cornerAffineResidual = (srcPts: PointCoord[], idealPts: PointCoord[], H: number[][]) => {
+    const P = idealPts.map(p => [1, p.x, p.y]);
+    const PtP = [0, 1, 2].map(i => [0, 1, 2].map(j => P.reduce((sum, row) => sum + row[i] * row[j], 0)));
+    const PtU = [0, 1, 2].map(i => [
+        P.reduce((sum, row, k) => sum + row[i] * srcPts[k].x, 0),
+        P.reduce((sum, row, k) => sum + row[i] * srcPts[k].y, 0),
+    ]);
+    const affine = solveLinearSystem(PtP, PtU);
+    if (!affine) return 0;
+    const squared = idealPts.map((p, k) => {
+        const fx = affine[0][0] + affine[1][0] * p.x + affine[2][0] * p.y;
+        const fy = affine[0][1] + affine[1][1] * p.x + affine[2][1] * p.y;
+        return ((fx - srcPts[k].x) ** 2 + (fy - srcPts[k].y) ** 2) / homographyScale(H, p) ** 2;
+    });
+    return Math.sqrt(squared.reduce((a, b) => a + b, 0) / squared.length);
+};
+
+/**
+ * Builds the warp of a page from its alignment marks and the interior marks found on it. Returns
+ * null when the corners do not give a usable homography.
+ */
+export const createPageWarp = (srcCorners: Corners, idealCorners: Corners, interiorMarks: InteriorMarkMatch[] = []): PageWarp | null => {
+    const idealPts = [idealCorners.tl, idealCorners.tr, idealCorners.br, idealCorners.bl];
+    const srcPts = [srcCorners.tl, srcCorners.tr, srcCorners.br, srcCorners.bl];
+    const homography = getHomographyMatrix(idealPts, srcPts);
+    if (homography.some(row => row.some(v => isNaN(v) || !isFinite(v)))) return null;
+
+    const found = interiorMarks.filter((m): m is { template: PointCoord, found: PointCoord } => !!m.found);
+    const missingMarks = interiorMarks.length - found.length;
+    if (found.length === 0) {
+        return { homography, residual: cornerAffineResidual(srcPts, idealPts, homography), missingMarks };
+    }
+
+    // The spline only corrects what the homography leaves, so it is zero at the corners
+    const displacement = (m: { template: PointCoord, found: PointCoord }) => {
+        const p = applyHomography(homography, m.template.x, m.template.y);
+        return { x: m.found.x - p.x, y: m.found.y - p.y };
+    };
+    const fit = (marks: typeof found) => fitThinPlateSpline(
+        idealPts.concat(marks.map(m => m.template)),
+        idealPts.map(() => ({ x: 0, y: 0 })).concat(marks.map(displacement))
+    );
+    const spline = fit(found);
+    if (!spline) return { homography, residual: cornerAffineResidual(srcPts, idealPts, homography), missingMarks };
+
+    // Leave-one-out: each mark predicted by the warp fitted without it
+    const squared = found.map((mark, i) => {
+        const others = fit(found.filter((_, j) => j !== i));
+        const predicted = others ? evaluateThinPlateSpline(others, mark.template.x, mark.template.y) : { x: 0, y: 0 };
+        const actual = displacement(mark);
+        return ((predicted.x - actual.x) ** 2 + (predicted.y - actual.y) ** 2) / homographyScale(homography, mark.template) ** 2;
+    });
+    return { homography, spline, residual: Math.sqrt(squared.reduce((a, b) => a + b, 0) / squared.length), missingMarks };
+};
+
+/** Residual (template pixels) above which the alignment of a page is considered poor. */
+export const getResidualLimit = (idealCorners: Corners) =>
+    Math.max(3, Math.hypot(idealCorners.br.x - idealCorners.tl.x, idealCorners.br.y - idealCorners.tl.y) * 0.003);
+
+/**
+ * Finds interior marks on (part of) a page: the centre of the ink near where `homography` puts
+ * each mark area. With the identity homography this gives the marks' centres on the template.
+ */
+export const findInteriorMarks = (region: PixelRegion, homography: number[][], marks: Rect[], threshold = 160): (PointCoord | null)[] => {
+    const { data, width, height } = region;
+    const inkCentre = (cx: number, cy: number, halfW: number, halfH: number) => {
+        const x1 = Math.max(0, Math.floor(cx - halfW - region.x));
+        const y1 = Math.max(0, Math.floor(cy - halfH - region.y));
+        const x2 = Math.min(width, Math.ceil(cx + halfW - region.x));
+        const y2 = Math.min(height, Math.ceil(cy + halfH - region.y));
+        let count = 0, sumX = 0, sumY = 0;
+        for (let y = y1; y < y2; y++) {
+            for (let x = x1; x < x2; x++) {
+                const idx = (y * width + x) * 4;
+                if (0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2] < threshold) {
+                    count++; sumX += x; sumY += y;
+                }
+            }
+        }
+        return count === 0 ? null : { x: sumX / count + region.x + 0.5, y: sumY / count + region.y + 0.5, count };
+    };
+
+    return marks.map(mark => {
+        const centre = { x: mark.x + mark.width / 2, y: mark.y + mark.height / 2 };
+        const predicted = applyHomography(homography, centre.x, centre.y);
+        const s = homographyScale(homography, centre);
+        const halfW = mark.width * s / 2;
+        const halfH = mark.height * s / 2;
+        // Searched in twice the mark's size, then the ink re-centred within the mark's own size
+        const coarse = inkCentre(predicted.x, predicted.y, halfW * 2 + 4, halfH * 2 + 4);
+        if (!coarse) return null;
+        const fine = inkCentre(coarse.x, coarse.y, halfW + 2, halfH + 2);
+        const minInk = Math.max(9, halfW * halfH * 4 * 0.05);
+        if (!fine || fine.count < minInk) return null;
+        return { x: fine.x, y: fine.y };
+    });
+};
+
+/**
+ * The part of the scanned page that `targetArea` (template coordinates) is warped from, so that
+ * only that part has to be read from the page.
+ */
+export const getWarpSourceBounds = (warp: PageWarp, targetArea: Rect, pageWidth: number, pageHeight: number): Rect => {
+    // The spline can bend the edges, so points along them are mapped and not just the corners
+    const steps = warp.spline ? 8 : 1;
+    const edgePoints: PointCoord[] = [];
+    for (let i = 0; i <= steps; i++) {
+        const t = i / steps;
+        edgePoints.push(
+            { x: targetArea.x + t * targetArea.width, y: targetArea.y },
+            { x: targetArea.x + t * targetArea.width, y: targetArea.y + targetArea.height },
+            { x: targetArea.x, y: targetArea.y + t * targetArea.height },
+            { x: targetArea.x + targetArea.width, y: targetArea.y + t * targetArea.height },
+        );
+    }
+    const corners = edgePoints.map(p => mapTemplatePoint(warp, p.x, p.y));
+    if (corners.some(c => !isFinite(c.x) || !isFinite(c.y))) return { x: 0, y: 0, width: pageWidth, height: pageHeight };
+    // One pixel more on each side for the bilinear interpolation (a few more where the spline bends between the sampled points)
+    const margin = warp.spline ? 4 : 1;
+    const x1 = Math.max(0, Math.floor(Math.min(...corners.map(c => c.x))) - margin);
+    const y1 = Math.max(0, Math.floor(Math.min(...corners.map(c => c.y))) - margin);
+    const x2 = Math.min(pageWidth, Math.ceil(Math.max(...corners.map(c => c.x))) + margin + 1);
+    const y2 = Math.min(pageHeight, Math.ceil(Math.max(...corners.map(c => c.y))) + margin + 1);
+    return { x: x1, y: y1, width: Math.max(0, x2 - x1), height: Math.max(0, y2 - y1) };
+};
+
+// Spline displacement on a grid over the target area, interpolated per pixel instead of evaluated
+const SPLINE_GRID_STEP = 16;
+
+const createDisplacementGrid = (spline: ThinPlateSpline, targetArea: Rect, w: number, h: number) => {
+    const cols = Math.ceil(w / SPLINE_GRID_STEP) + 1;
+    const rows = Math.ceil(h / SPLINE_GRID_STEP) + 1;
+    const gx = new Float64Array(cols * rows);
+    const gy = new Float64Array(cols * rows);
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            const d = evaluateThinPlateSpline(spline, targetArea.x + c * SPLINE_GRID_STEP, targetArea.y + r * SPLINE_GRID_STEP);
+            gx[r * cols + c] = d.x;
+            gy[r * cols + c] = d.y;
+        }
+    }
+    return (dx: number, dy: number): PointCoord => {
+        const fc = dx / SPLINE_GRID_STEP;
+        const fr = dy / SPLINE_GRID_STEP;
+        const c0 = Math.min(cols - 2, Math.floor(fc));
+        const r0 = Math.min(rows - 2, Math.floor(fr));
+        const tc = fc - c0;
+        const tr = fr - r0;
+        const at = (grid: Float64Array) =>
+            (grid[r0 * cols + c0] * (1 - tc) + grid[r0 * cols + c0 + 1] * tc) * (1 - tr) +
+            (grid[(r0 + 1) * cols + c0] * (1 - tc) + grid[(r0 + 1) * cols + c0 + 1] * tc) * tr;
+        return { x: at(gx), y: at(gy) };
+    };
+};
+
+/**
+ * Warps `targetArea` (template coordinates) out of a scanned page, of which `source` may be only
+ * a part. Pixels that fall outside the page are transparent. Returns null when the warp is not
+ * possible or nothing of the page falls inside the area.
+ */
+export const warpPixels = (
+    source: PixelRegion,
+    pageWidth: number,
+    pageHeight: number,
+    warp: PageWarp,
+    targetArea: Rect
+): PixelData | null => {
+    const H = warp.homography;
+    const w = Math.floor(targetArea.width);
+    const h = Math.floor(targetArea.height);
+    if (w <= 0 || h <= 0) {
+        console.error("warpPixels: Invalid target dimensions", { w, h });
+        return null;
+    }
+
+    const destData = new Uint8ClampedArray(w * h * 4);
+    const srcData = source.data;
+    const h00 = H[0][0], h01 = H[0][1], h02 = H[0][2];
+    const h10 = H[1][0], h11 = H[1][1], h12 = H[1][2];
+    const h20 = H[2][0], h21 = H[2][1], h22 = H[2][2];
+    const displacement = warp.spline ? createDisplacementGrid(warp.spline, targetArea, w, h) : null;
+
+    let validPixels = 0;
+
+    for (let dy = 0; dy < h; dy++) {
+        for (let dx = 0; dx < w; dx++) {
+            // tx, ty are coordinates in the IDEAL (template) space
+            const tx = targetArea.x + dx;
+            const ty = targetArea.y + dy;
+
+            // Map ideal coordinates back to the scanned image coordinates
+            const denom = h20 * tx + h21 * ty + h22;
+
+            // Avoid division by zero
+            if (Math.abs(denom) < 1e-10) continue;
+
+            let sx = (h00 * tx + h01 * ty + h02) / denom;
+            let sy = (h10 * tx + h11 * ty + h12) / denom;
+            if (displacement) {
+                const d = displacement(dx, dy);
+                sx += d.x;
+                sy += d.y;
+            }
+
+            // Check if the mapped source coordinate is within the bounds of the scanned image (and the part we have of it)
+            const lx = sx - source.x;
+            const ly = sy - source.y;
+            if (sx >= 0 && sx < pageWidth - 1 && sy >= 0 && sy < pageHeight - 1 && lx >= 0 && lx < source.width - 1 && ly >= 0 && ly < source.height - 1) {
+                // Bilinear Interpolation for smoother tilted images
+                const x0 = Math.floor(lx);
+                const x1 = x0 + 1;
+                const y0 = Math.floor(ly);
+                const y1 = y0 + 1;
+
+                const dx1 = lx - x0;
+                const dy1 = ly - y0;
+                const dx0 = 1 - dx1;
+                const dy0 = 1 - dy1;
+
+                const idx00 = (y0 * source.width + x0) * 4;
+                const idx10 = (y0 * source.width + x1) * 4;
+                const idx01 = (y1 * source.width + x0) * 4;
+                const idx11 = (y1 * source.width + x1) * 4;
+                const destIdx = (dy * w + dx) * 4;
+
+                for (let c = 0; c < 4; c++) {
+                    destData[destIdx + c] =
+                        srcData[idx00 + c] * dx0 * dy0 +
+                        srcData[idx10 + c] * dx1 * dy0 +
+                        srcData[idx01 + c] * dx0 * dy1 +
+                        srcData[idx11 + c] * dx1 * dy1;
+                }
+                // Force alpha to 255 if it's somehow getting zeroed out by interpolation
+                destData[destIdx + 3] = 255;
+                validPixels++;
+            }
+            // Pixels outside the scanned image stay transparent
+        }
+    }
+
+    if (validPixels === 0) {
+        console.warn("warpPixels: Result image is completely empty/transparent. Check alignment coordinates.", {
+            targetArea,
+            srcImageSize: { w: pageWidth, h: pageHeight },
+            warp
+        });
+        return null;
+    }
+    return { data: destData, width: w, height: h };
+};
+
+export interface MarkSheetReadOptions {
+    options: number;
+    layout?: 'horizontal' | 'vertical';
+    sensitivity: number;
+    refR?: Area;
+    refB?: Area;
+    // Warped pages are read with a slightly more lenient fill threshold
+    isWarped: boolean;
+}
+
+/**
+ * Reads which bubbles of a mark sheet question are filled. The bubble positions come from the
+ * reference marks when there are any, else the area is divided evenly. `region` must cover the
+ * area and its reference marks (page coordinates).
+ */
+export const readMarkSheet = (region: PixelRegion, area: Area, settings: MarkSheetReadOptions): { index: number | number[], positions: {x:number,y:number}[] } => {
+    const { sensitivity, refR, refB, isWarped } = settings;
+    const { data } = region;
+    const fillGrayThreshold = Math.floor(255 / sensitivity);
+    const fillRatioThreshold = 0.20 + (sensitivity - 1.1) * 0.1;
+
+    // Dark pixel count per column ('x') or row ('y') of an area, clipped to the region
+    const getProj = (a: Area, dir: 'x' | 'y') => {
+        const sx = Math.floor(a.x); const sy = Math.floor(a.y);
+        const sw = Math.floor(a.width); const sh = Math.floor(a.height);
+        if (sw <= 0 || sh <= 0) return [];
+        const size = dir === 'x' ? sw : sh;
+        const profile = new Array(size).fill(0);
+        for (let y = 0; y < sh; y++) {
+            const ry = sy + y - region.y;
+            if (ry < 0 || ry >= region.height) continue;
+            for (let x = 0; x < sw; x++) {
+                const rx = sx + x - region.x;
+                if (rx < 0 || rx >= region.width) continue;
+                const idx = (ry * region.width + rx) * 4;
+                if ((0.299 * data[idx] + 0.587 * data[idx+1] + 0.114 * data[idx+2]) < 160) {
+                    if (dir === 'x') profile[x]++; else profile[y]++;
+                }
+            }
+        }
+        return profile;
+    };
+
+    let options = settings.options || 4;
+    const isH = settings.layout === 'horizontal';
+    let rows: number[] = [], cols: number[] = [];
+
+    if (isH) {
+        rows = [area.y + area.height / 2];
+        if (refB) {
+            const peaks = findPeaks(getProj(refB, 'x'));
+            if (peaks.length > 0) { cols = peaks.map(px => refB.x + px); options = cols.length; }
+        }
+        if (cols.length === 0) for(let i=0; i<options; i++) cols.push(area.x + (area.width/options) * (i+0.5));
+    } else {
+        cols = [area.x + area.width / 2];
+        if (refR) {
+            const peaks = findPeaks(getProj(refR, 'y'));
+            if (peaks.length > 0) { rows = peaks.map(py => refR.y + py); options = rows.length; }
+        }
+        if (rows.length === 0) for(let i=0; i<options; i++) rows.push(area.y + (area.height/options) * (i+0.5));
+    }
+
+    const pos: {x:number,y:number}[] = [];
+    const marks: number[] = [];
+    const roi = 20; // Increased ROI for better robustness
+
+    for (let i = 0; i < options; i++) {
+        const cx = isH ? cols[i] : cols[0];
+        const cy = isH ? rows[0] : rows[i];
+        pos.push({ x: cx, y: cy });
+
+        let darkCount = 0;
+        // Ensure we don't go out of bounds
+        const startX = Math.max(region.x, Math.floor(cx - roi/2));
+        const startY = Math.max(region.y, Math.floor(cy - roi/2));
+        const actualRoiW = Math.min(roi, region.x + region.width - startX);
+        const actualRoiH = Math.min(roi, region.y + region.height - startY);
+
+        if (actualRoiW <= 0 || actualRoiH <= 0) continue;
+
+        for (let y = startY; y < startY + actualRoiH; y++) {
+            for (let x = startX; x < startX + actualRoiW; x++) {
+                const k = ((y - region.y) * region.width + (x - region.x)) * 4;
+                const gray = (0.299*data[k]+0.587*data[k+1]+0.114*data[k+2]);
+                if (gray < fillGrayThreshold) darkCount++;
+            }
+        }
+        const ratio = darkCount / (actualRoiW * actualRoiH);
+
+        // Slightly more lenient threshold for warped images
+        const adjustedFillRatioThreshold = isWarped ? fillRatioThreshold * 0.85 : fillRatioThreshold;
+
+        if (ratio > adjustedFillRatioThreshold) marks.push(i);
+    }
+
+    return {
+        index: marks.length === 1 ? marks[0] : marks.length > 1 ? marks : -1,
+        positions: pos
+    };
+};
+
+// Everything the image worker can run, by name
+export const imageTasks = {
+    findAlignmentMarks,
+    findStudentIdRefMarks,
+    detectRectInRegion,
+    findInteriorMarks,
+    warpPixels,
+    readMarkSheet,
+};
+
+export type ImageTasks = typeof imageTasks;
@@ -0,0 +1,27 @@
+import { imageTasks } from './imageProcessing';
+import type { ImageTasks } from './imageProcessing';
+
+// Entry point of the image worker: runs one task of imageProcessing.ts per message and posts the
+// result back, handing over pixel buffers instead of copying them.
+
+interface WorkerScope {
+    onmessage: ((event: MessageEvent) => void) | null;
+    postMessage: (message: unknown, transfer?: Transferable[]) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const resultBuffers = (result: unknown): Transferable[] => {
+    const data = (result as { data?: unknown } | null)?.data;
+    return data instanceof Uint8ClampedArray ? [data.buffer] : [];
+};
+
+scope.onmessage = (event: MessageEvent<{ id: number; task: keyof ImageTasks; args: unknown[] }>) => {
+    const { id, task, args } = event.data;
+    try {
+        const result = (imageTasks[task] as (...taskArgs: unknown[]) => unknown)(...args);
+        scope.postMessage({ id, result }, resultBuffers(result));
+    } catch (error) {
+        scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,151 @@
+import { imageTasks } from './imageProcessing';
+import type { ImageTasks } from './imageProcessing';
+
+// Runs the pixel algorithms of imageProcessing.ts in a pool of Web Workers so that detection and
+// warping over a whole class do not freeze the UI. Where workers are not available (or the worker
+// script fails to load) tasks run on the main thread instead, with the same promise-based API.
+
+// Injected by webpack (DefinePlugin): where the image worker bundle is served from
+declare const IMAGE_WORKER_URL: string;
+
+type ImageTaskName = keyof ImageTasks;
+type ImageTaskArgs<K extends ImageTaskName> = Parameters<ImageTasks[K]>;
+type ImageTaskResult<K extends ImageTaskName> = ReturnType<ImageTasks[K]>;
+
+export interface ImageTaskProgress {
+    // Tasks finished and submitted since the pool was last idle
+    completed: number;
+    total: number;
+}
+
+interface QueuedTask {
+    id: number;
+    task: ImageTaskName;
+    args: unknown[];
+    transfer: Transferable[];
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+    worker: Worker;
+    current: QueuedTask | null;
+}
+
+const MAX_WORKERS = 4;
+
+let workers: PooledWorker[] | null = null;
+let isWorkerUnavailable = false;
+// Buffers are only handed over once a worker has answered, so that tasks sent to a worker that
+// failed to start still have their pixels and can be run on the main thread
+let hasWorkerResponded = false;
+let nextTaskId = 1;
+const queue: QueuedTask[] = [];
+const progressListeners = new Set<(progress: ImageTaskProgress) => void>();
+const progress: ImageTaskProgress = { completed: 0, total: 0 };
+
+const reportProgress = () => {
+    const snapshot = { ...progress };
+    progressListeners.forEach(listener => listener(snapshot));
+    if (progress.completed === progress.total) {
+        progress.completed = 0;
+        progress.total = 0;
+    }
+};
+
+const finishTask = (task: QueuedTask, outcome: { result?: unknown; error?: string }) => {
+    progress.completed++;
+    if (outcome.error !== undefined) task.reject(new Error(outcome.error));
+    else task.resolve(outcome.result);
+    reportProgress();
+};
+
+// Tasks run inline after the current call returns, so callers always get an asynchronous result
+const runOnMainThread = (task: QueuedTask) => {
+    setTimeout(() => {
+        try {
+            finishTask(task, { result: (imageTasks[task.task] as (...args: unknown[]) => unknown)(...task.args) });
+        } catch (error) {
+            finishTask(task, { error: error instanceof Error ? error.message : String(error) });
+        }
+    }, 0);
+};
+
+const fallBackToMainThread = (reason: unknown) => {
+    console.warn('Image worker unavailable, processing images on the main thread:', reason);
+    isWorkerUnavailable = true;
+    (workers || []).forEach(pooled => {
+        pooled.worker.terminate();
+        if (!pooled.current) return;
+        if (hasWorkerResponded) finishTask(pooled.current, { error: 'Image worker failed' });
+        else runOnMainThread(pooled.current);
+    });
+    workers = null;
+    queue.splice(0).forEach(runOnMainThread);
+};
+
+const dispatch = () => {
+    if (!workers) return;
+    for (const pooled of workers) {
+        if (pooled.current || queue.length === 0) continue;
+        const task = queue.shift()!;
+        pooled.current = task;
+        pooled.worker.postMessage({ id: task.id, task: task.task, args: task.args }, hasWorkerResponded ? task.transfer : []);
+    }
+};
+
+const createWorkers = (): PooledWorker[] | null => {
+    if (isWorkerUnavailable) return null;
+    if (typeof Worker === 'undefined' || typeof IMAGE_WORKER_URL === 'undefined') {
+        isWorkerUnavailable = true;
+        return null;
+    }
+    try {
+        const count = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+        return Array.from({ length: count }, () => {
+            const pooled: PooledWorker = { worker: new Worker(IMAGE_WORKER_URL), current: null };
+            pooled.worker.onmessage = (event: MessageEvent<{ id: number; result?: unknown; error?: string }>) => {
+                hasWorkerResponded = true;
+                const task = pooled.current;
+                if (!task || task.id !== event.data.id) return;
+                pooled.current = null;
+                finishTask(task, event.data);
+                dispatch();
+            };
+            // A worker that fails (e.g. its script could not be loaded) takes the pool down with it
+            pooled.worker.onerror = (event) => {
+                event.preventDefault();
+                fallBackToMainThread(event.message || event);
+            };
+            return pooled;
+        });
+    } catch (error) {
+        fallBackToMainThread(error);
+        return null;
+    }
+};
+
+/**
+ * Runs a task of imageProcessing.ts off the main thread. Buffers in `transfer` are handed to the
+ * worker and can no longer be used by the caller.
+ */
+export const runImageTask = <K extends ImageTaskName>(task: K, args: ImageTaskArgs<K>, transfer: Transferable[] = []): Promise<ImageTaskResult<K>> => {
+    return new Promise((resolve, reject) => {
+        const queued: QueuedTask = { id: nextTaskId++, task, args, transfer, resolve, reject };
+        progress.total++;
+        reportProgress();
+        if (!workers) workers = createWorkers();
+        if (!workers) {
+            runOnMainThread(queued);
+            return;
+        }
+        queue.push(queued);
+        dispatch();
+    });
+};
+
+/** Reports how far the submitted image tasks have come, until the pool is idle again. */
+export const subscribeImageTaskProgress = (listener: (progress: ImageTaskProgress) => void) => {
+    progressListeners.add(listener);
+    return () => { progressListeners.delete(listener); };
+};
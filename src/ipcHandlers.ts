@@ -4,16 +4,20 @@ import { GoogleGenAI } from '@google/genai';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
+import { loadAllProjects, saveProjects, replaceAllProjects } from './projectStorage';
+import { createBackup, listBackups, maybeCreateBackups, restoreBackup } from './backups';
+import { requestChatCompletion } from './api/openAICompatible';
+import { readGeminiUsage } from './api/usageMetadata';
+import { MOCK_FIXTURES_KEY, generateMockContent, getMockAIMode, recordMockFixture } from './api/mockAI';
+import type { MockAIFixtures } from './api/mockAI';
+import { getStorageUsage, persistentStorageDir, purgeUnreferencedFiles } from './storageManager';
+import { enqueueStorageTask, getCorruptFiles, isCorruptFile, readJsonFile, reportCorruptFile, setAsideCorruptFile, writeFileAtomic } from './storageUtils';
 
 // Manually declare Node.js global `Buffer` to resolve TypeScript errors as the node type definitions could not be found.
 declare const Buffer: {
     from(data: any): any;
 };
 
-// Create a dedicated persistent storage directory for this application
-const persistentStorageDir = path.join(app.getPath('userData'), 'batch-grader-files');
-fs.mkdir(persistentStorageDir, { recursive: true }).catch(console.error);
-
 const getUserDataPath = (key: string) => path.join(app.getPath('userData'), `${key}.json`);
 
 export const registerIpcHandlers = () => {
@@ -74,19 +78,30 @@ export const registerIpcHandlers = () => {
     // Persistent Data Storage Handlers
     ipcMain.handle('load-data', async (event, key) => {
         try {
+            if (key === 'projects') return await loadAllProjects();
             const filePath = getUserDataPath(key);
-            const data = await fs.readFile(filePath, 'utf-8');
-            return JSON.parse(data);
+            const result = await readJsonFile(filePath);
+            if (result.status === 'corrupt') reportCorruptFile(filePath, result.error);
+            // Missing or unreadable files return null and the frontend handles it (e.g. migration).
+            // Corruption is surfaced separately through 'get-data-recovery-info'.
+            return result.status === 'ok' ? result.data : null;
         } catch (error) {
-            // If file doesn't exist or error, return null to let frontend handle it (e.g. migration)
             return null;
         }
     });
 
     ipcMain.handle('save-data', async (event, { key, data }) => {
         try {
+            if (key === 'projects') {
+                await replaceAllProjects(data);
+                return { success: true };
+            }
             const filePath = getUserDataPath(key);
-            await fs.writeFile(filePath, JSON.stringify(data));
+            await enqueueStorageTask(async () => {
+                await maybeCreateBackups();
+                if (isCorruptFile(filePath)) await setAsideCorruptFile(filePath);
+                await writeFileAtomic(filePath, JSON.stringify(data));
+            });
             return { success: true };
         } catch (error: any) {
             console.error(`Failed to save ${key}:`, error);
@@ -94,12 +109,85 @@ export const registerIpcHandlers = () => {
         }
     });
 
+    // Incremental project save: only changed projects are rewritten
+    ipcMain.handle('save-projects', async (event, { changed, deletedIds }) => {
+        try {
+            await saveProjects(changed || {}, deletedIds || []);
+            return { success: true };
+        } catch (error: any) {
+            console.error('Failed to save projects:', error);
+            return { success: false, error: error.message };
+        }
+    });
+
+    // Backups and crash recovery
+    ipcMain.handle('get-data-recovery-info', async () => {
+        return { corruptFiles: getCorruptFiles(), backups: await listBackups() };
+    });
+
+    ipcMain.handle('list-backups', async () => {
+        return listBackups();
+    });
+
+    ipcMain.handle('create-backup', async () => {
+        try {
+            const backup = await createBackup('manual');
+            return { success: true, backup };
+        } catch (error: any) {
+            console.error('Failed to create backup:', error);
+            return { success: false, error: error.message };
+        }
+    });
+
+    ipcMain.handle('restore-backup', async (event, backupId) => {
+        try {
+            await restoreBackup(backupId);
+            return { success: true };
+        } catch (error: any) {
+            console.error('Failed to restore backup:', error);
+            return { success: false, error: error.message };
+        }
+    });
+
+    // Storage management: disk usage per project and cleanup of unreferenced scans
+    ipcMain.handle('get-storage-usage', async (event, { retainedPaths = [] } = {}) => {
+        try {
+            return { success: true, report: await getStorageUsage(retainedPaths) };
+        } catch (error: any) {
+            console.error('Failed to compute storage usage:', error);
+            return { success: false, error: error.message };
+        }
+    });
+
+    ipcMain.handle('purge-unreferenced-files', async (event, { dryRun = true, fileNames = [], retainedPaths = [] } = {}) => {
+        try {
+            return { success: true, ...(await purgeUnreferencedFiles(dryRun, fileNames, retainedPaths)) };
+        } catch (error: any) {
+            console.error('Failed to purge unreferenced files:', error);
+            return { success: false, error: error.message };
+        }
+    });
+
     // Content generation
-    ipcMain.handle('gemini-generate-content', async (event, { model = 'gemini-3-flash-preview', contents, config }) => {
+    ipcMain.handle('gemini-generate-content', async (event, { model = 'gemini-3-flash-preview', contents, config, mock }) => {
+        const request = { model, contents, config };
+        const mockMode = getMockAIMode(mock);
+        const fixturesPath = getUserDataPath(MOCK_FIXTURES_KEY);
         try {
+            if (mockMode === 'replay') {
+                const fixtures = await readJsonFile<MockAIFixtures>(fixturesPath);
+                return generateMockContent(request, fixtures.status === 'ok' ? fixtures.data : null);
+            }
             const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
             const response = await ai.models.generateContent({ model, contents, config });
-            return { success: true, text: response.text };
+            const result = { success: true, text: response.text, usage: readGeminiUsage(response.usageMetadata) };
+            if (mockMode === 'record') {
+                await enqueueStorageTask(async () => {
+                    const fixtures = await readJsonFile<MockAIFixtures>(fixturesPath);
+                    await writeFileAtomic(fixturesPath, JSON.stringify(recordMockFixture(fixtures.status === 'ok' ? fixtures.data : null, request, result)));
+                });
+            }
+            return result;
 
         } catch (error: any) {
             console.error('Error calling Gemini API:', error);
@@ -107,11 +195,38 @@ export const registerIpcHandlers = () => {
         }
     });
 
-    // Project import
+    // Content generation on an OpenAI-compatible server (e.g. a local Ollama or llama.cpp instance)
+    ipcMain.handle('openai-compatible-generate', async (event, { baseUrl, apiKey, body }) => {
+        const result = await requestChatCompletion(baseUrl, apiKey, body);
+        if (!result.success) console.error('Error calling OpenAI-compatible API:', result.error);
+        return result;
+    });
+
+    // Reads the raw bytes of an image stored by 'save-file-temp' (used for project archives)
+    ipcMain.handle('read-stored-file', async (event, fileUrl) => {
+        try {
+            const systemPath = fileUrl.startsWith('file://') ? fileURLToPath(fileUrl) : fileUrl;
+            const relative = path.relative(persistentStorageDir, path.resolve(systemPath));
+            if (relative.startsWith('..') || path.isAbsolute(relative)) {
+                throw new Error(`File is outside of the app storage: ${systemPath}`);
+            }
+            const data = await fs.readFile(systemPath);
+            return { success: true, data };
+        } catch (error: any) {
+            console.error('[IPC: read-stored-file] Failed:', fileUrl, error);
+            return { success: false, error: error.message };
+        }
+    });
+
+    // Project import (zip archive, or legacy JSON without images)
     ipcMain.handle('import-project', async () => {
         const { canceled, filePaths } = await dialog.showOpenDialog({
             properties: ['openFile'],
-            filters: [{ name: 'JSON Project Files', extensions: ['json'] }]
+            filters: [
+                { name: 'Project Files', extensions: ['zip', 'json'] },
+                { name: 'Project Archives', extensions: ['zip'] },
+                { name: 'JSON Project Files', extensions: ['json'] },
+            ]
         });
 
         if (canceled || filePaths.length === 0) {
@@ -119,14 +234,18 @@ export const registerIpcHandlers = () => {
         }
 
         try {
+            if (path.extname(filePaths[0]).toLowerCase() === '.zip') {
+                const data = await fs.readFile(filePaths[0]);
+                return { success: true, format: 'zip', data };
+            }
             const data = await fs.readFile(filePaths[0], 'utf-8');
-            return { success: true, data };
+            return { success: true, format: 'json', data };
         } catch (error: any) {
             return { success: false, error: error.message };
         }
     });
 
-    // Project export
+    // Project export (legacy JSON)
     ipcMain.handle('export-project', async (event, { projectName, projectData }) => {
          const { canceled, filePath } = await dialog.showSaveDialog({
             title: 'プロジェクトをエクスポート',
@@ -146,6 +265,26 @@ export const registerIpcHandlers = () => {
         }
     });
 
+    // Project export as a self-contained zip archive including images
+    ipcMain.handle('export-project-archive', async (event, { projectName, archiveData }) => {
+        const { canceled, filePath } = await dialog.showSaveDialog({
+            title: 'プロジェクトをエクスポート',
+            defaultPath: `${projectName}.zip`,
+            filters: [{ name: 'Project Archives', extensions: ['zip'] }]
+        });
+
+        if (canceled || !filePath) {
+            return { success: false, error: 'Export canceled.' };
+        }
+
+        try {
+            await fs.writeFile(filePath, Buffer.from(archiveData));
+            return { success: true, path: filePath };
+        } catch (error: any) {
+            return { success: false, error: error.message };
+        }
+    });
+
     // Sheet Layout Import
     ipcMain.handle('import-sheet-layout', async () => {
         const { canceled, filePaths } = await dialog.showOpenDialog({
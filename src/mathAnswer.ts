@@ -0,0 +1,259 @@
+import { ScoringStatus } from './types';
+import type { Point } from './types';
+import { toHalfWidth } from './utils';
+
+// Numbers, fractions and simple algebraic expressions, compared by value rather than by text,
+// so that 1/2, 0.5 and 2/4 all match the same answer key.
+
+type Evaluate = (values: Record<string, number>) => number;
+
+interface Token {
+    kind: 'number' | 'variable' | 'operator';
+    text: string;
+}
+
+export interface ParsedMathAnswer {
+    evaluate: Evaluate;
+    variables: string[];
+    // Unit written after a numeric answer, e.g. "cm"; empty when there is none
+    unit: string;
+    // The answer as understood, for display next to the transcription
+    display: string;
+}
+
+// Values the variables take when two expressions are compared
+const SAMPLE_VALUES = [0.7, 1.3, 2.1, -0.6, 3.7];
+
+/** Writing variants unified: full-width characters, superscripts, ×, ÷ and the various minus signs. */
+const normalizeMathText = (text: string) => toHalfWidth(text)
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .normalize('NFKC')
+    .replace(/[×✕・·]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–—ー]/g, '-')
+    .replace(/(\d),(?=\d{3}(\D|$))/g, '$1')
+    .replace(/\s+/g, '')
+    .toLowerCase();
+
+const tokenize = (text: string): Token[] | null => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const rest = text.slice(i);
+        const number = rest.match(/^(\d+\.?\d*|\.\d+)/);
+        if (number) {
+            tokens.push({ kind: 'number', text: number[0] });
+            i += number[0].length;
+        } else if (rest.startsWith('sqrt')) {
+            tokens.push({ kind: 'operator', text: '√' });
+            i += 4;
+        } else if (rest.startsWith('pi') || text[i] === 'π') {
+            tokens.push({ kind: 'number', text: 'π' });
+            i += text[i] === 'π' ? 1 : 2;
+        } else if ('+-*/^()√'.includes(text[i])) {
+            tokens.push({ kind: 'operator', text: text[i] });
+            i++;
+        } else if (/[a-z]/.test(text[i])) {
+            tokens.push({ kind: 'variable', text: text[i] });
+            i++;
+        } else {
+            return null;
+        }
+    }
+    return tokens;
+};
+
+// Recursive descent with the usual precedence; a term directly followed by another (2x, 3(x+1), 2√3) is a product
+const parseTokens = (tokens: Token[]): Evaluate | null => {
+    let pos = 0;
+    const isOperator = (text: string) => tokens[pos]?.kind === 'operator' && tokens[pos].text === text;
+    const startsPrimary = () => !!tokens[pos] && (tokens[pos].kind !== 'operator' || isOperator('(') || isOperator('√'));
+
+    const parsePrimary = (): Evaluate => {
+        const token = tokens[pos++];
+        if (!token) throw new Error('Unexpected end of expression');
+        if (token.kind === 'number') {
+            const value = token.text === 'π' ? Math.PI : parseFloat(token.text);
+            return () => value;
+        }
+        if (token.kind === 'variable') return values => values[token.text];
+        if (token.text === '(') {
+            const inner = parseSum();
+            if (!isOperator(')')) throw new Error('Missing closing parenthesis');
+            pos++;
+            return inner;
+        }
+        if (token.text === '√') {
+            const operand = parsePower();
+            return values => Math.sqrt(operand(values));
+        }
+        throw new Error(`Unexpected "${token.text}"`);
+    };
+    const parsePower = (): Evaluate => {
+        const base = parsePrimary();
+        if (!isOperator('^')) return base;
+        pos++;
+        const exponent = parseUnary();
+        return values => Math.pow(base(values), exponent(values));
+    };
+    const parseUnary = (): Evaluate => {
+        if (isOperator('-')) {
+            pos++;
+            const operand = parseUnary();
+            return values => -operand(values);
+        }
+        if (isOperator('+')) {
+            pos++;
+            return parseUnary();
+        }
+        return parsePower();
+    };
+    const parseProduct = (): Evaluate => {
+        let left = parseUnary();
+        for (;;) {
+            let operator: string;
+            if (isOperator('*') || isOperator('/')) operator = tokens[pos++].text;
+            else if (startsPrimary()) operator = 'implicit';
+            else break;
+            // Only an explicit operator may be followed by a sign: 2*-3, but 2-3 is a difference
+            const right = operator === 'implicit' ? parsePower() : parseUnary();
+            const l = left;
+            left = operator === '/' ? values => l(values) / right(values) : values => l(values) * right(values);
+        }
+        return left;
+    };
+    const parseSum = (): Evaluate => {
+        let left = parseProduct();
+        while (isOperator('+') || isOperator('-')) {
+            const isAddition = tokens[pos++].text === '+';
+            const right = parseProduct();
+            const l = left;
+            left = isAddition ? values => l(values) + right(values) : values => l(values) - right(values);
+        }
+        return left;
+    };
+
+    try {
+        const evaluate = parseSum();
+        return pos === tokens.length ? evaluate : null;
+    } catch (error) {
+        return null;
+    }
+};
+
+const formatNumber = (value: number) => String(parseFloat(value.toPrecision(10)));
+
+/**
+ * Reads an answer such as "0.5", "1/2", "x=3", "2(x+1)", "12cm" or "60km/h". Only the part after the last
+ * "=" counts. A trailing unit is split off when `isNumeric` (the key is a plain number), and
+ * otherwise only when the text cannot be read with it, since "2x" is a product for an expression
+ * key. Returns null when the text is not a readable expression.
+ */
+export const parseMathAnswer = (text: string, isNumeric = false): ParsedMathAnswer | null => {
+    const normalized = normalizeMathText(text);
+    const expression = normalized.slice(normalized.lastIndexOf('=') + 1);
+    if (!expression) return null;
+
+    const candidates = [{ body: expression, unit: '' }];
+    // A unit starts with a letter and may carry powers and rates: cm, cm^2, m^3, km/h, m/s^2
+    const unitMatch = expression.match(/^(.*?[\dπ)])([^\d.+\-*/^()√π]+(?:\^\d+|\/[^\d.+\-*/^()√π]+)*)$/);
+    if (unitMatch) {
+        const split = { body: unitMatch[1], unit: unitMatch[2] };
+        if (isNumeric) candidates.unshift(split);
+        else candidates.push(split);
+    }
+
+    for (const { body, unit } of candidates) {
+        const tokens = tokenize(body);
+        const evaluate = tokens && tokens.length > 0 ? parseTokens(tokens) : null;
+        if (!tokens || !evaluate) continue;
+        const variables = Array.from(new Set(tokens.filter(t => t.kind === 'variable').map(t => t.text))).sort();
+        // With a unit split off, the rest must be a plain number
+        if (unit && variables.length > 0) continue;
+        const display = variables.length > 0 ? body : formatNumber(evaluate({}));
+        return { evaluate, variables, unit, display: unit ? `${display} ${unit}` : display };
+    }
+    return null;
+};
+
+/** Equal within the tolerance at every sample point (a single comparison for plain numbers). */
+export const isMathematicallyEqual = (a: ParsedMathAnswer, b: ParsedMathAnswer, tolerance = 0) => {
+    const variables = Array.from(new Set(a.variables.concat(b.variables)));
+    const samples = variables.length === 0 ? [{}] : SAMPLE_VALUES.map((_, i) => variables.reduce((acc, name, j) => {
+        acc[name] = SAMPLE_VALUES[(i + j) % SAMPLE_VALUES.length];
+        return acc;
+    }, {} as Record<string, number>));
+
+    let compared = 0;
+    for (const values of samples) {
+        const x = a.evaluate(values);
+        const y = b.evaluate(values);
+        if (!Number.isFinite(x) || !Number.isFinite(y)) {
+            if (Number.isFinite(x) !== Number.isFinite(y)) return false;
+            continue;
+        }
+        if (Math.abs(x - y) > tolerance + 1e-9 * Math.max(1, Math.abs(y))) return false;
+        compared++;
+    }
+    return compared > 0;
+};
+
+const sameUnit = (a: string, b: string) => a.replace(/\^/g, '') === b.replace(/\^/g, '');
+
+// Units recognised after a number without being configured, as written after normalizeMathText.
+// Any other suffix ("3x", "3a") is more likely a misread or an expression than a unit.
+const KNOWN_UNITS = new Set([
+    'mm', 'cm', 'm', 'km', 'mg', 'g', 'kg', 't', 'ml', 'dl', 'l', 'kl', 'cc', 'ha',
+    's', 'min', 'h', '秒', '分', '時間', '日', '週', '週間', 'か月', 'ヶ月', '年',
+    '円', '度', '°', '%', '個', '人', '本', '枚', '回', '倍', '点', '通り', '歳', '才', '匹', '台', '冊', '杯',
+]);
+
+// Each part of a power or rate unit must be known: cm^2, km/h, m/s^2
+const isKnownUnit = (unit: string) => unit.split('/').every(part => KNOWN_UNITS.has(part.replace(/\^\d+$/, '')));
+
+// The key's configured unit is not part of its value
+const readAnswerAndKeys = (point: Point, transcription: string) => {
+    const unit = point.mathGrading?.unit ? normalizeMathText(point.mathGrading.unit) : '';
+    const keys = [point.correctAnswer || '', ...(point.acceptedAnswers || [])]
+        .map(key => {
+            const text = normalizeMathText(key);
+            return parseMathAnswer(unit && text.endsWith(unit) ? text.slice(0, -unit.length) : text);
+        })
+        .filter((key): key is ParsedMathAnswer => !!key);
+    const isNumeric = keys.length > 0 && keys.every(key => key.variables.length === 0);
+    return { keys, isNumeric, unit, answer: parseMathAnswer(transcription, isNumeric) };
+};
+
+/** The transcription as read for math grading (e.g. "0.5 cm"), or null when it cannot be read. */
+export const describeMathAnswer = (point: Point, transcription: string) => {
+    if (!point.mathGrading || !transcription.trim()) return null;
+    return readAnswerAndKeys(point, transcription).answer?.display ?? null;
+};
+
+/**
+ * Grades a transcription of a point with math grading by value. Returns null when the answer or
+ * the key cannot be read as math, or a numeric key gets an answer with letters in it that are
+ * neither the configured unit nor a known one (possibly a misread), so that the AI or the teacher decides.
+ */
+export const matchMathAnswer = (point: Point, transcription: string): { status: ScoringStatus; score: number; aiComment: string } | null => {
+    const settings = point.mathGrading;
+    if (!settings) return null;
+    const { keys, isNumeric, unit, answer } = readAnswerAndKeys(point, transcription);
+    if (!answer || keys.length === 0) return null;
+    if (isNumeric && answer.variables.length > 0) return null;
+    if (answer.unit && !(unit && sameUnit(answer.unit, unit)) && !isKnownUnit(answer.unit)) return null;
+
+    if (!keys.some(key => isMathematicallyEqual(answer, key, settings.tolerance || 0))) {
+        return { status: ScoringStatus.INCORRECT, score: 0, aiComment: `値が不一致 (${answer.display})` };
+    }
+    if (unit && !sameUnit(answer.unit, unit)) {
+        const score = Math.max(0, point.points - (settings.unitPenalty ?? 1));
+        return {
+            status: score > 0 ? ScoringStatus.PARTIAL : ScoringStatus.INCORRECT,
+            score,
+            aiComment: answer.unit ? `単位の誤り (${answer.unit})` : '単位がありません',
+        };
+    }
+    return { status: ScoringStatus.CORRECT, score: point.points, aiComment: `値が一致 (${answer.display})` };
+};
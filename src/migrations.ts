@@ -0,0 +1,275 @@
+import { AreaType } from './types';
+import type { AISettings, GradingProject, Roster, SheetLayout } from './types';
+
+// Schema versions of persisted data. Bump the version and append a migration to the
+// matching list whenever the shape of stored data changes; every load and import runs
+// the data through the same pipeline.
+export const CURRENT_PROJECT_SCHEMA_VERSION = 1;
+export const CURRENT_LAYOUT_SCHEMA_VERSION = 1;
+export const CURRENT_ROSTER_SCHEMA_VERSION = 1;
+
+export const createDefaultAISettings = (): AISettings => ({
+    batchSize: 5,
+    delayBetweenBatches: 1000,
+    gradingMode: 'quality',
+    gradingStrategy: 'per-question',
+    markSheetSensitivity: 1.5,
+    markSheetNumberingBase: 1,
+    aiProvider: 'gemini',
+    aiModel: 'gemini-3-flash-preview',
+    enableAutoAlignment: true,
+    reviewConfidenceThreshold: 0.6,
+});
+
+interface Migration {
+    // The schema version the data is in after this migration has run
+    toVersion: number;
+    migrate: (data: any, issues: string[]) => void;
+}
+
+export interface MigrationResult<T> {
+    value: T | null;
+    // Repairs made to malformed data, worth telling the user about
+    issues: string[];
+    // Set when the data was upgraded from an older schema version
+    migratedFrom: number | null;
+    error?: string;
+}
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const runMigrations = (data: any, migrations: Migration[], currentVersion: number, issues: string[]): number | null => {
+    const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+    if (fromVersion > currentVersion) {
+        throw new Error(`新しいバージョンのアプリで保存されたデータです (v${fromVersion})。アプリを更新してください。`);
+    }
+    migrations
+        .filter(m => m.toVersion > fromVersion)
+        .sort((a, b) => a.toVersion - b.toVersion)
+        .forEach(m => m.migrate(data, issues));
+    data.schemaVersion = currentVersion;
+    return fromVersion < currentVersion ? fromVersion : null;
+};
+
+// Missing fields are treated as older data and filled silently; fields that are present
+// but of the wrong type are repaired and reported.
+const ensureArray = (data: any, key: string, label: string, issues: string[]) => {
+    if (data[key] === undefined) {
+        data[key] = [];
+    } else if (!Array.isArray(data[key])) {
+        issues.push(`${label}: ${key} が不正な形式のため空にしました。`);
+        data[key] = [];
+    } else {
+        const valid = data[key].filter(isObject);
+        if (valid.length !== data[key].length) {
+            issues.push(`${label}: ${key} の不正な項目 ${data[key].length - valid.length} 件を削除しました。`);
+            data[key] = valid;
+        }
+    }
+};
+
+// --- Projects ---
+
+const projectMigrations: Migration[] = [
+    {
+        // v0 -> v1: the ad hoc normalization that used to live in ProjectContext
+        toVersion: 1,
+        migrate: (project) => {
+            if (isObject(project.template) && !project.template.pages) {
+                project.template.pages = [];
+                if (project.template.filePath) {
+                    project.template.pages.push({
+                        imagePath: project.template.filePath,
+                        width: project.template.width || 0,
+                        height: project.template.height || 0
+                    });
+                }
+            }
+            if (Array.isArray(project.uploadedSheets)) {
+                for (const sheet of project.uploadedSheets) {
+                    if (!isObject(sheet)) continue;
+                    if (!sheet.images && sheet.filePath) {
+                        sheet.images = [sheet.filePath];
+                    } else if (!sheet.images) {
+                        sheet.images = [];
+                    }
+                }
+            }
+            if (isObject(project.aiSettings)) {
+                if (!project.aiSettings.aiModel) project.aiSettings.aiModel = 'gemini-3-flash-preview';
+                if (project.aiSettings.markSheetNumberingBase === undefined) project.aiSettings.markSheetNumberingBase = 1;
+                if (project.aiSettings.enableAutoAlignment === undefined) project.aiSettings.enableAutoAlignment = true;
+            }
+            // Older builds used '学籍番号' for the student ID mark area type.
+            if (Array.isArray(project.areas)) {
+                for (const area of project.areas) {
+                    if (isObject(area) && area.type === '学籍番号') area.type = AreaType.STUDENT_ID_MARK;
+                }
+            }
+        },
+    },
+];
+
+const validateProject = (project: any, issues: string[]) => {
+    if (typeof project.id !== 'string' || !project.id) {
+        project.id = `proj_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+        issues.push(`テスト「${project.name}」: ID が無いため新しい ID を割り当てました。`);
+    }
+    if (typeof project.name !== 'string') {
+        issues.push(`テスト ${project.id}: 名前が不正なため「名称未設定」にしました。`);
+        project.name = '名称未設定';
+    }
+    const label = `テスト「${project.name}」`;
+
+    if (project.template === undefined) {
+        project.template = null;
+    } else if (project.template !== null && !isObject(project.template)) {
+        issues.push(`${label}: テンプレートが不正な形式のため削除しました。`);
+        project.template = null;
+    } else if (project.template) {
+        ensureArray(project.template, 'pages', label, issues);
+    }
+
+    ['areas', 'studentInfo', 'uploadedSheets', 'points', 'scoreAuditLog'].forEach(key => ensureArray(project, key, label, issues));
+    project.uploadedSheets.forEach((sheet: any, index: number) => {
+        if (typeof sheet.id !== 'string') sheet.id = `sheet-${Date.now()}-${index}`;
+        if (!Array.isArray(sheet.images)) {
+            issues.push(`${label}: 解答用紙 ${index + 1} の画像リストを修復しました。`);
+            sheet.images = sheet.filePath ? [sheet.filePath] : [];
+        }
+    });
+
+    if (project.scores === undefined) {
+        project.scores = {};
+    } else if (!isObject(project.scores)) {
+        issues.push(`${label}: 採点結果が不正な形式のため空にしました。`);
+        project.scores = {};
+    }
+
+    if (project.aiSettings !== undefined && !isObject(project.aiSettings)) {
+        issues.push(`${label}: AI設定が不正な形式のため初期値に戻しました。`);
+        project.aiSettings = undefined;
+    }
+    project.aiSettings = { ...createDefaultAISettings(), ...(project.aiSettings || {}) };
+
+    if (typeof project.lastModified !== 'number') project.lastModified = Date.now();
+};
+
+export const migrateProject = (raw: unknown): MigrationResult<GradingProject> => {
+    const issues: string[] = [];
+    if (!isObject(raw)) {
+        return { value: null, issues, migratedFrom: null, error: 'テストのデータ形式が正しくありません。' };
+    }
+    try {
+        const migratedFrom = runMigrations(raw, projectMigrations, CURRENT_PROJECT_SCHEMA_VERSION, issues);
+        validateProject(raw, issues);
+        return { value: raw as GradingProject, issues, migratedFrom };
+    } catch (error: any) {
+        return { value: null, issues, migratedFrom: null, error: error.message };
+    }
+};
+
+// --- Sheet Layouts ---
+
+const layoutMigrations: Migration[] = [
+    {
+        // v0 -> v1: no structural change; introduces the version field
+        toVersion: 1,
+        migrate: () => undefined,
+    },
+];
+
+export const migrateSheetLayout = (raw: unknown): MigrationResult<SheetLayout> => {
+    const issues: string[] = [];
+    if (!isObject(raw) || !Array.isArray(raw.cells)) {
+        return { value: null, issues, migratedFrom: null, error: 'レイアウトのデータ形式が正しくありません。' };
+    }
+    try {
+        const migratedFrom = runMigrations(raw, layoutMigrations, CURRENT_LAYOUT_SCHEMA_VERSION, issues);
+        const label = `レイアウト「${raw.name}」`;
+        if (typeof raw.name !== 'string') raw.name = '名称未設定';
+        if (!Array.isArray(raw.rowHeights) || !Array.isArray(raw.colWidths)) {
+            issues.push(`${label}: 行・列のサイズ情報を修復しました。`);
+            if (!Array.isArray(raw.rowHeights)) raw.rowHeights = raw.cells.map(() => 30);
+            if (!Array.isArray(raw.colWidths)) raw.colWidths = (raw.cells[0] || []).map(() => 100);
+        }
+        raw.rows = raw.cells.length;
+        raw.cols = Array.isArray(raw.cells[0]) ? raw.cells[0].length : 0;
+        return { value: raw as SheetLayout, issues, migratedFrom };
+    } catch (error: any) {
+        return { value: null, issues, migratedFrom: null, error: error.message };
+    }
+};
+
+// --- Rosters ---
+
+const rosterMigrations: Migration[] = [
+    {
+        // v0 -> v1: no structural change; introduces the version field
+        toVersion: 1,
+        migrate: () => undefined,
+    },
+];
+
+export const migrateRoster = (raw: unknown): MigrationResult<Roster> => {
+    const issues: string[] = [];
+    if (!isObject(raw)) {
+        return { value: null, issues, migratedFrom: null, error: '名簿のデータ形式が正しくありません。' };
+    }
+    try {
+        const migratedFrom = runMigrations(raw, rosterMigrations, CURRENT_ROSTER_SCHEMA_VERSION, issues);
+        if (typeof raw.name !== 'string') raw.name = '名称未設定';
+        const label = `名簿「${raw.name}」`;
+        ensureArray(raw, 'students', label, issues);
+        raw.students = raw.students.map((s: any) => ({
+            class: String(s.class ?? ''),
+            number: String(s.number ?? ''),
+            name: String(s.name ?? ''),
+        }));
+        return { value: raw as Roster, issues, migratedFrom };
+    } catch (error: any) {
+        return { value: null, issues, migratedFrom: null, error: error.message };
+    }
+};
+
+/**
+ * Runs every entry of a stored id -> record map through a migration function.
+ * Rejected entries are left out of `values` and returned untouched in `rejected`;
+ * a caller that saves the whole map must write them back, or they are lost.
+ * `changedIds` lists the entries that were upgraded or repaired and need saving.
+ */
+export const migrateRecords = <T extends { id: string }>(
+    records: Record<string, unknown> | null | undefined,
+    migrate: (raw: unknown) => MigrationResult<T>,
+    kindLabel: string
+): { values: Record<string, T>; rejected: Record<string, unknown>; changedIds: string[]; report: string[] } => {
+    const values: Record<string, T> = {};
+    const rejected: Record<string, unknown> = {};
+    const changedIds: string[] = [];
+    const report: string[] = [];
+    Object.entries(records || {}).forEach(([key, raw]) => {
+        // A record without an id takes its storage key, so references to it keep working
+        let idFromKey = false;
+        if (isObject(raw) && (typeof raw.id !== 'string' || !raw.id)) {
+            raw.id = key;
+            idFromKey = true;
+            report.push(`${kindLabel} ${key}: ID が無いため保存キーを ID にしました。`);
+        }
+        const result = migrate(raw);
+        report.push(...result.issues);
+        if (!result.value) {
+            report.push(`${kindLabel} ${key} を読み込めませんでした: ${result.error}`);
+            rejected[key] = raw;
+            return;
+        }
+        values[result.value.id] = result.value;
+        if (idFromKey || result.migratedFrom !== null || result.issues.length > 0) changedIds.push(result.value.id);
+    });
+    return { values, rejected, changedIds, report };
+};
+
+export const formatMigrationReport = (report: string[], maxLines = 10) => {
+    const lines = report.slice(0, maxLines);
+    if (report.length > maxLines) lines.push(`…他 ${report.length - maxLines} 件`);
+    return lines.join('\n');
+};
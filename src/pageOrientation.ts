@@ -0,0 +1,261 @@
+import type { Area, Corners, Template } from './types';
+import { detectAlignmentMarks, getAlignmentContext, loadImage, safeGetImageData } from './utils';
+
+// Upload-time normalization of scanned pages: pages fed sideways or upside-down are turned to the
+// template's orientation by comparing their coarse ink layout with the template pages, and any
+// remaining skew is straightened using the alignment marks or, without marks, the text lines.
+
+export interface OrientationReference {
+    signatures: Float32Array[];
+    // Landscape or portrait of each template page, matching `signatures`
+    isLandscape: boolean[];
+    idealCorners: Corners | null;
+    alignmentSettings?: Template['alignmentDetectionSettings'];
+}
+
+export interface PageOrientationResult {
+    dataUrl: string;
+    // Clockwise quarter turn applied, in degrees
+    rotation: number;
+    // Further rotation applied to straighten the page, in degrees (clockwise positive)
+    skew: number;
+    // False when the orientation could not be decided and the page should be checked by hand
+    confident: boolean;
+}
+
+const SIGNATURE_SIZE = 24;
+const ANALYSIS_SIZE = 600;
+const MAX_SKEW = 5;
+// Smaller corrections are not worth re-encoding the page for
+const MIN_SKEW = 0.2;
+const MIN_CORRELATION = 0.2;
+const MIN_CORRELATION_MARGIN = 0.05;
+// Pages with less ink than this (as a standard deviation of the signature) are treated as blank
+const MIN_INK_VARIATION = 0.01;
+
+const signatureCache = new Map<string, Float32Array>();
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+const resolveImageUrl = async (imagePath: string) => {
+    if (imagePath.startsWith('data:') || imagePath.startsWith('blob:')) return imagePath;
+    const result = await window.electronAPI.invoke('get-image-details', imagePath);
+    return result.success && result.details?.url ? result.details.url as string : null;
+};
+
+/** Draws the image turned clockwise by `quarterTurn` plus `fineAngle` degrees and scaled, on a white canvas of the turned size. */
+const drawRotated = (img: HTMLImageElement, quarterTurn: number, fineAngle: number, scale: number) => {
+    const isSideways = quarterTurn % 180 !== 0;
+    const width = img.naturalWidth * scale;
+    const height = img.naturalHeight * scale;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(isSideways ? height : width));
+    canvas.height = Math.max(1, Math.round(isSideways ? width : height));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(toRadians(quarterTurn + fineAngle));
+    ctx.drawImage(img, -width / 2, -height / 2, width, height);
+    return canvas;
+};
+
+// Coarse ink density map, independent of the page's size
+const computeSignature = (img: HTMLImageElement, quarterTurn: number): Float32Array | null => {
+    const isSideways = quarterTurn % 180 !== 0;
+    const scaleX = SIGNATURE_SIZE / (isSideways ? img.naturalHeight : img.naturalWidth);
+    const scaleY = SIGNATURE_SIZE / (isSideways ? img.naturalWidth : img.naturalHeight);
+    // The turned page is stretched to the square grid, so pages of any size compare cell by cell
+    const canvas = document.createElement('canvas');
+    canvas.width = SIGNATURE_SIZE;
+    canvas.height = SIGNATURE_SIZE;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(SIGNATURE_SIZE / 2, SIGNATURE_SIZE / 2);
+    ctx.scale(scaleX, scaleY);
+    ctx.rotate(toRadians(quarterTurn));
+    ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+    const imageData = safeGetImageData(ctx, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+    if (!imageData) return null;
+    const signature = new Float32Array(SIGNATURE_SIZE * SIGNATURE_SIZE);
+    for (let i = 0; i < signature.length; i++) {
+        const gray = 0.299 * imageData.data[i * 4] + 0.587 * imageData.data[i * 4 + 1] + 0.114 * imageData.data[i * 4 + 2];
+        signature[i] = 1 - gray / 255;
+    }
+    return signature;
+};
+
+const standardDeviation = (values: Float32Array) => {
+    let mean = 0;
+    for (let i = 0; i < values.length; i++) mean += values[i];
+    mean /= values.length;
+    let variance = 0;
+    for (let i = 0; i < values.length; i++) variance += (values[i] - mean) * (values[i] - mean);
+    return Math.sqrt(variance / values.length);
+};
+
+const correlate = (a: Float32Array, b: Float32Array) => {
+    let meanA = 0;
+    let meanB = 0;
+    for (let i = 0; i < a.length; i++) {
+        meanA += a[i];
+        meanB += b[i];
+    }
+    meanA /= a.length;
+    meanB /= b.length;
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < a.length; i++) {
+        covariance += (a[i] - meanA) * (b[i] - meanB);
+        varianceA += (a[i] - meanA) * (a[i] - meanA);
+        varianceB += (b[i] - meanB) * (b[i] - meanB);
+    }
+    return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+};
+
+/**
+ * Loads what page normalization compares against: the template pages' ink layout and the ideal
+ * positions of the alignment marks. Returns null when no template page can be read.
+ */
+export const createOrientationReference = async (template: Template, areas: Area[]): Promise<OrientationReference | null> => {
+    const signatures: Float32Array[] = [];
+    const isLandscape: boolean[] = [];
+    for (const page of template.pages) {
+        try {
+            let signature = signatureCache.get(page.imagePath);
+            if (!signature) {
+                const url = await resolveImageUrl(page.imagePath);
+                if (!url) continue;
+                signature = computeSignature(await loadImage(url), 0) || undefined;
+                if (!signature) continue;
+                signatureCache.set(page.imagePath, signature);
+            }
+            signatures.push(signature);
+            isLandscape.push(page.width > page.height);
+        } catch (error) {
+            console.warn('Could not load template page for orientation check:', page.imagePath, error);
+        }
+    }
+    if (signatures.length === 0) return null;
+    const alignment = getAlignmentContext(areas, 0, template);
+    return { signatures, isLandscape, idealCorners: alignment?.idealCorners || null, alignmentSettings: template.alignmentDetectionSettings };
+};
+
+// Best clockwise quarter turn, by how well the turned page's ink layout matches a template page of the same shape
+const detectQuarterTurn = (img: HTMLImageElement, reference: OrientationReference) => {
+    const scores: { rotation: number; score: number }[] = [];
+    for (const rotation of [0, 90, 180, 270]) {
+        const isSideways = rotation % 180 !== 0;
+        const width = isSideways ? img.naturalHeight : img.naturalWidth;
+        const height = isSideways ? img.naturalWidth : img.naturalHeight;
+        const isSquare = Math.max(width, height) / Math.min(width, height) < 1.1;
+        const signature = computeSignature(img, rotation);
+        if (!signature) return null;
+        if (rotation === 0 && standardDeviation(signature) < MIN_INK_VARIATION) return { rotation: 0, confident: true };
+
+        const matching = reference.signatures.filter((_, i) => isSquare || reference.isLandscape[i] === width > height);
+        if (matching.length === 0) continue;
+        scores.push({ rotation, score: Math.max(...matching.map(s => correlate(signature, s))) });
+    }
+    if (scores.length === 0) return null;
+    scores.sort((a, b) => b.score - a.score);
+    const margin = scores.length > 1 ? scores[0].score - scores[1].score : Infinity;
+    return { rotation: scores[0].rotation, confident: scores[0].score >= MIN_CORRELATION && margin >= MIN_CORRELATION_MARGIN };
+};
+
+const edgeAngle = (from: { x: number; y: number }, to: { x: number; y: number }) => Math.atan2(to.y - from.y, to.x - from.x) * 180 / Math.PI;
+
+// Correction (clockwise degrees) that makes the found marks' top and bottom edges parallel to the ideal ones
+const skewFromAlignmentMarks = async (imageData: ImageData, scale: number, reference: OrientationReference): Promise<number | null> => {
+    const ideal = reference.idealCorners;
+    if (!ideal) return null;
+    const settings = reference.alignmentSettings || { minSize: 8, threshold: 160, padding: 0 };
+    // The marks are searched on the reduced analysis image; a copy goes to the worker since the content is still needed here
+    const copy = new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+    const found = await detectAlignmentMarks(copy, { ...settings, minSize: Math.max(3, Math.round(settings.minSize * scale)) });
+    if (!found) return null;
+    const top = edgeAngle(found.tl, found.tr) - edgeAngle(ideal.tl, ideal.tr);
+    const bottom = edgeAngle(found.bl, found.br) - edgeAngle(ideal.bl, ideal.br);
+    // Edges that disagree mean a mark was confused with something else
+    if (Math.abs(top - bottom) > 1 || Math.abs(top) > MAX_SKEW) return null;
+    return -(top + bottom) / 2;
+};
+
+// Correction (clockwise degrees) that makes the text lines horizontal: the angle at which the
+// row profile of the dark pixels is sharpest
+const skewFromContent = (imageData: ImageData): number => {
+    const { data, width, height } = imageData;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const idx = (y * width + x) * 4;
+            if (0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2] < 128) {
+                xs.push(x - width / 2);
+                ys.push(y - height / 2);
+            }
+        }
+    }
+    if (xs.length < 100) return 0;
+
+    const binCount = Math.ceil(Math.sqrt(width * width + height * height)) + 2;
+    const profileSharpness = (angle: number) => {
+        const sin = Math.sin(toRadians(angle));
+        const cos = Math.cos(toRadians(angle));
+        const bins = new Float64Array(binCount);
+        for (let i = 0; i < xs.length; i++) {
+            bins[Math.round(xs[i] * sin + ys[i] * cos + binCount / 2)]++;
+        }
+        let sum = 0;
+        for (let i = 0; i < binCount; i++) sum += bins[i] * bins[i];
+        return sum;
+    };
+    const search = (from: number, to: number, step: number) => {
+        let best = { angle: 0, sharpness: -1 };
+        for (let angle = from; angle <= to + 1e-9; angle += step) {
+            const sharpness = profileSharpness(angle);
+            if (sharpness > best.sharpness) best = { angle, sharpness };
+        }
+        return best.angle;
+    };
+    const coarse = search(-MAX_SKEW, MAX_SKEW, 0.5);
+    return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10;
+};
+
+/**
+ * Turns a scanned page into the template's orientation and straightens residual skew. The page is
+ * returned unchanged when it needs neither. Pages whose orientation is uncertain are left as they
+ * are and reported as not confident.
+ */
+export const normalizePageOrientation = async (dataUrl: string, reference: OrientationReference): Promise<PageOrientationResult> => {
+    const unchanged = { dataUrl, rotation: 0, skew: 0 };
+    const img = await loadImage(dataUrl);
+    const turn = detectQuarterTurn(img, reference);
+    if (!turn || !turn.confident) return { ...unchanged, confident: false };
+
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const analysis = drawRotated(img, turn.rotation, 0, scale);
+    const imageData = safeGetImageData(analysis.getContext('2d')!, 0, 0, analysis.width, analysis.height);
+    let skew = 0;
+    if (imageData) {
+        const fromMarks = await skewFromAlignmentMarks(imageData, scale, reference);
+        skew = fromMarks !== null ? Math.round(fromMarks * 10) / 10 : skewFromContent(imageData);
+    }
+    if (Math.abs(skew) < MIN_SKEW) skew = 0;
+    if (turn.rotation === 0 && skew === 0) return { ...unchanged, confident: true };
+
+    const output = drawRotated(img, turn.rotation, skew, 1);
+    return { dataUrl: output.toDataURL('image/jpeg', 0.92), rotation: turn.rotation, skew, confident: true };
+};
+
+/** Turns a page clockwise by a multiple of 90 degrees, for fixing a page by hand. */
+export const rotatePageImage = async (imagePath: string, quarterTurn: number): Promise<string | null> => {
+    const url = await resolveImageUrl(imagePath);
+    if (!url) return null;
+    const img = await loadImage(url);
+    return drawRotated(img, ((quarterTurn % 360) + 360) % 360, 0, 1).toDataURL('image/jpeg', 0.92);
+};
@@ -0,0 +1,107 @@
+import JSZip from 'jszip';
+import type { GradingProject } from './types';
+import { collectProjectImagePaths, mapProjectImagePaths } from './projectImages';
+
+// A project archive is a zip containing `manifest.json`, `project.json` and every
+// template/student image the project references under `images/`. Image paths inside
+// project.json are rewritten to their archive entry names, so the archive can be
+// opened on another machine where the original file:// or blob: URLs don't exist.
+export const PROJECT_ARCHIVE_FORMAT = 'batch-grader-project';
+const PROJECT_ARCHIVE_VERSION = 1;
+
+interface ProjectArchiveManifest {
+    format: string;
+    version: number;
+    exportedAt: number;
+    projectName: string;
+    images: string[];
+}
+
+const sniffImageExtension = (bytes: Uint8Array): string => {
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) return 'jpg';
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return 'png';
+    if (bytes[0] === 0x47 && bytes[1] === 0x49) return 'gif';
+    if (bytes[0] === 0x52 && bytes[1] === 0x49) return 'webp';
+    return 'bin';
+};
+
+const readStoredImage = async (path: string): Promise<Uint8Array | null> => {
+    const result = await window.electronAPI.invoke('read-stored-file', path);
+    if (!result?.success || !result.data) return null;
+    return new Uint8Array(result.data);
+};
+
+export const buildProjectArchive = async (project: Partial<GradingProject>): Promise<{ data: ArrayBuffer; missingImages: string[] }> => {
+    const zip = new JSZip();
+    const archivedPaths = new Map<string, string>();
+    const missingImages: string[] = [];
+
+    for (const path of collectProjectImagePaths(project)) {
+        const bytes = await readStoredImage(path);
+        if (!bytes) {
+            missingImages.push(path);
+            continue;
+        }
+        const entryName = `images/${String(archivedPaths.size + 1).padStart(4, '0')}.${sniffImageExtension(bytes)}`;
+        // Scans are already compressed; deflating them again only costs time.
+        zip.file(entryName, bytes, { compression: 'STORE' });
+        archivedPaths.set(path, entryName);
+    }
+
+    const archivedProject: Partial<GradingProject> = JSON.parse(JSON.stringify(project));
+    mapProjectImagePaths(archivedProject, path => archivedPaths.get(path) || path);
+
+    const manifest: ProjectArchiveManifest = {
+        format: PROJECT_ARCHIVE_FORMAT,
+        version: PROJECT_ARCHIVE_VERSION,
+        exportedAt: Date.now(),
+        projectName: project.name || '',
+        images: Array.from(archivedPaths.values()),
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    zip.file('project.json', JSON.stringify(archivedProject, null, 2));
+
+    const data = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+    return { data, missingImages };
+};
+
+/**
+ * Unpacks a project archive, storing each bundled image through `save-file-temp`
+ * and rewriting the project to the new local paths. References that could not be
+ * resolved to a bundled image are reported in `missingImages`.
+ */
+export const unpackProjectArchive = async (data: ArrayBuffer | Uint8Array): Promise<{ project: GradingProject; missingImages: string[] }> => {
+    const zip = await JSZip.loadAsync(data);
+    const manifestFile = zip.file('manifest.json');
+    const projectFile = zip.file('project.json');
+    if (!manifestFile || !projectFile) {
+        throw new Error('プロジェクトアーカイブの形式が正しくありません。');
+    }
+    const manifest: ProjectArchiveManifest = JSON.parse(await manifestFile.async('string'));
+    if (manifest.format !== PROJECT_ARCHIVE_FORMAT) {
+        throw new Error('プロジェクトアーカイブの形式が正しくありません。');
+    }
+    if (manifest.version > PROJECT_ARCHIVE_VERSION) {
+        throw new Error('このアーカイブは新しいバージョンのアプリで作成されています。');
+    }
+
+    const project: GradingProject = JSON.parse(await projectFile.async('string'));
+    const restoredPaths = new Map<string, string>();
+    const missingImages: string[] = [];
+
+    for (const entryName of collectProjectImagePaths(project)) {
+        const entry = zip.file(entryName);
+        const buffer = entry ? await entry.async('arraybuffer') : null;
+        const savedPath = buffer
+            ? await window.electronAPI.invoke('save-file-temp', { buffer, originalName: entryName.split('/').pop() })
+            : null;
+        if (savedPath) {
+            restoredPaths.set(entryName, savedPath);
+        } else {
+            missingImages.push(entryName);
+        }
+    }
+
+    mapProjectImagePaths(project, path => restoredPaths.get(path) || path);
+    return { project, missingImages };
+};
@@ -0,0 +1,33 @@
+import type { GradingProject } from './types';
+
+/**
+ * Replaces every image reference in a project (template pages, student sheets and the pages their
+ * stored alignment corners belong to) with the value returned by `mapPath`. Mutates the given project.
+ */
+export const mapProjectImagePaths = (project: Partial<GradingProject>, mapPath: (path: string) => string) => {
+    if (project.template) {
+        if (project.template.filePath) project.template.filePath = mapPath(project.template.filePath);
+        project.template.pages?.forEach(page => {
+            if (page.imagePath) page.imagePath = mapPath(page.imagePath);
+        });
+    }
+    project.uploadedSheets?.forEach(sheet => {
+        if (sheet.filePath) sheet.filePath = mapPath(sheet.filePath);
+        if (sheet.images) sheet.images = sheet.images.map(img => (img ? mapPath(img) : img));
+        // Stored corners are looked up by image path, so they must follow the image when it is renamed
+        Object.values(sheet.detectedAlignmentCorners || {}).forEach(detection => {
+            if (detection.imagePath) detection.imagePath = mapPath(detection.imagePath);
+        });
+    });
+    if (project.pageOrientationIssues) project.pageOrientationIssues = project.pageOrientationIssues.map(mapPath);
+    if (project.alignmentIssues) project.alignmentIssues = project.alignmentIssues.map(mapPath);
+};
+
+export const collectProjectImagePaths = (project: Partial<GradingProject>): string[] => {
+    const paths = new Set<string>();
+    mapProjectImagePaths(JSON.parse(JSON.stringify(project)), path => {
+        paths.add(path);
+        return path;
+    });
+    return Array.from(paths);
+};
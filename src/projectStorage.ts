@@ -0,0 +1,135 @@
+import { app } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+import type { GradingProject } from './types';
+import { maybeCreateBackups } from './backups';
+import { enqueueStorageTask, isCorruptFile, readJsonFile, reportCorruptFile, setAsideCorruptFile, writeFileAtomic } from './storageUtils';
+
+// Each project is stored as its own file under `projects/`, with an index that
+// records which projects exist and when each was last written. This keeps a
+// single corrupt write from affecting other projects and lets saves touch only
+// the projects that actually changed.
+const projectsDir = path.join(app.getPath('userData'), 'projects');
+const indexPath = path.join(projectsDir, 'index.json');
+const legacyProjectsPath = path.join(app.getPath('userData'), 'projects.json');
+
+export interface ProjectIndexEntry {
+    id: string;
+    name: string;
+    file: string;
+    lastModified: number;
+}
+
+interface ProjectIndex {
+    version: number;
+    projects: Record<string, ProjectIndexEntry>;
+}
+
+const INDEX_VERSION = 1;
+
+// Project ids come from the renderer, so keep them from escaping the projects directory.
+// Other characters are escaped as "." plus four hex digits, so no two ids share a file.
+const projectFileName = (projectId: string) =>
+    `${projectId.replace(/[^a-zA-Z0-9_-]/g, c => `.${c.charCodeAt(0).toString(16).padStart(4, '0')}`)}.json`;
+
+// Rebuilds the index from the project files on disk when index.json itself is unreadable.
+const rebuildIndex = async (): Promise<ProjectIndex> => {
+    const index: ProjectIndex = { version: INDEX_VERSION, projects: {} };
+    const files = (await fs.readdir(projectsDir)).filter(f => f.endsWith('.json') && f !== 'index.json');
+    for (const file of files) {
+        const result = await readJsonFile<GradingProject>(path.join(projectsDir, file));
+        if (result.status !== 'ok' || !result.data?.id) continue;
+        const project = result.data;
+        index.projects[project.id] = { id: project.id, name: project.name, file, lastModified: project.lastModified || 0 };
+    }
+    return index;
+};
+
+const readIndex = async (): Promise<ProjectIndex | null> => {
+    const result = await readJsonFile<ProjectIndex>(indexPath);
+    if (result.status === 'ok') return result.data;
+    if (result.status === 'missing') return null;
+    reportCorruptFile(indexPath, result.error);
+    return rebuildIndex();
+};
+
+const writeIndex = async (index: ProjectIndex) => {
+    await writeFileAtomic(indexPath, JSON.stringify(index, null, 2));
+};
+
+const writeProjectFile = async (project: GradingProject): Promise<ProjectIndexEntry> => {
+    const file = projectFileName(project.id);
+    const filePath = path.join(projectsDir, file);
+    if (isCorruptFile(filePath)) await setAsideCorruptFile(filePath);
+    await writeFileAtomic(filePath, JSON.stringify(project));
+    return { id: project.id, name: project.name, file, lastModified: project.lastModified || Date.now() };
+};
+
+const applyChanges = async (changed: Record<string, GradingProject>, deletedIds: string[], skipUnchanged = false) => {
+    await fs.mkdir(projectsDir, { recursive: true });
+    await maybeCreateBackups();
+    const index = (await readIndex()) || { version: INDEX_VERSION, projects: {} };
+
+    for (const project of Object.values(changed)) {
+        if (!project?.id) continue;
+        const existing = index.projects[project.id];
+        if (skipUnchanged && existing && existing.lastModified === project.lastModified) continue;
+        index.projects[project.id] = await writeProjectFile(project);
+    }
+
+    for (const projectId of deletedIds) {
+        const entry = index.projects[projectId];
+        if (!entry) continue;
+        delete index.projects[projectId];
+        await fs.rm(path.join(projectsDir, entry.file), { force: true });
+    }
+
+    await writeIndex(index);
+};
+
+// Moves a pre-existing monolithic projects.json into per-project files.
+const migrateLegacyFile = async (): Promise<Record<string, GradingProject> | null> => {
+    const result = await readJsonFile<Record<string, GradingProject>>(legacyProjectsPath);
+    if (result.status === 'missing') return null;
+    if (result.status === 'corrupt') {
+        reportCorruptFile(legacyProjectsPath, result.error);
+        return null;
+    }
+    await applyChanges(result.data, []);
+    await fs.rename(legacyProjectsPath, `${legacyProjectsPath}.migrated`);
+    return result.data;
+};
+
+export const loadAllProjects = (): Promise<Record<string, GradingProject> | null> => enqueueStorageTask(async () => {
+    const index = await readIndex();
+    if (!index) return migrateLegacyFile();
+
+    const projects: Record<string, GradingProject> = {};
+    for (const entry of Object.values(index.projects)) {
+        const filePath = path.join(projectsDir, entry.file);
+        const result = await readJsonFile<GradingProject>(filePath);
+        if (result.status === 'ok') {
+            projects[entry.id] = result.data;
+        } else {
+            reportCorruptFile(filePath, result.status === 'corrupt' ? result.error : 'File is missing.');
+        }
+    }
+    return projects;
+});
+
+// Incremental save: only the given projects are written, and deleted ids are removed.
+export const saveProjects = (changed: Record<string, GradingProject>, deletedIds: string[] = []) =>
+    enqueueStorageTask(() => applyChanges(changed, deletedIds));
+
+// Full save of the whole project map, kept for the `save-data` channel.
+// Projects missing from the map are deleted unless they failed to load, and
+// unchanged ones are skipped.
+export const replaceAllProjects = (projects: Record<string, GradingProject>) => enqueueStorageTask(async () => {
+    const index = await readIndex();
+    const deletedIds = index
+        ? Object.values(index.projects)
+            .filter(entry => !projects[entry.id] && !isCorruptFile(path.join(projectsDir, entry.file)))
+            .map(entry => entry.id)
+        : [];
+    await applyChanges(projects, deletedIds, true);
+});
@@ -0,0 +1,97 @@
+import type { AISettings, Point } from './types';
+
+export interface PromptPreset {
+    id: string;
+    label: string;
+    template: string;
+}
+
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+    { name: 'maxPoints', description: '満点 (例: 5点)' },
+    { name: 'label', description: '問題名' },
+    { name: 'answerFormat', description: '解答の形式 (厳格モードの文字、解答形式)' },
+    { name: 'correctAnswer', description: '正答 (入力されている場合)' },
+    { name: 'rubric', description: 'ルーブリックの観点と配点' },
+];
+
+export const expectedFormatLabels: Record<string, string> = {
+    number: '数字のみ',
+    katakana: 'カタカナのみ',
+    hiragana: 'ひらがなのみ',
+    kanji: '漢字のみ',
+    alphanumeric: '英数字のみ'
+};
+
+// The grading rules that were built in before templates existed; used when nothing is set
+export const DEFAULT_PROMPT_TEMPLATE = `採点ガイドライン:
+1. 手書き文字の認識: 癖のある字や薄い字、消し跡なども文脈から正確に判断してください。
+2. 厳格な評価: 漢字のトメ・ハネ・ハライや、誤字脱字、送り仮名のミスも厳格にチェックしてください。
+3. 判読が難しい場合は、前後の文脈から推測を試みてください。
+4. 採点理由(aiComment)を日本語で簡潔に（20文字以内）記述してください。`;
+
+export const PROMPT_PRESETS: PromptPreset[] = [
+    { id: 'japanese', label: '国語・標準', template: DEFAULT_PROMPT_TEMPLATE },
+    {
+        id: 'english',
+        label: '英語',
+        template: `採点ガイドライン:
+1. 手書き文字の認識: 筆記体や大文字・小文字、消し跡なども文脈から正確に判断してください。
+2. 綴り: 綴りの誤りは不正解としてください。問題に指示がない限り、文頭の大文字やピリオドの有無だけの違いは減点しないでください。
+3. 英作文・和文英訳: 意味が通り、文法的に正しい別の表現も正解として扱ってください。文法の誤りは程度に応じて部分点としてください。
+4. 採点理由(aiComment)を日本語で簡潔に（20文字以内）記述してください。`,
+    },
+    {
+        id: 'math',
+        label: '数学',
+        template: `採点ガイドライン:
+1. 数式の認識: 分数、指数、根号、符号、小数点を特に注意して読み取ってください。
+2. 答えの判定: 模範解答と数学的に等しい答えは、表記が異なっても正解としてください。ただし既約分数や有理化など、問題で指定された形になっていない場合は部分点としてください。
+3. 途中式: 考え方が正しく計算ミスだけがある場合は、満点({maxPoints})の範囲で部分点を検討してください。
+4. 単位: 単位が必要な問題で、単位の誤りや書き忘れがある場合は減点してください。
+5. 採点理由(aiComment)を日本語で簡潔に（20文字以内）記述してください。`,
+    },
+    {
+        id: 'science',
+        label: '理科',
+        template: `採点ガイドライン:
+1. 用語: 科学用語は正しい表記で書かれているか確認し、誤字は不正解としてください。
+2. 数値: 数値は単位と有効数字も確認し、単位の誤りや書き忘れは減点してください。
+3. 化学式・記号: 大文字・小文字や添字、係数を正確に確認してください。
+4. 記述: 理由や現象の説明は、因果関係が正しく要点を押さえていれば表現の違いは問いません。
+5. 採点理由(aiComment)を日本語で簡潔に（20文字以内）記述してください。`,
+    },
+    {
+        id: 'social',
+        label: '社会',
+        template: `採点ガイドライン:
+1. 用語・人名・地名: 漢字の指定がある場合はその表記で書かれているか確認し、誤字は不正解としてください。
+2. 年号・数値: 正確に一致する場合のみ正解としてください。
+3. 記述: 要点が含まれていれば表現の違いは問いません。要点の一部だけの場合は部分点としてください。
+4. 採点理由(aiComment)を日本語で簡潔に（20文字以内）記述してください。`,
+    },
+];
+
+/** The question's own template, else the project's, else the built-in rules. */
+export const resolvePromptTemplate = (point: Point | undefined, aiSettings: AISettings | undefined) =>
+    point?.promptTemplate?.trim() || aiSettings?.promptTemplate?.trim() || DEFAULT_PROMPT_TEMPLATE;
+
+const describeAnswerFormat = (point: Point) => {
+    if (point.aiGradingMode === 'strict' && point.answerFormat) return `「${point.answerFormat}」の文字のみ`;
+    if (point.expectedFormat && point.expectedFormat !== 'free') return expectedFormatLabels[point.expectedFormat];
+    return '指定なし';
+};
+
+export const getPromptVariables = (point: Point): Record<string, string> => {
+    const rubric = point.rubric?.filter(criterion => criterion.description.trim() && criterion.points > 0) || [];
+    return {
+        maxPoints: `${point.points}点`,
+        label: point.label,
+        answerFormat: describeAnswerFormat(point),
+        correctAnswer: point.correctAnswer?.trim() || '(模範解答の画像を参照)',
+        rubric: rubric.length > 0 ? rubric.map(criterion => `${criterion.description} (${criterion.points}点)`).join('、') : 'なし',
+    };
+};
+
+// Unknown variables are left as typed, so a typo shows up in the preview
+export const renderPromptTemplate = (template: string, variables: Record<string, string>) =>
+    template.replace(/\{(\w+)\}/g, (match, name) => name in variables ? variables[name] : match);
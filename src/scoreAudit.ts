@@ -0,0 +1,87 @@
+import { ScoringStatus } from './types';
+import type { AllScores, GradingProject, Point, ScoreAuditEntry, ScoreChangeSource, ScoreChangeSourceType, StudentInfo } from './types';
+
+// The grader name is a per-machine setting rather than project data, like the API key
+const GRADER_NAME_KEY = 'grader_name';
+
+export const getGraderName = () => localStorage.getItem(GRADER_NAME_KEY) || '';
+
+export const setGraderName = (name: string) => localStorage.setItem(GRADER_NAME_KEY, name);
+
+export const scoreSourceLabels: Record<ScoreChangeSourceType, string> = {
+    ai: 'AI採点',
+    'mark-sheet': 'マークシート読取',
+    'answer-key': '解答キー照合',
+    manual: '手動',
+    rescore: '配点変更',
+    history: '元に戻す/やり直し',
+};
+
+export const scoringStatusLabels: Record<ScoringStatus, string> = {
+    [ScoringStatus.UNSCORED]: '未採点',
+    [ScoringStatus.CORRECT]: '正解',
+    [ScoringStatus.INCORRECT]: '不正解',
+    [ScoringStatus.PARTIAL]: '部分点',
+};
+
+/** One log entry per student/question whose status or score differs between the two score sets. */
+export const diffScores = (prev: AllScores, next: AllScores, source: ScoreChangeSource): ScoreAuditEntry[] => {
+    const timestamp = Date.now();
+    const grader = getGraderName();
+    const entries: ScoreAuditEntry[] = [];
+    new Set([...Object.keys(prev), ...Object.keys(next)]).forEach(studentId => {
+        const before = prev[studentId] || {};
+        const after = next[studentId] || {};
+        if (before === after) return;
+        new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+            const areaId = Number(key);
+            const previousStatus = before[areaId]?.status || ScoringStatus.UNSCORED;
+            const previousScore = before[areaId]?.score ?? null;
+            const newStatus = after[areaId]?.status || ScoringStatus.UNSCORED;
+            const newScore = after[areaId]?.score ?? null;
+            if (previousStatus === newStatus && previousScore === newScore) return;
+            entries.push({
+                timestamp, studentId, areaId, previousStatus, previousScore, newStatus, newScore,
+                source: source.type,
+                ...(source.model ? { model: source.model } : {}),
+                grader,
+            });
+        });
+    });
+    return entries;
+};
+
+/** The project's audit log with the changes from its current scores to `nextScores` appended. */
+export const appendScoreAudit = (project: GradingProject, nextScores: AllScores, source: ScoreChangeSource): ScoreAuditEntry[] => {
+    const log = project.scoreAuditLog || [];
+    const entries = diffScores(project.scores, nextScores, source);
+    return entries.length > 0 ? [...log, ...entries] : log;
+};
+
+const formatScore = (score: number | null) => score === null ? '' : String(score);
+
+const escapeCsv = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const buildScoreAuditCsv = (log: ScoreAuditEntry[], studentInfo: StudentInfo[], points: Point[]) => {
+    const studentsById = new Map(studentInfo.map(s => [s.id, s]));
+    const pointsById = new Map(points.map(p => [p.id, p]));
+    const headers = ['日時', 'クラス', '番号', '氏名', '問題', '変更前の判定', '変更前の得点', '変更後の判定', '変更後の得点', '変更元', 'AIモデル', '採点者'];
+    const rows = log.map(entry => {
+        const student = studentsById.get(entry.studentId);
+        return [
+            new Date(entry.timestamp).toLocaleString(),
+            student?.class ?? '',
+            student?.number ?? '',
+            student?.name ?? entry.studentId,
+            pointsById.get(entry.areaId)?.label ?? String(entry.areaId),
+            scoringStatusLabels[entry.previousStatus] ?? entry.previousStatus,
+            formatScore(entry.previousScore),
+            scoringStatusLabels[entry.newStatus] ?? entry.newStatus,
+            formatScore(entry.newScore),
+            scoreSourceLabels[entry.source] ?? entry.source,
+            entry.model ?? '',
+            entry.grader,
+        ];
+    });
+    return [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+};
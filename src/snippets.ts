@@ -0,0 +1,51 @@
+import type { Area, Corners, Template } from './types';
+import { getAlignmentContext, getPageAlignment, getPageWarp, loadImage, warpArea } from './utils';
+
+/**
+ * Crops an answer area out of a scanned page as base64 PNG (without the data URL prefix), optionally
+ * warped by the alignment marks and contrast-enhanced. Used for AI requests and answer clustering.
+ * Corners set by hand for the page take precedence over the detected marks.
+ */
+export const cropImage = async (imagePath: string, area: Area, template?: Template, areas?: Area[], isEnhanced?: boolean, manualCorners?: Corners): Promise<string> => {
+    let dataUrl = imagePath;
+    if (!imagePath.startsWith('data:') && !imagePath.startsWith('blob:')) {
+        const result = await window.electronAPI.invoke('get-image-details', imagePath);
+        if (result.success && result.details?.url) {
+            dataUrl = result.details.url;
+        }
+    }
+    
+    const img = await loadImage(dataUrl);
+    
+    if (template && areas) {
+        const context = getAlignmentContext(areas, area.pageIndex || 0, template);
+        const srcCorners = context ? manualCorners || await getPageAlignment(imagePath, img, template.alignmentDetectionSettings, context.searchZones) : null;
+        const warp = context && srcCorners ? await getPageWarp(imagePath, img, srcCorners, context.idealCorners, context.interior) : null;
+        if (warp) {
+            const url = await warpArea(img, warp, area);
+            if (url) {
+                // If enhanced, we need to process the warped result
+                if (isEnhanced) {
+                    const warpedImg = await loadImage(url);
+                    const canvas = document.createElement('canvas');
+                    canvas.width = warpedImg.width; canvas.height = warpedImg.height;
+                    const ctx = canvas.getContext('2d')!;
+                    ctx.filter = 'grayscale(100%) contrast(200%) brightness(90%)';
+                    ctx.drawImage(warpedImg, 0, 0);
+                    return canvas.toDataURL('image/png').split(',')[1];
+                }
+                return url.split(',')[1];
+            }
+        }
+    }
+    
+    const canvas = document.createElement('canvas');
+    canvas.width = area.width; canvas.height = area.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('解答画像を切り出せませんでした。');
+    if (isEnhanced) {
+        ctx.filter = 'grayscale(100%) contrast(200%) brightness(90%)';
+    }
+    ctx.drawImage(img, area.x, area.y, area.width, area.height, 0, 0, area.width, area.height);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
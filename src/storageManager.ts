@@ -0,0 +1,126 @@
+import { app } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { GradingProject, StorageUsageReport, StoredFileInfo } from './types';
+import { collectProjectImagePaths } from './projectImages';
+import { loadAllProjects } from './projectStorage';
+import { listBackups, loadBackupProjects } from './backups';
+import { getCorruptFiles } from './storageUtils';
+
+// Dedicated persistent storage directory for uploaded scans and templates
+export const persistentStorageDir = path.join(app.getPath('userData'), 'batch-grader-files');
+fs.mkdir(persistentStorageDir, { recursive: true }).catch(console.error);
+
+// Files younger than this are never purged: they may belong to an upload whose
+// project has not been saved yet.
+const PURGE_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+// Maps an image reference from a project to a file name inside the storage directory,
+// or null if it points somewhere else.
+const toStoredFileName = (imagePath: string): string | null => {
+    let systemPath = imagePath;
+    if (imagePath.startsWith('file://')) {
+        try {
+            systemPath = fileURLToPath(imagePath);
+        } catch (error) {
+            return null;
+        }
+    }
+    const relative = path.relative(persistentStorageDir, path.resolve(systemPath));
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null;
+    return relative;
+};
+
+const storedFileNames = (project: GradingProject) => collectProjectImagePaths(project)
+    .map(toStoredFileName)
+    .filter((name): name is string => name !== null);
+
+const listStoredFiles = async (): Promise<StoredFileInfo[]> => {
+    const names = await fs.readdir(persistentStorageDir).catch((): string[] => []);
+    const files: StoredFileInfo[] = [];
+    for (const name of names) {
+        try {
+            const stat = await fs.stat(path.join(persistentStorageDir, name));
+            if (stat.isFile()) files.push({ name, bytes: stat.size, modifiedAt: stat.mtimeMs });
+        } catch (error) {
+            // The file vanished between readdir and stat; nothing to report.
+        }
+    }
+    return files;
+};
+
+/**
+ * Disk usage of the stored files. `retainedPaths` are image references still in use outside the
+ * saved projects, such as the renderer's undo history; they are never reported as unreferenced.
+ */
+export const getStorageUsage = async (retainedPaths: string[] = []): Promise<StorageUsageReport> => {
+    const files = await listStoredFiles();
+    const filesByName = new Map(files.map(f => [f.name, f]));
+    const projects = Object.values((await loadAllProjects()) || {});
+
+    const referenced = new Set<string>();
+    const projectUsage = projects.map(project => {
+        const names = Array.from(new Set(storedFileNames(project)));
+        names.forEach(name => referenced.add(name));
+        const present = names.filter(name => filesByName.has(name));
+        return {
+            id: project.id,
+            name: project.name,
+            bytes: present.reduce((sum, name) => sum + filesByName.get(name)!.bytes, 0),
+            fileCount: present.length,
+            missingCount: names.length - present.length,
+        };
+    }).sort((a, b) => b.bytes - a.bytes);
+    retainedPaths.map(toStoredFileName).forEach(name => {
+        if (name) referenced.add(name);
+    });
+
+    const backupReferenced = new Set<string>();
+    for (const backup of await listBackups()) {
+        for (const project of await loadBackupProjects(backup.id)) {
+            storedFileNames(project).forEach(name => {
+                if (!referenced.has(name)) backupReferenced.add(name);
+            });
+        }
+    }
+
+    const backupOnlyFiles = files.filter(f => backupReferenced.has(f.name));
+    const unreferenced = files.filter(f => !referenced.has(f.name) && !backupReferenced.has(f.name));
+    return {
+        totalBytes: files.reduce((sum, f) => sum + f.bytes, 0),
+        fileCount: files.length,
+        projects: projectUsage,
+        backupOnly: {
+            bytes: backupOnlyFiles.reduce((sum, f) => sum + f.bytes, 0),
+            fileCount: backupOnlyFiles.length,
+        },
+        unreferenced,
+        unreferencedBytes: unreferenced.reduce((sum, f) => sum + f.bytes, 0),
+    };
+};
+
+/**
+ * Deletes stored files that neither a project, a backup nor the undo history references.
+ * With `dryRun` the files are only listed. References are recomputed here rather
+ * than taken from the renderer, so a stale usage report can never cause a
+ * referenced file to be deleted. A real run deletes only `confirmedNames`, the files
+ * the user was shown in the dry run, that are still unreferenced.
+ */
+export const purgeUnreferencedFiles = async (dryRun: boolean, confirmedNames: string[] = [], retainedPaths: string[] = []): Promise<{ files: StoredFileInfo[]; bytes: number }> => {
+    const { unreferenced } = await getStorageUsage(retainedPaths);
+    // If any project failed to load its references are unknown, so nothing is safe to delete.
+    if (getCorruptFiles().length > 0) {
+        throw new Error('破損したデータファイルがあるため、未使用ファイルを判定できません。先にバックアップから復元してください。');
+    }
+    const cutoff = Date.now() - PURGE_GRACE_PERIOD;
+    const candidates = unreferenced.filter(f => f.modifiedAt < cutoff);
+    const confirmed = new Set(confirmedNames);
+    const files = dryRun ? candidates : candidates.filter(f => confirmed.has(f.name));
+    if (!dryRun) {
+        for (const file of files) {
+            await fs.rm(path.join(persistentStorageDir, file.name), { force: true });
+        }
+    }
+    return { files, bytes: files.reduce((sum, f) => sum + f.bytes, 0) };
+};
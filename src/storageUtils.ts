@@ -0,0 +1,67 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { CorruptFileInfo } from './types';
+
+export type JsonReadResult<T> =
+    | { status: 'ok'; data: T }
+    | { status: 'missing' }
+    | { status: 'corrupt'; error: string };
+
+// Writes to a temporary file in the same directory and renames it over the target,
+// so a crash mid-write leaves either the old or the new file, never a truncated one.
+export const writeFileAtomic = async (filePath: string, contents: string) => {
+    const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${Date.now()}.tmp`);
+    try {
+        await fs.writeFile(tempPath, contents);
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true }).catch(() => undefined);
+        throw error;
+    }
+};
+
+// Distinguishes a missing file (first run) from one that exists but cannot be parsed.
+export const readJsonFile = async <T>(filePath: string): Promise<JsonReadResult<T>> => {
+    let text: string;
+    try {
+        text = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return { status: 'missing' };
+        return { status: 'corrupt', error: error.message };
+    }
+    try {
+        if (!text.trim()) throw new Error('File is empty.');
+        return { status: 'ok', data: JSON.parse(text) };
+    } catch (error: any) {
+        return { status: 'corrupt', error: error.message };
+    }
+};
+
+// Keeps a corrupt file around for manual recovery before it gets overwritten.
+export const setAsideCorruptFile = async (filePath: string) => {
+    await fs.rename(filePath, `${filePath}.corrupt-${Date.now()}`).catch(() => undefined);
+};
+
+// All writes to the data directory go through this queue so that saves, backups
+// and restores never interleave.
+let storageQueue: Promise<unknown> = Promise.resolve();
+export const enqueueStorageTask = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = storageQueue.then(task, task);
+    storageQueue = run.catch(() => undefined);
+    return run;
+};
+
+// Files found unreadable during this session. They are reported to the renderer
+// so the user can restore from a backup instead of silently starting over.
+const corruptFiles = new Map<string, CorruptFileInfo>();
+
+export const reportCorruptFile = (filePath: string, error: string) => {
+    console.error(`Corrupt data file detected: ${filePath}`, error);
+    corruptFiles.set(filePath, { file: filePath, error });
+};
+
+export const isCorruptFile = (filePath: string) => corruptFiles.has(filePath);
+
+export const getCorruptFiles = (): CorruptFileInfo[] => Array.from(corruptFiles.values());
+
+export const clearCorruptFiles = () => corruptFiles.clear();
@@ -62,9 +62,12 @@ export enum AreaType {
     STUDENT_ID_REF_BOTTOM = '学籍番号基準(下)',
     MARKSHEET_REF_RIGHT = 'マークシート基準(右)',
     MARKSHEET_REF_BOTTOM = 'マークシート基準(下)',
+    // Printed marks inside the page that correct the warp of curled scans
+    INTERIOR_MARK = '補正マーク',
 }
 
-export type GradingFilter = 'ALL' | 'SCORED' | ScoringStatus;
+// NEEDS_REVIEW: AI results held back for a teacher to confirm
+export type GradingFilter = 'ALL' | 'SCORED' | 'NEEDS_REVIEW' | ScoringStatus;
 
 // --- Export/Import Utilities ---
 export interface ExportImportOptions {
@@ -119,6 +122,14 @@ export interface StudentInfo {
     name: string;
 }
 
+export interface DetectedAlignment {
+    imagePath: string;
+    // Detection settings and search zones the corners were found with
+    settingsKey: string;
+    // Null when no marks were found, so that the page is not searched again
+    corners: Corners | null;
+}
+
 export interface Student {
     id: string;
     originalName: string;
@@ -130,9 +141,12 @@ export interface Student {
         br: { x: number, y: number },
         bl: { x: number, y: number },
     }>;
+    // Alignment marks found on each page, reused by every crop until the image or the detection settings change
+    detectedAlignmentCorners?: Record<number, DetectedAlignment>;
 }
 
 export interface Roster {
+    schemaVersion?: number;
     id: string;
     name: string;
     students: Omit<StudentInfo, 'id'>[];
@@ -152,6 +166,32 @@ export interface Point {
     aiGradingMode?: 'auto' | 'strict';
     answerFormat?: string;
     expectedFormat?: 'number' | 'katakana' | 'hiragana' | 'kanji' | 'alphanumeric' | 'free';
+    // Scoring criteria for descriptive answers; when present the AI awards points per criterion
+    rubric?: RubricCriterion[];
+    // Typed answer key for descriptive answers, sent to the AI alongside the master snippet
+    correctAnswer?: string;
+    acceptedAnswers?: string[];
+    wrongAnswers?: string[];
+    // Grade against the typed answer key only, e.g. when the blank template has no written answers
+    omitMasterSnippet?: boolean;
+    // Grading rules for the AI, overriding AISettings.promptTemplate for this question
+    promptTemplate?: string;
+    // Compare transcriptions with the answer key by value (numbers, fractions, expressions) instead of as text
+    mathGrading?: MathGradingSettings;
+}
+
+export interface MathGradingSettings {
+    // Largest accepted difference from the key; 0 accepts only equal values
+    tolerance: number;
+    // Unit the answer must have (e.g. "cm"); a missing or different unit costs unitPenalty points (default 1)
+    unit?: string;
+    unitPenalty?: number;
+}
+
+export interface RubricCriterion {
+    id: string;
+    description: string;
+    points: number;
 }
 
 export type AnnotationTool = 'pen' | 'wave' | 'circle' | 'text';
@@ -192,6 +232,15 @@ export interface ScoreData {
     status: ScoringStatus;
     score: number | null;
     aiComment?: string;
+    // Points awarded by the AI per rubric criterion, keyed by RubricCriterion.id
+    rubricAwards?: Record<string, number>;
+    // Text read from the answer snippet, as transcribed by the AI or corrected by the teacher
+    transcription?: string;
+    // AI certainty (0-1) and whether the AI asked for a teacher to check the answer
+    aiConfidence?: number;
+    needsReview?: boolean;
+    // AI result held back for review; the status stays UNSCORED until the teacher decides
+    aiSuggestion?: { status: ScoringStatus; score: number };
     annotations?: Annotation[];
     detectedMarkIndex?: number | number[];
     detectedPositions?: { x: number, y: number }[];
@@ -200,17 +249,70 @@ export interface ScoreData {
 
 export type AllScores = Record<string, Record<number, ScoreData>>;
 
+// --- Score Audit Log ---
+export type ScoreChangeSourceType = 'ai' | 'mark-sheet' | 'answer-key' | 'manual' | 'rescore' | 'history';
+
+export interface ScoreChangeSource {
+    type: ScoreChangeSourceType;
+    // Model that produced the result, for AI grading
+    model?: string;
+}
+
+export interface ScoreAuditEntry {
+    timestamp: number;
+    studentId: string;
+    areaId: number;
+    previousStatus: ScoringStatus;
+    previousScore: number | null;
+    newStatus: ScoringStatus;
+    newScore: number | null;
+    source: ScoreChangeSourceType;
+    model?: string;
+    grader: string;
+}
+
+export type AIProviderType = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface OpenAICompatibleSettings {
+    // Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+}
+
+export type GradingStrategy = 'per-question' | 'per-student';
+
 export interface AISettings {
     batchSize: number;
     delayBetweenBatches: number;
     gradingMode: 'quality' | 'speed';
+    // 'per-question' grades one question for several students per request; 'per-student' grades
+    // all questions on one student's page in a single request. Defaults to 'per-question'.
+    gradingStrategy?: GradingStrategy;
     markSheetSensitivity: number;
+    // Defaults to 'gemini'; aiModel applies to the Gemini provider and to 'mock' (offline fake replies)
+    aiProvider?: AIProviderType;
     aiModel: string;
+    openAICompatible?: OpenAICompatibleSettings;
     markSheetNumberingBase?: number;
     enableAutoAlignment: boolean;
+    // AI results with a confidence (0-1) below this stay UNSCORED with a suggested score; 0 disables
+    reviewConfidenceThreshold?: number;
+    // Grading rules put into the AI's system instruction, with {variables} (see promptTemplates.ts).
+    // Empty uses the built-in rules.
+    promptTemplate?: string;
+}
+
+// A scanned page as stored at upload
+export interface UploadedPage {
+    path: string;
+    name: string;
+    // The page could not be turned to the template's orientation automatically
+    needsOrientationCheck?: boolean;
 }
 
 export interface GradingProject {
+    schemaVersion?: number;
     id: string;
     name: string;
     testName?: string;
@@ -221,10 +323,130 @@ export interface GradingProject {
     uploadedSheets: Student[];
     points: Point[];
     scores: AllScores;
+    // Append-only record of every score change, for disputes and moderation
+    scoreAuditLog: ScoreAuditEntry[];
     aiSettings: AISettings;
+    // Scanned pages (image paths) whose orientation could not be decided at upload
+    pageOrientationIssues?: string[];
+    // Scanned pages (image paths) that failed the last alignment check
+    alignmentIssues?: string[];
     lastModified: number;
 }
 
+// --- AI Grading Jobs ---
+export type GradingJobStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+export type GradingBatchKind = 'mark-sheet' | 'transcribe' | 'grade' | 'grade-student';
+export type GradingBatchStatus = 'pending' | 'complete' | 'failed';
+
+export interface GradingJobBatch {
+    id: string;
+    areaId: number;
+    kind: GradingBatchKind;
+    studentIds: string[];
+    // All questions of a 'grade-student' batch (areaId is the first of them)
+    areaIds?: number[];
+    status: GradingBatchStatus;
+    attempts: number;
+    error?: string;
+    // Students the batch could not grade, e.g. missing from the AI response
+    failedStudentIds?: string[];
+    // Questions a 'grade-student' batch could not grade
+    failedAreaIds?: number[];
+}
+
+// A grading run that is persisted batch by batch so it can be paused, cancelled and resumed after a restart
+export interface GradingJob {
+    id: string;
+    projectId: string;
+    status: GradingJobStatus;
+    createdAt: number;
+    updatedAt: number;
+    areaIds: number[];
+    batches: GradingJobBatch[];
+    options: { enhanceImages: boolean };
+}
+
+// --- AI Usage ---
+export interface AITokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+// One AI request, as counted against the monthly limit
+export interface AIUsageRecord extends AITokenUsage {
+    timestamp: number;
+    projectId: string;
+    // Questions graded by the request
+    areaIds: number[];
+    model: string;
+    images: number;
+}
+
+export interface AIUsageLog {
+    records: AIUsageRecord[];
+    // Tokens (input + output) per calendar month; new AI runs are blocked once reached. 0 or unset disables the limit.
+    monthlyTokenLimit?: number;
+}
+
+// --- Undo History ---
+export interface ProjectHistoryEntry {
+    id: number;
+    label: string;
+    timestamp: number;
+    before: GradingProject;
+    after: GradingProject;
+}
+
+export interface ProjectHistory {
+    entries: ProjectHistoryEntry[];
+    // Number of entries currently applied; entries from this index on can be redone
+    cursor: number;
+}
+
+// --- Storage, Backups & Recovery ---
+export type BackupKind = 'auto' | 'daily' | 'manual' | 'pre-restore';
+
+export interface BackupInfo {
+    id: string;
+    kind: BackupKind;
+    createdAt: number;
+    projectCount: number;
+}
+
+export interface CorruptFileInfo {
+    file: string;
+    error: string;
+}
+
+export interface DataRecoveryInfo {
+    corruptFiles: CorruptFileInfo[];
+    backups: BackupInfo[];
+}
+
+export interface ProjectStorageUsage {
+    id: string;
+    name: string;
+    bytes: number;
+    fileCount: number;
+    missingCount: number;
+}
+
+export interface StoredFileInfo {
+    name: string;
+    bytes: number;
+    modifiedAt: number;
+}
+
+export interface StorageUsageReport {
+    totalBytes: number;
+    fileCount: number;
+    projects: ProjectStorageUsage[];
+    // Files no current project uses but which a backup still references
+    backupOnly: { bytes: number; fileCount: number };
+    unreferenced: StoredFileInfo[];
+    unreferencedBytes: number;
+}
+
 export interface StudentResult extends Student, StudentInfo {
     totalScore: number;
     subtotals: { [subtotalAreaId: number]: number };
@@ -313,6 +535,7 @@ export interface LayoutConfig {
 }
 
 export interface SheetLayout {
+    schemaVersion?: number;
     id: string;
     name: string;
     rows: number;
@@ -1,5 +1,9 @@
 
 import { GoogleGenAI } from '@google/genai';
+import { requestChatCompletion } from './api/openAICompatible';
+import { readGeminiUsage } from './api/usageMetadata';
+import { MOCK_FIXTURES_KEY, generateMockContent, getMockAIMode, recordMockFixture } from './api/mockAI';
+import { saveFile, materializeUrl, loadData, saveData, saveProjects } from './webStorage';
 
 export const webElectronAPI = {
   invoke: async (channel: string, ...args: any[]) => {
@@ -8,12 +12,15 @@ export const webElectronAPI = {
     switch (channel) {
       case 'save-file-temp': {
         const { buffer, originalName } = args[0];
-        const blob = new Blob([buffer]);
-        const url = URL.createObjectURL(blob);
-        return url; 
+        try {
+            return await saveFile(buffer, originalName);
+        } catch (e: any) {
+            console.error("IndexedDB Save Error", e);
+            return null;
+        }
       }
       case 'get-image-details': {
-        const filePath = args[0];
+        const filePath = await materializeUrl(args[0]);
         return new Promise((resolve) => {
             const img = new Image();
             img.onload = () => {
@@ -27,24 +34,50 @@ export const webElectronAPI = {
         });
       }
       case 'load-data': {
-        const key = args[0];
-        const data = localStorage.getItem(key === 'projects' ? 'gradingProjects' : (key === 'layouts' ? 'sheetLayouts' : key));
-        return data ? JSON.parse(data) : null;
+        try {
+            return await loadData(args[0]);
+        } catch (e: any) {
+            console.error("IndexedDB Load Error", e);
+            return null;
+        }
       }
       case 'save-data': {
         const { key, data } = args[0];
-        const storageKey = key === 'projects' ? 'gradingProjects' : (key === 'layouts' ? 'sheetLayouts' : key);
         try {
-            localStorage.setItem(storageKey, JSON.stringify(data));
+            await saveData(key, data);
             return { success: true };
         } catch (e: any) {
-            console.error("LocalStorage Save Error", e);
+            console.error("IndexedDB Save Error", e);
             if (e.name === 'QuotaExceededError') {
                 alert('ブラウザの保存容量上限に達しました。');
             }
             return { success: false, error: e.message };
         }
       }
+      case 'save-projects': {
+        const { changed, deletedIds } = args[0];
+        try {
+            await saveProjects(changed || {}, deletedIds || []);
+            return { success: true };
+        } catch (e: any) {
+            console.error("IndexedDB Save Error", e);
+            if (e.name === 'QuotaExceededError') {
+                alert('ブラウザの保存容量上限に達しました。');
+            }
+            return { success: false, error: e.message };
+        }
+      }
+      // File-based backups are only available in the desktop app
+      case 'get-data-recovery-info':
+        return { corruptFiles: [], backups: [] };
+      case 'list-backups':
+        return [];
+      case 'create-backup':
+      case 'restore-backup':
+        return { success: false, error: 'ブラウザ版ではバックアップ機能は利用できません。' };
+      case 'get-storage-usage':
+      case 'purge-unreferenced-files':
+        return { success: false, error: 'ブラウザ版ではストレージ管理機能は利用できません。' };
       case 'gemini-validate-key': {
         try {
             const { apiKey } = args[0] || {};
@@ -56,33 +89,47 @@ export const webElectronAPI = {
         }
       }
       case 'gemini-generate-content': {
-        const { model, contents, config, apiKey } = args[0];
-        const maxRetries = 3;
-        let retryCount = 0;
-
-        const executeRequest = async (): Promise<any> => {
-            try {
-                const ai = new GoogleGenAI({ apiKey: apiKey || process.env.API_KEY });
-                const response = await ai.models.generateContent({ model: model || 'gemini-3-flash-preview', contents, config });
-                return { success: true, text: response.text };
-            } catch (e: any) {
-                // Check if it's a rate limit error (429)
-                const isRateLimit = e.message?.includes('429') || e.message?.toLowerCase().includes('rate limit') || e.status === 429;
-                
-                if (isRateLimit && retryCount < maxRetries) {
-                    retryCount++;
-                    const delay = Math.pow(2, retryCount) * 1000 + Math.random() * 1000;
-                    console.warn(`[Web Shim] Gemini API Rate Limit (429). Retrying in ${Math.round(delay)}ms... (Attempt ${retryCount}/${maxRetries})`);
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                    return executeRequest();
-                }
-                
-                console.error(`[Web Shim] Gemini API Error:`, e);
-                return { success: false, error: { message: e.message } };
+        const { model = 'gemini-3-flash-preview', contents, config, apiKey, mock } = args[0];
+        const request = { model, contents, config };
+        const mockMode = getMockAIMode(mock);
+        // Rate limits are retried by the grading job queue, the same way as in the Electron build
+        try {
+            if (mockMode === 'replay') {
+                return generateMockContent(request, await loadData(MOCK_FIXTURES_KEY));
             }
-        };
-
-        return executeRequest();
+            const ai = new GoogleGenAI({ apiKey: apiKey || process.env.API_KEY });
+            const response = await ai.models.generateContent({ model, contents, config });
+            const result = { success: true, text: response.text, usage: readGeminiUsage(response.usageMetadata) };
+            if (mockMode === 'record') {
+                await saveData(MOCK_FIXTURES_KEY, recordMockFixture(await loadData(MOCK_FIXTURES_KEY), request, result));
+            }
+            return result;
+        } catch (e: any) {
+            console.error(`[Web Shim] Gemini API Error:`, e);
+            return { success: false, error: { message: e.message } };
+        }
+      }
+      case 'openai-compatible-generate': {
+        const { baseUrl, apiKey, body } = args[0];
+        return requestChatCompletion(baseUrl, apiKey, body);
+      }
+      case 'read-stored-file': {
+        try {
+            const response = await fetch(await materializeUrl(args[0]));
+            return { success: true, data: await response.arrayBuffer() };
+        } catch (e: any) {
+            return { success: false, error: e.message };
+        }
+      }
+      case 'export-project-archive': {
+        const { projectName, archiveData } = args[0];
+        const blob = new Blob([archiveData], { type: 'application/zip' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${projectName || 'download'}.zip`;
+        a.click();
+        return { success: true, path: 'Downloads' };
       }
       case 'export-project': 
       case 'export-sheet-layout': {
@@ -103,14 +150,18 @@ export const webElectronAPI = {
          return new Promise((resolve) => {
             const input = document.createElement('input');
             input.type = 'file';
-            input.accept = 'application/json';
+            input.accept = channel === 'import-project' ? 'application/json,application/zip,.zip' : 'application/json';
             input.onchange = async (e) => {
                 const file = (e.target as HTMLInputElement).files?.[0];
-                if (file) {
-                    const text = await file.text();
-                    resolve({ success: true, data: channel === 'import-sheet-layout' ? JSON.parse(text) : text });
-                } else {
+                if (!file) {
                     resolve({ success: false, error: 'No file selected' });
+                } else if (channel === 'import-project' && file.name.toLowerCase().endsWith('.zip')) {
+                    resolve({ success: true, format: 'zip', data: await file.arrayBuffer() });
+                } else {
+                    const text = await file.text();
+                    resolve(channel === 'import-sheet-layout'
+                        ? { success: true, data: JSON.parse(text) }
+                        : { success: true, format: 'json', data: text });
                 }
             };
             input.click();
@@ -0,0 +1,180 @@
+import type { GradingProject } from './types';
+import { collectProjectImagePaths, mapProjectImagePaths } from './projectImages';
+
+// IndexedDB persistence for the web build. Uploaded images are stored as blobs and
+// referenced from saved data as `idb://<key>`; at runtime those references are
+// re-materialized into blob: object URLs, which do not survive a reload.
+const DB_NAME = 'batch-grader';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';
+const PROJECTS_STORE = 'projects';
+const DATA_STORE = 'data';
+const IDB_PREFIX = 'idb://';
+const MIGRATION_FLAG = '__migratedFromLocalStorage';
+
+// Keys used by the previous localStorage-based shim
+const LEGACY_LOCAL_STORAGE_KEYS: Record<string, string> = {
+    projects: 'gradingProjects',
+    layouts: 'sheetLayouts',
+    rosters: 'rosters',
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE);
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE);
+                if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).then(async db => {
+            await migrateFromLocalStorage(db);
+            // Ask the browser not to evict our data under storage pressure.
+            navigator.storage?.persist?.().catch(() => undefined);
+            return db;
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+// One-time move of data saved by the old localStorage shim. The localStorage keys are
+// removed afterwards to free the quota. Images referenced there were blob: URLs that
+// no longer resolve, so only the JSON can be carried over.
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+    const flag = await requestToPromise(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(MIGRATION_FLAG));
+    if (flag) return;
+
+    const tx = db.transaction([PROJECTS_STORE, DATA_STORE], 'readwrite');
+    const legacyProjects = localStorage.getItem(LEGACY_LOCAL_STORAGE_KEYS.projects);
+    if (legacyProjects) {
+        try {
+            const projects: Record<string, GradingProject> = JSON.parse(legacyProjects);
+            Object.values(projects).forEach(project => tx.objectStore(PROJECTS_STORE).put(project, project.id));
+        } catch (e) {
+            console.error('[Web Storage] Failed to migrate projects from localStorage', e);
+        }
+    }
+    for (const key of ['layouts', 'rosters']) {
+        const legacy = localStorage.getItem(LEGACY_LOCAL_STORAGE_KEYS[key]);
+        if (!legacy) continue;
+        try {
+            tx.objectStore(DATA_STORE).put(JSON.parse(legacy), key);
+        } catch (e) {
+            console.error(`[Web Storage] Failed to migrate ${key} from localStorage`, e);
+        }
+    }
+    tx.objectStore(DATA_STORE).put(Date.now(), MIGRATION_FLAG);
+    await transactionDone(tx);
+
+    Object.values(LEGACY_LOCAL_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+// Two-way mapping between stored file keys and the object URLs handed to the UI
+const keyToObjectUrl = new Map<string, string>();
+const objectUrlToKey = new Map<string, string>();
+
+const registerObjectUrl = (key: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    keyToObjectUrl.set(key, url);
+    objectUrlToKey.set(url, key);
+    return url;
+};
+
+export const saveFile = async (buffer: ArrayBuffer, originalName: string): Promise<string> => {
+    const db = await openDb();
+    const key = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${originalName}`;
+    const blob = new Blob([buffer]);
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    tx.objectStore(FILES_STORE).put({ blob, name: originalName, createdAt: Date.now() }, key);
+    await transactionDone(tx);
+    return registerObjectUrl(key, blob);
+};
+
+/** Turns a stored `idb://` reference into a usable object URL. Other URLs pass through. */
+export const materializeUrl = async (ref: string): Promise<string> => {
+    if (!ref.startsWith(IDB_PREFIX)) return ref;
+    const key = ref.slice(IDB_PREFIX.length);
+    const existing = keyToObjectUrl.get(key);
+    if (existing) return existing;
+    const db = await openDb();
+    const record = await requestToPromise(db.transaction(FILES_STORE).objectStore(FILES_STORE).get(key));
+    if (!record?.blob) {
+        console.error(`[Web Storage] Image not found in IndexedDB: ${key}`);
+        return ref;
+    }
+    return registerObjectUrl(key, record.blob);
+};
+
+const dematerializeUrl = (url: string) => {
+    const key = objectUrlToKey.get(url);
+    return key ? `${IDB_PREFIX}${key}` : url;
+};
+
+const materializeProject = async (project: GradingProject) => {
+    const urls = new Map<string, string>();
+    for (const ref of collectProjectImagePaths(project)) {
+        urls.set(ref, await materializeUrl(ref));
+    }
+    mapProjectImagePaths(project, ref => urls.get(ref) || ref);
+    return project;
+};
+
+const dematerializeProject = (project: GradingProject): GradingProject => {
+    const copy: GradingProject = JSON.parse(JSON.stringify(project));
+    mapProjectImagePaths(copy, dematerializeUrl);
+    return copy;
+};
+
+export const loadProjects = async (): Promise<Record<string, GradingProject> | null> => {
+    const db = await openDb();
+    const stored: GradingProject[] = await requestToPromise(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll());
+    if (stored.length === 0) return null;
+    const projects: Record<string, GradingProject> = {};
+    for (const project of stored) {
+        projects[project.id] = await materializeProject(project);
+    }
+    return projects;
+};
+
+export const saveProjects = async (changed: Record<string, GradingProject>, deletedIds: string[], replaceAll = false) => {
+    const db = await openDb();
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECTS_STORE);
+    if (replaceAll) store.clear();
+    Object.values(changed).forEach(project => store.put(dematerializeProject(project), project.id));
+    deletedIds.forEach(id => store.delete(id));
+    await transactionDone(tx);
+};
+
+export const loadData = async (key: string): Promise<any> => {
+    if (key === 'projects') return loadProjects();
+    const db = await openDb();
+    const value = await requestToPromise(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(key));
+    return value === undefined ? null : value;
+};
+
+export const saveData = async (key: string, data: any) => {
+    if (key === 'projects') return saveProjects(data || {}, [], true);
+    const db = await openDb();
+    const tx = db.transaction(DATA_STORE, 'readwrite');
+    tx.objectStore(DATA_STORE).put(data, key);
+    await transactionDone(tx);
+};
@@ -1,5 +1,6 @@
 const rules = [...require('./webpack.rules')];
 const ForkTsCheckerWebpackPlugin = require('fork-ts-checker-webpack-plugin');
+const { DefinePlugin } = require('webpack');
 
 rules.push({
   test: /\.css$/,
@@ -11,7 +12,15 @@ module.exports = {
   module: {
     rules,
   },
-  plugins: [new ForkTsCheckerWebpackPlugin()],
+  plugins: [
+    new ForkTsCheckerWebpackPlugin(),
+    // The image worker entry is built next to main_window
+    new DefinePlugin({
+      IMAGE_WORKER_URL: JSON.stringify('../image_worker/index.js'),
+      // The renderer has no `process`; the header reads AI_MOCK to decide whether an API key is needed
+      'process.env.AI_MOCK': JSON.stringify(process.env.AI_MOCK || ''),
+    }),
+  ],
   resolve: {
     extensions: ['.js', '.ts', '.jsx', '.tsx', '.css'],
   },
@@ -1,12 +1,17 @@
 const path = require('path');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
+const { DefinePlugin } = require('webpack');
 
 module.exports = {
   mode: 'production',
-  entry: './src/renderer.tsx',
+  entry: {
+    bundle: './src/renderer.tsx',
+    // Image processing runs in Web Workers loaded from this file (see src/imageWorkerPool.ts)
+    imageWorker: './src/imageWorker.ts',
+  },
   output: {
     path: path.resolve(__dirname, 'dist'),
-    filename: 'bundle.js',
+    filename: '[name].js',
   },
   module: {
     rules: [
@@ -32,6 +37,11 @@ module.exports = {
   plugins: [
     new HtmlWebpackPlugin({
       template: './src/index.html',
+      chunks: ['bundle'],
+    }),
+    new DefinePlugin({
+      IMAGE_WORKER_URL: JSON.stringify('imageWorker.js'),
+      'process.env.AI_MOCK': JSON.stringify(process.env.AI_MOCK || ''),
     }),
   ],
   devServer: {